@@ -1,5 +1,5 @@
 import type { Ref } from 'vue'
-import type { Venue } from '@/shared/types'
+import type { Coordinates, SunHeatmapGrid, Venue } from '@/shared/types'
 
 export interface MapCallbacks {
   onBoundsChanged: (bounds: { south: number; west: number; north: number; east: number }) => void
@@ -36,12 +36,25 @@ export interface IMapGateway {
   // Close any open popups.
   closePopups(): void
 
-  // Re-render venue markers from the current venue list.
+  // Re-render venue markers, and the terrace polygons of venues that have one, from the current venue list.
   updateVenueMarkers(venues: Venue[]): void
 
+  // Show the terrace outline being drawn in the contribute flow, or remove it with null.
+  setDraftTerrace(points: Coordinates[] | null): void
+
+  // Group overlapping venue markers into clusters that show their sunny/shaded split.
+  // Clicking a cluster zooms in until it splits up.
+  setClustering(enabled: boolean): void
+
+  // Draw a sun exposure heatmap grid beneath the venues, or remove it with null.
+  setSunHeatmap(grid: SunHeatmapGrid | null): void
+
   // Place the user-location pin on the map.
   setUserLocation(latitude: number, longitude: number): void
 
   // Remove the user-location pin from the map.
   clearUserLocation(): void
+
+  // Position the simulated sun for the given date and time (3D views only).
+  setLightingDate(date: Date): void
 }
@@ -1,12 +1,16 @@
 import { computed, watch } from 'vue'
 import { storeToRefs } from 'pinia'
-import type { Venue } from '@/shared/types'
+import type { Coordinates, SunHeatmapGrid, Venue } from '@/shared/types'
 import type { IMapGateway, MapCallbacks } from '../IMapGateway'
 import { useArcGISModules } from './useArcGISModules'
 import { useMapView } from './useMapView'
 import { useSceneView } from './useSceneView'
 import { useVenueMarkers } from './useVenueMarkers'
 import { useVenueSymbols } from './useVenueSymbols'
+import { useTerracePolygons } from './useTerracePolygons'
+import { useSunHeatmapGraphics } from './useSunHeatmapGraphics'
+import { useClusterMarkers } from './useClusterMarkers'
+import { useVenueClustering, type VenueCluster } from '../useVenueClustering'
 import { useUserLocationMarker } from './useUserLocationMarker'
 import { useMapBounds } from './useMapBounds'
 import { useVenue } from '@/composables/useVenue'
@@ -16,6 +20,7 @@ import { useMapViewStore } from '@/stores/mapView'
 export function useArcGISMapGateway(): IMapGateway {
   const { isSunny } = useVenue()
   const { loadModules } = useArcGISModules()
+  const { clusterVenues } = useVenueClustering(isSunny)
   const mapView = useMapView()
   const sceneView = useSceneView()
   const mapViewStore = useMapViewStore()
@@ -26,6 +31,9 @@ export function useArcGISMapGateway(): IMapGateway {
 
   // Marker / bounds helpers: initialised after modules are loaded
   let venueMarkers: ReturnType<typeof useVenueMarkers> | null = null
+  let terracePolygons: ReturnType<typeof useTerracePolygons> | null = null
+  let sunHeatmapGraphics: ReturnType<typeof useSunHeatmapGraphics> | null = null
+  let clusterMarkers: ReturnType<typeof useClusterMarkers> | null = null
   let userLocationMarker: ReturnType<typeof useUserLocationMarker> | null = null
   let mapBounds: ReturnType<typeof useMapBounds> | null = null
 
@@ -37,6 +45,15 @@ export function useArcGISMapGateway(): IMapGateway {
 
   // Last known venue list: restored to the new view after a mode switch
   let storedVenues: Venue[] = []
+  let storedDraftTerrace: Coordinates[] | null = null
+  let storedHeatmap: SunHeatmapGrid | null = null
+
+  // Clusters currently on the map, by id, so a click can zoom into the right one
+  let isClusteringEnabled = true
+  let renderedClusters = new Map<string, VenueCluster>()
+
+  // Last requested sun lighting time: applied whenever a SceneView is (re)created
+  let storedLightingDate: Date = new Date()
 
   // Loading reflects the active view's own loading flag
   const isLoading = computed(() =>
@@ -47,7 +64,28 @@ export function useArcGISMapGateway(): IMapGateway {
     return viewMode.value === '2d' ? mapView : sceneView
   }
 
+  // Draw the stored venues, grouping the ones that overlap at the current zoom.
+  function renderVenueMarkers(): void {
+    if (!venueMarkers || !clusterMarkers) return
+
+    const layer = activeView().getVenueGraphicsLayer()
+    const zoom = activeView().getView()?.zoom ?? storedZoom
+    const { clusters, singles } = isClusteringEnabled
+      ? clusterVenues(storedVenues, zoom)
+      : { clusters: [], singles: storedVenues }
+
+    venueMarkers.updateMarkers(layer, singles)
+    clusterMarkers.updateClusters(layer, clusters)
+    renderedClusters = new Map(clusters.map((cluster) => [cluster.id, cluster]))
+  }
+
+  function handleClusterClick(clusterId: string): void {
+    const cluster = renderedClusters.get(clusterId)
+    if (cluster) flyTo(cluster.coordinates.latitude, cluster.coordinates.longitude, cluster.expansionZoom)
+  }
+
   function handleBoundsChanged(): void {
+    renderVenueMarkers()
     if (mapBounds && storedCallbacks) {
       mapBounds.emitBounds(activeView().getView(), storedCallbacks.onBoundsChanged)
     }
@@ -63,7 +101,8 @@ export function useArcGISMapGateway(): IMapGateway {
 
     const viewCallbacks = {
       onBoundsChanged: handleBoundsChanged,
-      onVenueClick: (venueId: string) => storedCallbacks!.onVenueClick(venueId)
+      onVenueClick: (venueId: string) => storedCallbacks!.onVenueClick(venueId),
+      onClusterClick: handleClusterClick
     }
 
     if (viewMode.value === '2d') {
@@ -93,7 +132,8 @@ export function useArcGISMapGateway(): IMapGateway {
           SceneLayer: arcGISModules.SceneLayer,
           reactiveUtils: arcGISModules.reactiveUtils
         },
-        viewCallbacks
+        viewCallbacks,
+        storedLightingDate
       )
     }
 
@@ -103,9 +143,12 @@ export function useArcGISMapGateway(): IMapGateway {
     }
 
     // Restore venue markers on the new view
-    if (storedVenues.length > 0 && venueMarkers) {
-      venueMarkers.updateMarkers(activeView().getVenueGraphicsLayer(), storedVenues)
+    if (storedVenues.length > 0) renderVenueMarkers()
+    if (terracePolygons) {
+      terracePolygons.updateTerraces(activeView().getVenueGraphicsLayer(), storedVenues)
+      terracePolygons.setDraftTerrace(activeView().getVenueGraphicsLayer(), storedDraftTerrace)
     }
+    sunHeatmapGraphics?.setHeatmap(activeView().getVenueGraphicsLayer(), storedHeatmap)
   }
 
   // Reinitialise whenever the user toggles 2D ↔ 3D
@@ -132,10 +175,27 @@ export function useArcGISMapGateway(): IMapGateway {
     venueMarkers = useVenueMarkers(
       arcGISModules.Graphic,
       arcGISModules.Point,
-      venueSymbols.createSunnySymbol,
-      venueSymbols.createShadedSymbol,
+      venueSymbols.createVenueSymbol,
+      venueSymbols.getSymbolKey,
       isSunny
     )
+    clusterMarkers = useClusterMarkers(
+      arcGISModules.Graphic,
+      arcGISModules.Point,
+      arcGISModules.PictureMarkerSymbol
+    )
+    terracePolygons = useTerracePolygons(
+      arcGISModules.Graphic,
+      arcGISModules.Polygon,
+      arcGISModules.Point,
+      arcGISModules.SimpleFillSymbol,
+      arcGISModules.SimpleMarkerSymbol
+    )
+    sunHeatmapGraphics = useSunHeatmapGraphics(
+      arcGISModules.Graphic,
+      arcGISModules.Polygon,
+      arcGISModules.SimpleFillSymbol
+    )
     userLocationMarker = useUserLocationMarker(
       arcGISModules.Graphic,
       arcGISModules.Point,
@@ -172,9 +232,23 @@ export function useArcGISMapGateway(): IMapGateway {
 
   function updateVenueMarkers(venues: Venue[]): void {
     storedVenues = venues
-    if (venueMarkers) {
-      venueMarkers.updateMarkers(activeView().getVenueGraphicsLayer(), venues)
-    }
+    renderVenueMarkers()
+    terracePolygons?.updateTerraces(activeView().getVenueGraphicsLayer(), venues)
+  }
+
+  function setDraftTerrace(points: Coordinates[] | null): void {
+    storedDraftTerrace = points
+    terracePolygons?.setDraftTerrace(activeView().getVenueGraphicsLayer(), points)
+  }
+
+  function setClustering(enabled: boolean): void {
+    isClusteringEnabled = enabled
+    renderVenueMarkers()
+  }
+
+  function setSunHeatmap(grid: SunHeatmapGrid | null): void {
+    storedHeatmap = grid
+    sunHeatmapGraphics?.setHeatmap(activeView().getVenueGraphicsLayer(), grid)
   }
 
   function setUserLocation(latitude: number, longitude: number): void {
@@ -189,6 +263,11 @@ export function useArcGISMapGateway(): IMapGateway {
     userLocationMarker?.clearUserLocation(activeView().getVenueGraphicsLayer())
   }
 
+  function setLightingDate(date: Date): void {
+    storedLightingDate = date
+    sceneView.setLightingDate(date)
+  }
+
   return {
     isLoading,
     initialize,
@@ -198,7 +277,11 @@ export function useArcGISMapGateway(): IMapGateway {
     setZoom,
     closePopups,
     updateVenueMarkers,
+    setDraftTerrace,
+    setSunHeatmap,
+    setClustering,
     setUserLocation,
-    clearUserLocation
+    clearUserLocation,
+    setLightingDate
   }
 }
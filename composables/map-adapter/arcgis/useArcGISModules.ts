@@ -8,6 +8,9 @@ export function useArcGISModules() {
   let Graphic: typeof import('@arcgis/core/Graphic').default
   let Point: typeof import('@arcgis/core/geometry/Point').default
   let SimpleMarkerSymbol: typeof import('@arcgis/core/symbols/SimpleMarkerSymbol').default
+  let Polygon: typeof import('@arcgis/core/geometry/Polygon').default
+  let SimpleFillSymbol: typeof import('@arcgis/core/symbols/SimpleFillSymbol').default
+  let PictureMarkerSymbol: typeof import('@arcgis/core/symbols/PictureMarkerSymbol').default
   let webMercatorToGeographic: typeof import('@arcgis/core/geometry/support/webMercatorUtils').webMercatorToGeographic
   let reactiveUtils: typeof import('@arcgis/core/core/reactiveUtils')
   let ElevationLayer: typeof import('@arcgis/core/layers/ElevationLayer').default
@@ -31,6 +34,9 @@ export function useArcGISModules() {
       GraphicModule,
       PointModule,
       SimpleMarkerSymbolModule,
+      PolygonModule,
+      SimpleFillSymbolModule,
+      PictureMarkerSymbolModule,
       webMercatorUtilsModule,
       reactiveUtilsModule,
       ElevationLayerModule,
@@ -44,6 +50,9 @@ export function useArcGISModules() {
       import('@arcgis/core/Graphic'),
       import('@arcgis/core/geometry/Point'),
       import('@arcgis/core/symbols/SimpleMarkerSymbol'),
+      import('@arcgis/core/geometry/Polygon'),
+      import('@arcgis/core/symbols/SimpleFillSymbol'),
+      import('@arcgis/core/symbols/PictureMarkerSymbol'),
       import('@arcgis/core/geometry/support/webMercatorUtils'),
       import('@arcgis/core/core/reactiveUtils'),
       import('@arcgis/core/layers/ElevationLayer'),
@@ -58,6 +67,9 @@ export function useArcGISModules() {
     Graphic = GraphicModule.default
     Point = PointModule.default
     SimpleMarkerSymbol = SimpleMarkerSymbolModule.default
+    Polygon = PolygonModule.default
+    SimpleFillSymbol = SimpleFillSymbolModule.default
+    PictureMarkerSymbol = PictureMarkerSymbolModule.default
     webMercatorToGeographic = webMercatorUtilsModule.webMercatorToGeographic
     reactiveUtils = reactiveUtilsModule
     ElevationLayer = ElevationLayerModule.default
@@ -72,6 +84,9 @@ export function useArcGISModules() {
       Graphic,
       Point,
       SimpleMarkerSymbol,
+      Polygon,
+      SimpleFillSymbol,
+      PictureMarkerSymbol,
       webMercatorToGeographic,
       reactiveUtils,
       ElevationLayer,
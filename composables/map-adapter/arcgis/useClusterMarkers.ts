@@ -0,0 +1,45 @@
+import type { VenueCluster } from '../useVenueClustering'
+import { useClusterBadge } from '../useClusterBadge'
+
+// useClusterMarkers composable
+// Draws venue clusters as split sunny/shaded badges. Cluster graphics carry a
+// `clusterId` attribute so clicks can be told apart from venue markers.
+export function useClusterMarkers(
+  Graphic: typeof import('@arcgis/core/Graphic').default,
+  Point: typeof import('@arcgis/core/geometry/Point').default,
+  PictureMarkerSymbol: typeof import('@arcgis/core/symbols/PictureMarkerSymbol').default
+) {
+  const clusterBadge = useClusterBadge()
+
+  function updateClusters(graphicsLayer: __esri.GraphicsLayer | null, clusters: VenueCluster[]): void {
+    if (!graphicsLayer) return
+
+    const existing = graphicsLayer.graphics.filter((graphic) => !!graphic.attributes?.clusterId)
+    graphicsLayer.removeMany(existing.toArray())
+
+    const graphics = clusters.map((cluster) => {
+      const size = clusterBadge.getBadgeSize(cluster.venues.length)
+      return new Graphic({
+        geometry: new Point({
+          longitude: cluster.coordinates.longitude,
+          latitude: cluster.coordinates.latitude
+        }),
+        symbol: new PictureMarkerSymbol({
+          url: clusterBadge.createBadgeDataUrl(cluster.sunnyCount, cluster.venues.length),
+          width: `${size}px`,
+          height: `${size}px`
+        }),
+        attributes: {
+          clusterId: cluster.id,
+          count: cluster.venues.length,
+          sunnyCount: cluster.sunnyCount
+        }
+      })
+    })
+    graphicsLayer.addMany(graphics)
+  }
+
+  return {
+    updateClusters
+  }
+}
@@ -28,6 +28,7 @@ export function useMapView() {
     callbacks: {
       onBoundsChanged: (stationary: boolean) => void;
       onVenueClick: (venueId: string) => void;
+      onClusterClick: (clusterId: string) => void;
     }
   ): Promise<void> {
     // Ensure loading state is set
@@ -77,8 +78,9 @@ export function useMapView() {
         )
 
         if (graphicHit) {
-          const venueId = graphicHit.graphic.attributes.id
-          callbacks.onVenueClick(venueId)
+          const { id, clusterId } = graphicHit.graphic.attributes ?? {}
+          if (clusterId) callbacks.onClusterClick(clusterId)
+          else if (id) callbacks.onVenueClick(id)
         }
       })
     } catch (error) {
@@ -45,7 +45,9 @@ export function useSceneView() {
     callbacks: {
       onBoundsChanged: (stationary: boolean) => void;
       onVenueClick: (venueId: string) => void;
-    }
+      onClusterClick: (clusterId: string) => void;
+    },
+    lightingDate: Date = new Date()
   ): Promise<void> {
     // Ensure loading state is set
     isLoading.value = true
@@ -107,7 +109,10 @@ export function useSceneView() {
         environment: {
           lighting: {
             type: 'sun',
-            directShadowsEnabled: DIRECT_SHADOWS
+            date: lightingDate,
+            directShadowsEnabled: DIRECT_SHADOWS,
+            // Keep the sun at the selected time instead of re-deriving it from the camera position
+            cameraTrackingEnabled: false
           }
         },
         qualityProfile: QUALITY_PROFILE
@@ -142,8 +147,9 @@ export function useSceneView() {
         )
 
         if (graphicHit) {
-          const venueId = graphicHit.graphic.attributes.id
-          callbacks.onVenueClick(venueId)
+          const { id, clusterId } = graphicHit.graphic.attributes ?? {}
+          if (clusterId) callbacks.onClusterClick(clusterId)
+          else if (id) callbacks.onVenueClick(id)
         }
       })
     } catch (error) {
@@ -218,6 +224,13 @@ export function useSceneView() {
     }
   }
 
+  function setLightingDate(date: Date): void {
+    const lighting = view?.environment.lighting
+    if (lighting?.type === 'sun') {
+      lighting.date = date
+    }
+  }
+
   function cleanup(): void {
     if (stationaryWatchHandle) {
       stationaryWatchHandle.remove()
@@ -244,6 +257,7 @@ export function useSceneView() {
     getCenter,
     setCenter,
     setZoom,
+    setLightingDate,
     cleanup,
     isLoading
   }
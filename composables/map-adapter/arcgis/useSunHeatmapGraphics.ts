@@ -0,0 +1,36 @@
+import type { SunHeatmapGrid } from '@/shared/types'
+import { useHeatmapCells } from '../useHeatmapCells'
+
+// useSunHeatmapGraphics composable
+// Draws the sun exposure heatmap as a grid of filled cells at the very bottom of the
+// graphics layer, beneath terraces and venue markers.
+export function useSunHeatmapGraphics(
+  Graphic: typeof import('@arcgis/core/Graphic').default,
+  Polygon: typeof import('@arcgis/core/geometry/Polygon').default,
+  SimpleFillSymbol: typeof import('@arcgis/core/symbols/SimpleFillSymbol').default
+) {
+  const heatmapCells = useHeatmapCells()
+  let cellGraphics: __esri.Graphic[] = []
+
+  function setHeatmap(graphicsLayer: __esri.GraphicsLayer | null, grid: SunHeatmapGrid | null): void {
+    if (!graphicsLayer) return
+
+    graphicsLayer.removeMany(cellGraphics)
+    cellGraphics = []
+    if (!grid) return
+
+    cellGraphics = heatmapCells.getCells(grid).map((cell) => new Graphic({
+      geometry: new Polygon({ rings: [cell.ring], spatialReference: { wkid: 4326 } }),
+      symbol: new SimpleFillSymbol({
+        color: cell.color,
+        outline: { width: 0 }
+      }),
+      attributes: { heatmapValue: cell.value }
+    }))
+    graphicsLayer.graphics.addMany(cellGraphics, 0)
+  }
+
+  return {
+    setHeatmap
+  }
+}
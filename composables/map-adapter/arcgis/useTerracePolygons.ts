@@ -0,0 +1,85 @@
+import type { Coordinates, Venue } from '@/shared/types'
+import { useTerraceStyle } from '../useTerraceStyle'
+
+// useTerracePolygons composable
+// Draws venue terrace polygons, shaded by how much of each terrace is sunlit, and the
+// draft terrace of the contribute flow. Polygons are inserted just above the heatmap at
+// the bottom of the graphics layer so venue markers stay on top and clickable.
+export function useTerracePolygons(
+  Graphic: typeof import('@arcgis/core/Graphic').default,
+  Polygon: typeof import('@arcgis/core/geometry/Polygon').default,
+  Point: typeof import('@arcgis/core/geometry/Point').default,
+  SimpleFillSymbol: typeof import('@arcgis/core/symbols/SimpleFillSymbol').default,
+  SimpleMarkerSymbol: typeof import('@arcgis/core/symbols/SimpleMarkerSymbol').default
+) {
+  const terraceStyle = useTerraceStyle()
+  let draftGraphics: __esri.Graphic[] = []
+
+  function createPolygon(points: Coordinates[]): __esri.Polygon {
+    return new Polygon({
+      rings: [points.map((p) => [p.longitude, p.latitude])],
+      spatialReference: { wkid: 4326 }
+    })
+  }
+
+  // Terrace graphics are keyed by a `terraceOf` attribute so the venue marker
+  // bookkeeping, which keys on `id`, leaves them alone.
+  function updateTerraces(graphicsLayer: __esri.GraphicsLayer | null, venues: Venue[]): void {
+    if (!graphicsLayer) return
+
+    const existing = graphicsLayer.graphics.filter((graphic) => !!graphic.attributes?.terraceOf)
+    graphicsLayer.removeMany(existing.toArray())
+
+    // Stay above the heatmap cells, which occupy the bottom of the layer
+    const insertAt = graphicsLayer.graphics.filter((graphic) => graphic.attributes?.heatmapValue !== undefined).length
+
+    venues
+      .filter((venue) => venue.terrace && venue.terrace.length >= 3)
+      .forEach((venue) => {
+        const graphic = new Graphic({
+          geometry: createPolygon(venue.terrace!),
+          symbol: new SimpleFillSymbol({
+            color: terraceStyle.getFillColor(venue),
+            outline: { color: [255, 255, 255, 1], width: 1 }
+          }),
+          attributes: { terraceOf: venue.id }
+        })
+        graphicsLayer.graphics.add(graphic, insertAt)
+      })
+  }
+
+  function setDraftTerrace(graphicsLayer: __esri.GraphicsLayer | null, points: Coordinates[] | null): void {
+    if (!graphicsLayer) return
+
+    graphicsLayer.removeMany(draftGraphics)
+    draftGraphics = []
+    if (!points) return
+
+    const [r, g, b] = terraceStyle.getDraftFillColor()
+    if (points.length >= 3) {
+      draftGraphics.push(new Graphic({
+        geometry: createPolygon(points),
+        symbol: new SimpleFillSymbol({
+          color: terraceStyle.getDraftFillColor(),
+          outline: { color: [r, g, b, 1], width: 2, style: 'dash' }
+        })
+      }))
+    }
+    points.forEach((point) => {
+      draftGraphics.push(new Graphic({
+        geometry: new Point({ longitude: point.longitude, latitude: point.latitude }),
+        symbol: new SimpleMarkerSymbol({
+          size: 8,
+          color: [255, 255, 255, 1],
+          outline: { color: [r, g, b, 1], width: 2 }
+        })
+      }))
+    })
+    graphicsLayer.addMany(draftGraphics)
+  }
+
+  return {
+    updateTerraces,
+    setDraftTerrace
+  }
+}
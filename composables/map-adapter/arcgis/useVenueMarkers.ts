@@ -2,11 +2,12 @@ import type { Venue } from '@/shared/types'
 
 // useVenueMarkers composable
 // Manages venue markers on the map: creates, updates, and removes them as needed.
+// A marker is redrawn only when its symbol key (venue type and sunlight status) changes.
 export function useVenueMarkers(
   Graphic: typeof import('@arcgis/core/Graphic').default,
   Point: typeof import('@arcgis/core/geometry/Point').default,
-  createSunnySymbol: () => __esri.SimpleMarkerSymbol,
-  createShadedSymbol: () => __esri.SimpleMarkerSymbol,
+  createVenueSymbol: (venue: Venue) => __esri.SimpleMarkerSymbol,
+  getSymbolKey: (venue: Venue) => string,
   isSunny: (venue: Venue) => boolean
 ) {
   function updateMarkers(
@@ -30,13 +31,13 @@ export function useVenueMarkers(
     venues.forEach((venue) => {
       currentVenueIds.add(venue.id)
 
-      const venueIsSunny = isSunny(venue)
+      const symbolKey = getSymbolKey(venue)
       const existingGraphic = existingGraphics.get(venue.id)
 
       // Check if graphic needs update
       if (
         existingGraphic &&
-        existingGraphic.attributes.isSunny === venueIsSunny
+        existingGraphic.attributes.symbolKey === symbolKey
       ) {
         // No change needed, keep existing graphic
         return
@@ -53,7 +54,7 @@ export function useVenueMarkers(
         latitude: venue.coordinates.latitude
       })
 
-      const symbol = venueIsSunny ? createSunnySymbol() : createShadedSymbol()
+      const symbol = createVenueSymbol(venue)
 
       const graphic = new Graphic({
         geometry: point,
@@ -62,7 +63,8 @@ export function useVenueMarkers(
           id: venue.id,
           name: venue.name,
           type: venue.type,
-          isSunny: venueIsSunny,
+          isSunny: isSunny(venue),
+          symbolKey,
           address: venue.address,
           outdoor_seating: venue.outdoor_seating
         }
@@ -1,26 +1,36 @@
+import type { SunlightStatus } from '@/shared/enums'
+import type { Venue, VenueType } from '@/shared/types'
+import { useVenueSymbology } from '../useVenueSymbology'
+
+// ArcGIS marker sizes are in points; the shared symbology is in pixels.
+const POINTS_PER_PIXEL = 0.75
+
 // useVenueSymbols composable
-// Creates marker symbols for sunny and shaded venues.
+// Creates venue marker symbols from the shared symbology: the shape shows the venue
+// type and the colour and size show the sunlight status.
 export function useVenueSymbols(
   SimpleMarkerSymbol: typeof import('@arcgis/core/symbols/SimpleMarkerSymbol').default
 ) {
-  function createSunnySymbol(): __esri.SimpleMarkerSymbol {
+  const symbology = useVenueSymbology()
+
+  function createSymbol(type: VenueType, status: SunlightStatus): __esri.SimpleMarkerSymbol {
+    const { color, size, outlineWidth } = symbology.getStatusStyle(status)
     return new SimpleMarkerSymbol({
-      size: 16,
-      color: [255, 193, 7, 1],
-      outline: { color: [255, 255, 255, 1], width: 2.5 }
+      style: 'path',
+      path: symbology.getTypePath(type),
+      size: size * POINTS_PER_PIXEL,
+      color,
+      outline: { color: symbology.getOutlineColor(), width: outlineWidth * POINTS_PER_PIXEL }
     })
   }
 
-  function createShadedSymbol(): __esri.SimpleMarkerSymbol {
-    return new SimpleMarkerSymbol({
-      size: 12,
-      color: [107, 114, 128, 0.85],
-      outline: { color: [255, 255, 255, 1], width: 2 }
-    })
+  function createVenueSymbol(venue: Venue): __esri.SimpleMarkerSymbol {
+    return createSymbol(venue.type, symbology.getStatus(venue))
   }
 
   return {
-    createSunnySymbol,
-    createShadedSymbol
+    createSymbol,
+    createVenueSymbol,
+    getSymbolKey: symbology.getSymbolKey
   }
 }
@@ -1,26 +1,44 @@
 import { ref, watch } from 'vue'
 import { storeToRefs } from 'pinia'
+import { isTauri } from '@tauri-apps/api/core'
 import type { Map as MaplibreMap, Marker, GeoJSONSource, MapLayerMouseEvent } from 'maplibre-gl'
-import type { Venue } from '@/shared/types'
+import { SunlightStatus } from '@/shared/enums'
+import type { Coordinates, SunHeatmapGrid, Venue, VenueType } from '@/shared/types'
 import type { IMapGateway, MapCallbacks } from '../IMapGateway'
 import { useVenue } from '@/composables/useVenue'
+import { useTerraceStyle } from '../useTerraceStyle'
+import { useHeatmapCells } from '../useHeatmapCells'
+import { useClusterBadge } from '../useClusterBadge'
+import { CLUSTER_MAX_ZOOM, CLUSTER_RADIUS_PX } from '../useVenueClustering'
+import { useVenueSymbology } from '../useVenueSymbology'
+import { OFFLINE_PROTOCOL, useOfflineResources } from './useOfflineResources'
 import { useMapViewStore } from '@/stores/mapView'
+import { useOfflineRegionsStore } from '@/stores/offlineRegions'
 
 // OpenFreeMap liberty style — free, no API key required, full OSM vector tiles
 // with building extrusion data for 3D rendering.
 // https://openfreemap.org
-const STYLE_URL = 'https://tiles.openfreemap.org/styles/liberty'
+export const MAPLIBRE_STYLE_URL = 'https://tiles.openfreemap.org/styles/liberty'
 
 const FLY_DURATION_MS = 1000
 const BOUNDS_DEBOUNCE_MS = 500
 const PITCH_3D = 60
 const PITCH_2D = 0
+// Marker images are rasterised at twice their size so they stay sharp on HiDPI screens
+const MARKER_PIXEL_RATIO = 2
+const VENUE_TYPES: VenueType[] = ['bar', 'cafe', 'restaurant', 'pub', 'biergarten']
 
 // IMapGateway implementation backed by MapLibre GL JS and OpenStreetMap tiles.
 export function useMapLibreMapGateway(): IMapGateway {
   const { isSunny } = useVenue()
+  const terraceStyle = useTerraceStyle()
+  const heatmapCells = useHeatmapCells()
+  const clusterBadge = useClusterBadge()
+  const symbology = useVenueSymbology()
   const mapViewStore = useMapViewStore()
   const { viewMode } = storeToRefs(mapViewStore)
+  const offlineRegionsStore = useOfflineRegionsStore()
+  const offlineResources = useOfflineResources()
 
   // Lazily-loaded module reference — populated inside initialize()
   let ml: typeof import('maplibre-gl') | null = null
@@ -30,6 +48,13 @@ export function useMapLibreMapGateway(): IMapGateway {
   let boundsTimer: ReturnType<typeof setTimeout> | null = null
   let storedCallbacks: MapCallbacks | null = null
   let storedVenues: Venue[] = []
+  let storedDraftTerrace: Coordinates[] | null = null
+  let storedHeatmap: SunHeatmapGrid | null = null
+  let isClusteringEnabled = true
+
+  // Cluster badges are DOM markers keyed by cluster id and split, since cluster ids
+  // are reassigned whenever the source data changes.
+  let clusterMarkers = new Map<string, Marker>()
 
   const isLoading = ref(true)
 
@@ -77,64 +102,276 @@ export function useMapLibreMapGateway(): IMapGateway {
         properties: {
           id: v.id,
           name: v.name,
-          isSunny: isSunny(v)
+          isSunny: isSunny(v),
+          symbolKey: symbology.getSymbolKey(v),
+          // Larger (sunnier) markers are drawn on top of smaller ones
+          sortKey: symbology.getStatusStyle(symbology.getStatus(v)).size
         }
       }))
     }
   }
 
+  // GeoJSON rings are closed, so the first vertex is repeated at the end.
+  function toRing(points: Coordinates[]): [number, number][] {
+    const ring = points.map((p) => [p.longitude, p.latitude] as [number, number])
+    return [...ring, ring[0]!]
+  }
+
+  function getTerraceFeatureCollection(venues: Venue[]) {
+    return {
+      type: 'FeatureCollection' as const,
+      features: venues
+        .filter((v) => v.terrace && v.terrace.length >= 3)
+        .map((v) => ({
+          type: 'Feature' as const,
+          geometry: { type: 'Polygon' as const, coordinates: [toRing(v.terrace!)] },
+          properties: {
+            id: v.id,
+            fillColor: terraceStyle.toCssColor(terraceStyle.getFillColor(v))
+          }
+        }))
+    }
+  }
+
+  // The draft shows its vertices, the outline so far and, once it can close, the filled polygon.
+  function getDraftTerraceFeatureCollection(points: Coordinates[] | null) {
+    const vertices = (points ?? []).map((p) => ({
+      type: 'Feature' as const,
+      geometry: { type: 'Point' as const, coordinates: [p.longitude, p.latitude] },
+      properties: {}
+    }))
+    const outline = points && points.length >= 2
+      ? [{
+          type: 'Feature' as const,
+          geometry: {
+            type: 'LineString' as const,
+            coordinates: points.length >= 3 ? toRing(points) : toRing(points).slice(0, -1)
+          },
+          properties: {}
+        }]
+      : []
+    const fill = points && points.length >= 3
+      ? [{
+          type: 'Feature' as const,
+          geometry: { type: 'Polygon' as const, coordinates: [toRing(points)] },
+          properties: {}
+        }]
+      : []
+    return { type: 'FeatureCollection' as const, features: [...fill, ...outline, ...vertices] }
+  }
+
   function applyVenueData(venues: Venue[]): void {
     if (!map) return
     const source = map.getSource('venues') as GeoJSONSource | undefined
     source?.setData(getVenueFeatureCollection(venues))
+    const terraceSource = map.getSource('terraces') as GeoJSONSource | undefined
+    terraceSource?.setData(getTerraceFeatureCollection(venues))
   }
 
-  function addVenueLayers(): void {
+  function applyDraftTerrace(points: Coordinates[] | null): void {
     if (!map) return
+    const source = map.getSource('terrace-draft') as GeoJSONSource | undefined
+    source?.setData(getDraftTerraceFeatureCollection(points))
+  }
 
-    map.addSource('venues', {
+  function getHeatmapFeatureCollection(grid: SunHeatmapGrid | null) {
+    return {
+      type: 'FeatureCollection' as const,
+      features: (grid ? heatmapCells.getCells(grid) : []).map((cell) => ({
+        type: 'Feature' as const,
+        geometry: { type: 'Polygon' as const, coordinates: [cell.ring] },
+        properties: { fillColor: terraceStyle.toCssColor(cell.color) }
+      }))
+    }
+  }
+
+  function applyHeatmap(grid: SunHeatmapGrid | null): void {
+    if (!map) return
+    const source = map.getSource('sun-heatmap') as GeoJSONSource | undefined
+    source?.setData(getHeatmapFeatureCollection(grid))
+  }
+
+  // The heatmap is the bottom-most overlay, drawn under terraces and venues.
+  function addHeatmapLayer(): void {
+    if (!map) return
+
+    map.addSource('sun-heatmap', {
       type: 'geojson',
       data: { type: 'FeatureCollection', features: [] }
     })
 
-    // Sunny venues: amber circle matching ArcGIS symbol colours
     map.addLayer({
-      id: 'venues-sunny',
-      type: 'circle',
-      source: 'venues',
-      filter: ['==', ['get', 'isSunny'], true],
+      id: 'sun-heatmap-fill',
+      type: 'fill',
+      source: 'sun-heatmap',
+      paint: {
+        'fill-color': ['get', 'fillColor'],
+        'fill-antialias': false
+      }
+    })
+  }
+
+  // Terrace polygons sit below the venue circles so the markers stay clickable.
+  function addTerraceLayers(): void {
+    if (!map) return
+
+    map.addSource('terraces', {
+      type: 'geojson',
+      data: { type: 'FeatureCollection', features: [] }
+    })
+
+    map.addLayer({
+      id: 'terraces-fill',
+      type: 'fill',
+      source: 'terraces',
+      paint: {
+        'fill-color': ['get', 'fillColor'],
+        'fill-outline-color': '#FFFFFF'
+      }
+    })
+
+    const draftColor = terraceStyle.getDraftFillColor()
+
+    map.addSource('terrace-draft', {
+      type: 'geojson',
+      data: { type: 'FeatureCollection', features: [] }
+    })
+
+    map.addLayer({
+      id: 'terrace-draft-fill',
+      type: 'fill',
+      source: 'terrace-draft',
+      filter: ['==', ['geometry-type'], 'Polygon'],
+      paint: { 'fill-color': terraceStyle.toCssColor(draftColor) }
+    })
+
+    map.addLayer({
+      id: 'terrace-draft-outline',
+      type: 'line',
+      source: 'terrace-draft',
+      filter: ['==', ['geometry-type'], 'LineString'],
       paint: {
-        'circle-radius': 8,
-        'circle-color': '#FFC107',
-        'circle-stroke-color': '#FFFFFF',
-        'circle-stroke-width': 2.5
+        'line-color': terraceStyle.toCssColor([draftColor[0], draftColor[1], draftColor[2], 1]),
+        'line-width': 2,
+        'line-dasharray': [2, 1]
       }
     })
 
-    // Shaded venues: grey circle
     map.addLayer({
-      id: 'venues-shaded',
+      id: 'terrace-draft-vertices',
       type: 'circle',
-      source: 'venues',
-      filter: ['==', ['get', 'isSunny'], false],
+      source: 'terrace-draft',
+      filter: ['==', ['geometry-type'], 'Point'],
       paint: {
-        'circle-radius': 6,
-        'circle-color': '#6B7280',
-        'circle-stroke-color': '#FFFFFF',
+        'circle-radius': 4,
+        'circle-color': '#FFFFFF',
+        'circle-stroke-color': terraceStyle.toCssColor([draftColor[0], draftColor[1], draftColor[2], 1]),
         'circle-stroke-width': 2
       }
     })
+  }
+
+  async function expandCluster(clusterId: number, center: [number, number]): Promise<void> {
+    const source = map?.getSource('venues') as GeoJSONSource | undefined
+    if (!source) return
+    const zoom = await source.getClusterExpansionZoom(clusterId)
+    map?.easeTo({ center, zoom, duration: FLY_DURATION_MS })
+  }
+
+  function createClusterMarker(clusterId: number, center: [number, number], sunnyCount: number, total: number): Marker {
+    const el = document.createElement('div')
+    el.innerHTML = clusterBadge.createBadgeSvg(sunnyCount, total)
+    el.style.cursor = 'pointer'
+    el.addEventListener('click', (event) => {
+      event.stopPropagation()
+      expandCluster(clusterId, center)
+    })
+    return new ml!.Marker({ element: el }).setLngLat(center).addTo(map!)
+  }
+
+  // Sync the badge markers with the clusters currently rendered by the source.
+  function updateClusterMarkers(): void {
+    if (!map || !ml) return
+
+    const next = new Map<string, Marker>()
+    for (const feature of map.querySourceFeatures('venues')) {
+      const properties = feature.properties
+      if (!properties?.cluster || feature.geometry.type !== 'Point') continue
+
+      const clusterId = properties.cluster_id as number
+      const total = properties.point_count as number
+      const sunnyCount = properties.sunnyCount as number
+      const key = `${clusterId}:${sunnyCount}/${total}`
+      if (next.has(key)) continue
+
+      const center = feature.geometry.coordinates as [number, number]
+      next.set(key, clusterMarkers.get(key) ?? createClusterMarker(clusterId, center, sunnyCount, total))
+    }
+
+    clusterMarkers.forEach((marker, key) => {
+      if (!next.has(key)) marker.remove()
+    })
+    clusterMarkers = next
+  }
+
+  function loadSvgImage(svg: string): Promise<HTMLImageElement> {
+    const image = new Image()
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+    return image.decode().then(() => image)
+  }
+
+  // Register a marker image for every venue type and sunlight status combination.
+  async function addVenueImages(): Promise<void> {
+    const statuses = Object.values(SunlightStatus)
+    const entries = VENUE_TYPES.flatMap((type) => statuses.map((status) => ({ type, status })))
+    const images = await Promise.all(
+      entries.map(({ type, status }) =>
+        loadSvgImage(symbology.createMarkerSvg(type, status, MARKER_PIXEL_RATIO)))
+    )
+    entries.forEach(({ type, status }, index) => {
+      map?.addImage(symbology.getSymbolKeyFor(type, status), images[index]!, { pixelRatio: MARKER_PIXEL_RATIO })
+    })
+  }
+
+  function addVenueLayers(): void {
+    if (!map) return
+
+    map.addSource('venues', {
+      type: 'geojson',
+      data: { type: 'FeatureCollection', features: [] },
+      cluster: isClusteringEnabled,
+      clusterRadius: CLUSTER_RADIUS_PX,
+      clusterMaxZoom: CLUSTER_MAX_ZOOM,
+      clusterProperties: {
+        sunnyCount: ['+', ['case', ['get', 'isSunny'], 1, 0]]
+      }
+    })
+
+    // Unclustered venues: one icon per venue type and sunlight status, matching the ArcGIS symbols
+    map.addLayer({
+      id: 'venues-markers',
+      type: 'symbol',
+      source: 'venues',
+      filter: ['!', ['has', 'point_count']],
+      layout: {
+        'icon-image': ['get', 'symbolKey'],
+        'icon-allow-overlap': true,
+        'symbol-sort-key': ['get', 'sortKey']
+      }
+    })
 
     const handleClick = (e: MapLayerMouseEvent) => {
       const id = (e.features?.[0]?.properties?.id) as string | undefined
       if (id) storedCallbacks?.onVenueClick(id)
     }
 
-    for (const layer of ['venues-sunny', 'venues-shaded'] as const) {
-      map.on('click', layer, handleClick)
-      map.on('mouseenter', layer, () => { if (map) map.getCanvas().style.cursor = 'pointer' })
-      map.on('mouseleave', layer, () => { if (map) map.getCanvas().style.cursor = '' })
-    }
+    map.on('click', 'venues-markers', handleClick)
+    map.on('mouseenter', 'venues-markers', () => { if (map) map.getCanvas().style.cursor = 'pointer' })
+    map.on('mouseleave', 'venues-markers', () => { if (map) map.getCanvas().style.cursor = '' })
+
+    map.on('render', () => {
+      if (map?.isSourceLoaded('venues')) updateClusterMarkers()
+    })
   }
 
   async function initialize(
@@ -150,9 +387,14 @@ export function useMapLibreMapGateway(): IMapGateway {
       ml = await import('maplibre-gl')
       await import('maplibre-gl/dist/maplibre-gl.css')
 
+      // Downloaded regions are served from disk, see useOfflineRegions
+      const useOfflineTiles = isTauri() && offlineRegionsStore.regions.length > 0
+      if (useOfflineTiles) ml.addProtocol(OFFLINE_PROTOCOL, offlineResources.loadResource)
+
       map = new ml.Map({
         container,
-        style: STYLE_URL,
+        style: MAPLIBRE_STYLE_URL,
+        transformRequest: useOfflineTiles ? offlineResources.transformRequest : undefined,
         center: [center[1], center[0]], // MapLibre uses [lng, lat]
         zoom,
         pitch: viewMode.value === '3d' ? PITCH_3D : PITCH_2D
@@ -163,10 +405,15 @@ export function useMapLibreMapGateway(): IMapGateway {
         map!.on('error', (e) => reject(new Error(e.error?.message ?? 'MapLibre load error')))
       })
 
+      addHeatmapLayer()
+      addTerraceLayers()
+      await addVenueImages()
       addVenueLayers()
 
       // Restore venues if updateVenueMarkers was called before initialize completed
       if (storedVenues.length > 0) applyVenueData(storedVenues)
+      if (storedDraftTerrace) applyDraftTerrace(storedDraftTerrace)
+      if (storedHeatmap) applyHeatmap(storedHeatmap)
 
       map.on('moveend', scheduleBoundsEmit)
       flushBoundsNow()
@@ -177,6 +424,8 @@ export function useMapLibreMapGateway(): IMapGateway {
 
   function cleanup(): void {
     if (boundsTimer) clearTimeout(boundsTimer)
+    clusterMarkers.forEach((marker) => marker.remove())
+    clusterMarkers.clear()
     userMarker?.remove()
     userMarker = null
     map?.remove()
@@ -208,6 +457,26 @@ export function useMapLibreMapGateway(): IMapGateway {
     applyVenueData(venues)
   }
 
+  function setDraftTerrace(points: Coordinates[] | null): void {
+    storedDraftTerrace = points
+    applyDraftTerrace(points)
+  }
+
+  function setClustering(enabled: boolean): void {
+    isClusteringEnabled = enabled
+    const source = map?.getSource('venues') as GeoJSONSource | undefined
+    source?.setClusterOptions({
+      cluster: enabled,
+      clusterRadius: CLUSTER_RADIUS_PX,
+      clusterMaxZoom: CLUSTER_MAX_ZOOM
+    })
+  }
+
+  function setSunHeatmap(grid: SunHeatmapGrid | null): void {
+    storedHeatmap = grid
+    applyHeatmap(grid)
+  }
+
   function setUserLocation(latitude: number, longitude: number): void {
     if (!map || !ml) return
 
@@ -234,6 +503,10 @@ export function useMapLibreMapGateway(): IMapGateway {
     userMarker = null
   }
 
+  function setLightingDate(): void {
+    // MapLibre building extrusions use a fixed light, there is no simulated sun to move
+  }
+
   return {
     isLoading,
     initialize,
@@ -243,7 +516,11 @@ export function useMapLibreMapGateway(): IMapGateway {
     setZoom,
     closePopups,
     updateVenueMarkers,
+    setDraftTerrace,
+    setSunHeatmap,
+    setClustering,
     setUserLocation,
-    clearUserLocation
+    clearUserLocation,
+    setLightingDate
   }
 }
@@ -0,0 +1,40 @@
+import type { GetResourceResponse, RequestParameters } from 'maplibre-gl'
+import { useOfflineStorage } from '@/composables/offline/useOfflineStorage'
+
+export const OFFLINE_PROTOCOL = 'sunbar-offline'
+const OFFLINE_HOST_PREFIX = 'https://tiles.openfreemap.org/'
+
+// useOfflineResources
+// Serves OpenFreeMap styles, tiles, sprites and glyphs from the offline regions on
+// disk. transformRequest routes those URLs to a custom MapLibre protocol, whose loader
+// reads the stored copy and only falls back to the network when there is none.
+export function useOfflineResources() {
+  const { getResourceKey, read } = useOfflineStorage()
+
+  function transformRequest(url: string): RequestParameters {
+    if (!url.startsWith(OFFLINE_HOST_PREFIX)) return { url }
+    return { url: url.replace(/^https:/, `${OFFLINE_PROTOCOL}:`) }
+  }
+
+  async function loadResource(
+    params: RequestParameters,
+    abortController: AbortController
+  ): Promise<GetResourceResponse<unknown>> {
+    const url = params.url.replace(`${OFFLINE_PROTOCOL}:`, 'https:')
+    let buffer = await read(getResourceKey(url))
+
+    if (!buffer) {
+      const response = await fetch(url, { signal: abortController.signal })
+      if (!response.ok) throw new Error(`Failed to load ${url}: ${response.status}`)
+      buffer = await response.arrayBuffer()
+    }
+
+    if (params.type === 'json') return { data: JSON.parse(new TextDecoder().decode(buffer)) }
+    return { data: buffer }
+  }
+
+  return {
+    transformRequest,
+    loadResource
+  }
+}
@@ -0,0 +1,366 @@
+import { ref } from 'vue'
+import type { Coordinates, Venue } from '@/shared/types'
+import type { IMapGateway, MapCallbacks } from '../IMapGateway'
+import { useVenue } from '@/composables/useVenue'
+import { useVenueSymbology } from '../useVenueSymbology'
+import { useClusterBadge } from '../useClusterBadge'
+import { useVenueClustering, type VenueCluster } from '../useVenueClustering'
+import { useRasterViewport, type RasterViewport } from './useRasterViewport'
+
+// Standard OpenStreetMap raster tiles, already allowed by the app's CSP.
+// https://operations.osmfoundation.org/policies/tiles/
+const TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+const ATTRIBUTION = '© OpenStreetMap contributors'
+
+const BOUNDS_DEBOUNCE_MS = 500
+// Pointer travel below this is still a click rather than a drag
+const DRAG_THRESHOLD_PX = 4
+
+// IMapGateway implementation for devices without WebGL: OpenStreetMap raster
+// tiles and venue markers laid out as plain DOM elements. There is no 3D view,
+// so terraces, the sun heatmap and sun lighting are not drawn.
+export function useRasterMapGateway(): IMapGateway {
+  const { isSunny } = useVenue()
+  const { clusterVenues } = useVenueClustering(isSunny)
+  const symbology = useVenueSymbology()
+  const clusterBadge = useClusterBadge()
+  const viewport = useRasterViewport(TILE_URL)
+
+  let container: HTMLDivElement | null = null
+  let root: HTMLDivElement | null = null
+  let tileLayer: HTMLDivElement | null = null
+  let markerLayer: HTMLDivElement | null = null
+
+  let center: Coordinates = { latitude: 0, longitude: 0 }
+  let zoom = 12
+  let storedCallbacks: MapCallbacks | null = null
+  let storedVenues: Venue[] = []
+  let userLocation: Coordinates | null = null
+  let isClusteringEnabled = true
+  let boundsTimer: ReturnType<typeof setTimeout> | null = null
+
+  // Tiles are reused across renders so panning does not reload the images already on screen
+  let tileElements = new Map<string, HTMLImageElement>()
+  let drag: { x: number; y: number; center: Coordinates; moved: boolean } | null = null
+
+  const isLoading = ref(true)
+
+  function getViewport(): RasterViewport {
+    return {
+      center,
+      zoom,
+      width: container?.clientWidth ?? 0,
+      height: container?.clientHeight ?? 0
+    }
+  }
+
+  function scheduleBoundsEmit(): void {
+    if (boundsTimer) clearTimeout(boundsTimer)
+    boundsTimer = setTimeout(flushBoundsNow, BOUNDS_DEBOUNCE_MS)
+  }
+
+  function flushBoundsNow(): void {
+    if (!root || !storedCallbacks) return
+    storedCallbacks.onBoundsChanged(viewport.getBounds(getViewport()))
+  }
+
+  function createLayer(zIndex: number): HTMLDivElement {
+    const layer = document.createElement('div')
+    layer.style.cssText = `position:absolute;inset:0;z-index:${zIndex}`
+    return layer
+  }
+
+  function renderTiles(): void {
+    if (!tileLayer) return
+
+    const next = new Map<string, HTMLImageElement>()
+    for (const tile of viewport.getVisibleTiles(getViewport())) {
+      let img = tileElements.get(tile.key)
+      if (!img) {
+        img = document.createElement('img')
+        img.src = tile.url
+        img.alt = ''
+        img.draggable = false
+        img.style.cssText = 'position:absolute;width:256px;height:256px;user-select:none'
+        tileLayer.appendChild(img)
+      }
+      img.style.left = `${tile.left}px`
+      img.style.top = `${tile.top}px`
+      next.set(tile.key, img)
+    }
+
+    tileElements.forEach((img, key) => {
+      if (!next.has(key)) img.remove()
+    })
+    tileElements = next
+  }
+
+  // A DOM element centred on the given coordinate.
+  function createMarkerElement(coordinates: Coordinates, html: string, size: number): HTMLDivElement {
+    const { x, y } = viewport.toScreen(coordinates, getViewport())
+    const el = document.createElement('div')
+    el.innerHTML = html
+    el.style.cssText = [
+      'position:absolute', `left:${x - size / 2}px`, `top:${y - size / 2}px`,
+      `width:${size}px`, `height:${size}px`, 'line-height:0'
+    ].join(';')
+    return el
+  }
+
+  function createVenueElement(venue: Venue): HTMLDivElement {
+    const status = symbology.getStatus(venue)
+    const { size } = symbology.getStatusStyle(status)
+    const el = createMarkerElement(venue.coordinates, symbology.createMarkerSvg(venue.type, status), size)
+    el.dataset.venueId = venue.id
+    el.title = venue.name
+    el.style.cursor = 'pointer'
+    // Sunnier venues have larger markers and are stacked on top
+    el.style.zIndex = String(size)
+    el.addEventListener('click', () => {
+      if (!drag?.moved) storedCallbacks?.onVenueClick(venue.id)
+    })
+    return el
+  }
+
+  function createClusterElement(cluster: VenueCluster): HTMLDivElement {
+    const size = clusterBadge.getBadgeSize(cluster.venues.length)
+    const el = createMarkerElement(
+      cluster.coordinates,
+      clusterBadge.createBadgeSvg(cluster.sunnyCount, cluster.venues.length),
+      size
+    )
+    el.style.cursor = 'pointer'
+    el.style.zIndex = '100'
+    el.addEventListener('click', () => {
+      if (!drag?.moved) flyTo(cluster.coordinates.latitude, cluster.coordinates.longitude, cluster.expansionZoom)
+    })
+    return el
+  }
+
+  // Same pin as the other engines: a red dot with a white border
+  function createUserLocationElement(coordinates: Coordinates): HTMLDivElement {
+    const el = createMarkerElement(coordinates, '', 20)
+    el.style.cssText += [
+      '', 'border-radius:50%', 'background:#FF0000', 'border:3px solid #FFFFFF',
+      'box-shadow:0 2px 6px rgba(0,0,0,0.4)', 'box-sizing:border-box', 'z-index:200'
+    ].join(';')
+    el.dataset.userLocation = 'true'
+    return el
+  }
+
+  // Markers are few and cheap, so they are rebuilt on every render.
+  function renderMarkers(): void {
+    if (!markerLayer) return
+
+    const { clusters, singles } = isClusteringEnabled
+      ? clusterVenues(storedVenues, zoom)
+      : { clusters: [], singles: storedVenues }
+
+    markerLayer.replaceChildren(
+      ...singles.map(createVenueElement),
+      ...clusters.map(createClusterElement),
+      ...(userLocation ? [createUserLocationElement(userLocation)] : [])
+    )
+  }
+
+  function render(): void {
+    renderTiles()
+    renderMarkers()
+  }
+
+  function moveTo(nextCenter: Coordinates, nextZoom: number = zoom): void {
+    center = nextCenter
+    const clampedZoom = viewport.clampZoom(nextZoom)
+    if (clampedZoom !== zoom) {
+      // Tiles of another zoom level never line up with the new ones
+      tileElements.forEach((img) => img.remove())
+      tileElements.clear()
+      zoom = clampedZoom
+    }
+    render()
+  }
+
+  function handlePointerDown(event: PointerEvent): void {
+    drag = { x: event.clientX, y: event.clientY, center, moved: false }
+  }
+
+  function handlePointerMove(event: PointerEvent): void {
+    if (!drag || event.buttons === 0) return
+    const dx = event.clientX - drag.x
+    const dy = event.clientY - drag.y
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return
+
+    if (!drag.moved) root?.setPointerCapture(event.pointerId)
+    drag.moved = true
+    moveTo(viewport.pan({ ...getViewport(), center: drag.center }, dx, dy))
+  }
+
+  function handlePointerUp(): void {
+    if (drag?.moved) scheduleBoundsEmit()
+    // Keep the flag until the click that follows this pointerup has been handled
+    setTimeout(() => { drag = null })
+  }
+
+  function handleWheel(event: WheelEvent): void {
+    event.preventDefault()
+    setZoom(zoom + (event.deltaY < 0 ? 1 : -1))
+  }
+
+  function handleDoubleClick(event: MouseEvent): void {
+    if (!root) return
+    const rect = root.getBoundingClientRect()
+    const target = viewport.fromScreen({ x: event.clientX - rect.left, y: event.clientY - rect.top }, getViewport())
+    flyTo(target.latitude, target.longitude, zoom + 1)
+  }
+
+  function createZoomButton(label: string, delta: number): HTMLButtonElement {
+    const button = document.createElement('button')
+    button.type = 'button'
+    button.textContent = label
+    button.style.cssText = [
+      'width:32px', 'height:32px', 'background:#FFFFFF', 'border:none',
+      'font-size:18px', 'line-height:1', 'color:#334155', 'cursor:pointer'
+    ].join(';')
+    button.addEventListener('pointerdown', (event) => event.stopPropagation())
+    button.addEventListener('dblclick', (event) => event.stopPropagation())
+    button.addEventListener('click', () => setZoom(zoom + delta))
+    return button
+  }
+
+  // Raster tiles cannot be pinched smoothly, so the fallback shows its own zoom buttons
+  function createControls(): HTMLDivElement {
+    const controls = document.createElement('div')
+    controls.style.cssText = [
+      'position:absolute', 'right:12px', 'bottom:96px', 'z-index:2', 'display:flex',
+      'flex-direction:column', 'gap:1px', 'border-radius:8px', 'overflow:hidden',
+      'box-shadow:0 2px 6px rgba(0,0,0,0.3)'
+    ].join(';')
+    controls.append(createZoomButton('+', 1), createZoomButton('−', -1))
+    return controls
+  }
+
+  function createAttribution(): HTMLDivElement {
+    const attribution = document.createElement('div')
+    attribution.textContent = ATTRIBUTION
+    attribution.style.cssText = [
+      'position:absolute', 'right:0', 'bottom:0', 'z-index:2', 'padding:1px 6px',
+      'font-size:10px', 'color:#334155', 'background:rgba(255,255,255,0.8)'
+    ].join(';')
+    return attribution
+  }
+
+  async function initialize(
+    mapContainer: HTMLDivElement,
+    initialCenter: [number, number],
+    initialZoom: number,
+    callbacks: MapCallbacks
+  ): Promise<void> {
+    container = mapContainer
+    storedCallbacks = callbacks
+    center = { latitude: initialCenter[0], longitude: initialCenter[1] }
+    zoom = viewport.clampZoom(initialZoom)
+
+    root = document.createElement('div')
+    root.className = 'raster-map'
+    root.style.cssText = [
+      'position:relative', 'width:100%', 'height:100%', 'overflow:hidden', 'background:#F2EFE9',
+      'touch-action:none', 'cursor:grab'
+    ].join(';')
+    tileLayer = createLayer(0)
+    markerLayer = createLayer(1)
+    root.append(tileLayer, markerLayer, createControls(), createAttribution())
+
+    root.addEventListener('pointerdown', handlePointerDown)
+    root.addEventListener('pointermove', handlePointerMove)
+    root.addEventListener('pointerup', handlePointerUp)
+    root.addEventListener('pointercancel', handlePointerUp)
+    root.addEventListener('wheel', handleWheel, { passive: false })
+    root.addEventListener('dblclick', handleDoubleClick)
+    window.addEventListener('resize', render)
+
+    container.appendChild(root)
+    render()
+    flushBoundsNow()
+    isLoading.value = false
+  }
+
+  function cleanup(): void {
+    if (boundsTimer) clearTimeout(boundsTimer)
+    window.removeEventListener('resize', render)
+    root?.remove()
+    root = null
+    tileLayer = null
+    markerLayer = null
+    container = null
+    tileElements.clear()
+  }
+
+  // Raster tiles jump straight to the target, there is no smooth camera to animate
+  function flyTo(latitude: number, longitude: number, nextZoom?: number): void {
+    moveTo({ latitude, longitude }, nextZoom ?? zoom)
+    scheduleBoundsEmit()
+  }
+
+  function setCenter(nextCenter: [number, number]): void {
+    moveTo({ latitude: nextCenter[0], longitude: nextCenter[1] })
+    scheduleBoundsEmit()
+  }
+
+  function setZoom(nextZoom: number): void {
+    moveTo(center, nextZoom)
+    scheduleBoundsEmit()
+  }
+
+  function closePopups(): void {
+    // The raster map has no popups, venue clicks emit events directly
+  }
+
+  function updateVenueMarkers(venues: Venue[]): void {
+    storedVenues = venues
+    renderMarkers()
+  }
+
+  function setDraftTerrace(): void {
+    // Terraces are not drawn without WebGL
+  }
+
+  function setClustering(enabled: boolean): void {
+    isClusteringEnabled = enabled
+    renderMarkers()
+  }
+
+  function setSunHeatmap(): void {
+    // The sun heatmap is not drawn without WebGL
+  }
+
+  function setUserLocation(latitude: number, longitude: number): void {
+    userLocation = { latitude, longitude }
+    renderMarkers()
+  }
+
+  function clearUserLocation(): void {
+    userLocation = null
+    renderMarkers()
+  }
+
+  function setLightingDate(): void {
+    // No 3D view, so there is no simulated sun to move
+  }
+
+  return {
+    isLoading,
+    initialize,
+    cleanup,
+    flyTo,
+    setCenter,
+    setZoom,
+    closePopups,
+    updateVenueMarkers,
+    setDraftTerrace,
+    setSunHeatmap,
+    setClustering,
+    setUserLocation,
+    clearUserLocation,
+    setLightingDate
+  }
+}
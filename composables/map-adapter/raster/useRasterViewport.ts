@@ -0,0 +1,127 @@
+import type { Coordinates } from '@/shared/types'
+
+const TILE_SIZE = 256
+// Web Mercator stops short of the poles
+const MAX_LATITUDE = 85.0511
+
+export const RASTER_MIN_ZOOM = 2
+export const RASTER_MAX_ZOOM = 19
+
+export type RasterViewport = {
+  center: Coordinates
+  zoom: number // whole zoom levels only, tiles are never scaled
+  width: number
+  height: number
+}
+
+export type RasterTile = {
+  key: string
+  url: string
+  left: number
+  top: number
+}
+
+// useRasterViewport composable
+// Web Mercator maths for the raster fallback map: converting between coordinates
+// and screen pixels, and listing the slippy-map tiles that cover the viewport.
+export function useRasterViewport(tileUrlTemplate: string) {
+  function clampZoom(zoom: number): number {
+    return Math.min(Math.max(Math.round(zoom), RASTER_MIN_ZOOM), RASTER_MAX_ZOOM)
+  }
+
+  // Position of a coordinate in pixels on the whole world map at this zoom.
+  function project(coordinates: Coordinates, zoom: number): { x: number; y: number } {
+    const latitude = Math.min(Math.max(coordinates.latitude, -MAX_LATITUDE), MAX_LATITUDE)
+    const sinLat = Math.sin((latitude * Math.PI) / 180)
+    const worldSize = TILE_SIZE * 2 ** zoom
+    return {
+      x: (coordinates.longitude / 360 + 0.5) * worldSize,
+      y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * worldSize
+    }
+  }
+
+  function unproject(point: { x: number; y: number }, zoom: number): Coordinates {
+    const worldSize = TILE_SIZE * 2 ** zoom
+    const n = Math.PI - (2 * Math.PI * point.y) / worldSize
+    return {
+      latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+      longitude: (point.x / worldSize) * 360 - 180
+    }
+  }
+
+  // Screen position of a coordinate relative to the top-left corner of the viewport.
+  function toScreen(coordinates: Coordinates, viewport: RasterViewport): { x: number; y: number } {
+    const point = project(coordinates, viewport.zoom)
+    const center = project(viewport.center, viewport.zoom)
+    return {
+      x: point.x - center.x + viewport.width / 2,
+      y: point.y - center.y + viewport.height / 2
+    }
+  }
+
+  function fromScreen(point: { x: number; y: number }, viewport: RasterViewport): Coordinates {
+    const center = project(viewport.center, viewport.zoom)
+    return unproject({
+      x: center.x + point.x - viewport.width / 2,
+      y: center.y + point.y - viewport.height / 2
+    }, viewport.zoom)
+  }
+
+  // Move the center by a drag of dx/dy screen pixels.
+  function pan(viewport: RasterViewport, dx: number, dy: number): Coordinates {
+    return fromScreen({ x: viewport.width / 2 - dx, y: viewport.height / 2 - dy }, viewport)
+  }
+
+  function getBounds(viewport: RasterViewport): { south: number; west: number; north: number; east: number } {
+    const northWest = fromScreen({ x: 0, y: 0 }, viewport)
+    const southEast = fromScreen({ x: viewport.width, y: viewport.height }, viewport)
+    return {
+      south: southEast.latitude,
+      west: northWest.longitude,
+      north: northWest.latitude,
+      east: southEast.longitude
+    }
+  }
+
+  // Tiles covering the viewport, wrapping around the antimeridian horizontally.
+  function getVisibleTiles(viewport: RasterViewport): RasterTile[] {
+    const { zoom } = viewport
+    const tileCount = 2 ** zoom
+    const center = project(viewport.center, zoom)
+    const originX = center.x - viewport.width / 2
+    const originY = center.y - viewport.height / 2
+
+    const minX = Math.floor(originX / TILE_SIZE)
+    const maxX = Math.floor((originX + viewport.width) / TILE_SIZE)
+    const minY = Math.max(Math.floor(originY / TILE_SIZE), 0)
+    const maxY = Math.min(Math.floor((originY + viewport.height) / TILE_SIZE), tileCount - 1)
+
+    const tiles: RasterTile[] = []
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const wrappedX = ((x % tileCount) + tileCount) % tileCount
+        tiles.push({
+          key: `${zoom}/${x}/${y}`,
+          url: tileUrlTemplate
+            .replace('{z}', String(zoom))
+            .replace('{x}', String(wrappedX))
+            .replace('{y}', String(y)),
+          left: x * TILE_SIZE - originX,
+          top: y * TILE_SIZE - originY
+        })
+      }
+    }
+    return tiles
+  }
+
+  return {
+    clampZoom,
+    project,
+    unproject,
+    toScreen,
+    fromScreen,
+    pan,
+    getBounds,
+    getVisibleTiles
+  }
+}
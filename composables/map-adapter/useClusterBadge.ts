@@ -0,0 +1,44 @@
+// Badge colours match the sunny and shaded venue markers.
+const SUNNY_COLOR = '#FFC107'
+const SHADED_COLOR = '#6B7280'
+const MIN_SIZE_PX = 34
+const MAX_SIZE_PX = 56
+
+// useClusterBadge composable
+// Draws cluster badges as SVG: a ring split between sunny (amber) and shaded (grey)
+// venues around the total count. Every engine renders the same markup.
+export function useClusterBadge() {
+  // Badges grow with the number of venues, up to MAX_SIZE_PX.
+  function getBadgeSize(total: number): number {
+    return Math.min(MIN_SIZE_PX + Math.log10(total) * 12, MAX_SIZE_PX)
+  }
+
+  function createBadgeSvg(sunnyCount: number, total: number): string {
+    const size = getBadgeSize(total)
+    const radius = size / 2 - 4
+    const circumference = 2 * Math.PI * radius
+    const sunnyLength = total > 0 ? (sunnyCount / total) * circumference : 0
+    const center = size / 2
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`,
+      `<circle cx="${center}" cy="${center}" r="${size / 2 - 1}" fill="#FFFFFF"/>`,
+      `<circle cx="${center}" cy="${center}" r="${radius}" fill="none" stroke="${SHADED_COLOR}" stroke-width="6"/>`,
+      `<circle cx="${center}" cy="${center}" r="${radius}" fill="none" stroke="${SUNNY_COLOR}" stroke-width="6"`,
+      ` stroke-dasharray="${sunnyLength} ${circumference}" transform="rotate(-90 ${center} ${center})"/>`,
+      '<text x="50%" y="50%" dy="0.35em" text-anchor="middle" font-family="sans-serif" font-size="12"',
+      ` font-weight="700" fill="#1F2937">${total}</text>`,
+      '</svg>'
+    ].join('')
+  }
+
+  function createBadgeDataUrl(sunnyCount: number, total: number): string {
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(createBadgeSvg(sunnyCount, total))}`
+  }
+
+  return {
+    getBadgeSize,
+    createBadgeSvg,
+    createBadgeDataUrl
+  }
+}
@@ -0,0 +1,62 @@
+import type { SunHeatmapGrid } from '@/shared/types'
+
+type Rgba = [number, number, number, number]
+
+export type HeatmapCell = {
+  ring: [number, number][] // closed [longitude, latitude] ring
+  value: number
+  color: Rgba
+}
+
+// Colour stops for the sun exposure ramp, from no sun to sun for the whole period.
+const RAMP: { at: number; rgb: [number, number, number] }[] = [
+  { at: 0, rgb: [30, 64, 175] },
+  { at: 0.5, rgb: [253, 224, 71] },
+  { at: 1, rgb: [245, 158, 11] }
+]
+const CELL_OPACITY = 0.35
+
+// useHeatmapCells composable
+// Turns a sun exposure grid into coloured cell polygons, so every map engine draws
+// the heatmap the same way and the legend can show the same ramp.
+export function useHeatmapCells() {
+  function getCellColor(value: number): Rgba {
+    const clamped = Math.max(0, Math.min(1, value))
+    const upper = Math.max(RAMP.findIndex((stop) => stop.at >= clamped), 1)
+    const high = RAMP[upper]!
+    const low = RAMP[upper - 1]!
+    const t = (clamped - low.at) / (high.at - low.at)
+    const [r, g, b] = low.rgb.map((channel, i) => Math.round(channel + (high.rgb[i]! - channel) * t))
+    return [r!, g!, b!, CELL_OPACITY]
+  }
+
+  function getCells(grid: SunHeatmapGrid): HeatmapCell[] {
+    const { bounds, rows, columns } = grid
+    const cellHeight = (bounds.north - bounds.south) / rows
+    const cellWidth = (bounds.east - bounds.west) / columns
+
+    return grid.values.map((value, index) => {
+      const north = bounds.north - Math.floor(index / columns) * cellHeight
+      const west = bounds.west + (index % columns) * cellWidth
+      const south = north - cellHeight
+      const east = west + cellWidth
+      return {
+        ring: [[west, north], [east, north], [east, south], [west, south], [west, north]],
+        value,
+        color: getCellColor(value)
+      }
+    })
+  }
+
+  // CSS linear-gradient for legends, built from the same stops as the cells.
+  function getLegendGradient(): string {
+    const stops = RAMP.map(({ at, rgb }) => `rgb(${rgb.join(', ')}) ${at * 100}%`)
+    return `linear-gradient(to right, ${stops.join(', ')})`
+  }
+
+  return {
+    getCellColor,
+    getCells,
+    getLegendGradient
+  }
+}
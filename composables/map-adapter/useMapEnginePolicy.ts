@@ -0,0 +1,90 @@
+import type { MapEngine, MapEnginePreference } from '@/shared/types'
+
+export type MapEngineContext = {
+  isTauri: boolean;
+  // Tauri OS name ('android', 'ios', 'windows', ...), null in the browser
+  platform: string | null;
+  isWebGLSupported: boolean;
+  // WebGL2 with RGBA16F render targets, see checkWebGL2Support in stores/mapView
+  isWebGL2Supported: boolean;
+  preference: MapEnginePreference;
+  isOnline: boolean;
+  // Regions downloaded for offline use, only MapLibre can draw their tiles
+  hasOfflineRegions: boolean;
+  // Raw ?engine= query value, used to force an engine while debugging
+  queryOverride: unknown;
+};
+
+export type MapEngineSelectionReason = 'query' | 'offline' | 'platform' | 'preference' | 'default' | 'capability';
+
+export type MapEngineSelection = {
+  engine: MapEngine;
+  reason: MapEngineSelectionReason;
+};
+
+const MAP_ENGINES: MapEngine[] = ['maplibre', 'arcgis', 'raster']
+
+// The mobile apps keep to MapLibre: ArcGIS is heavy in a mobile WebView and needs
+// RGBA16F textures, which some Android GPUs and emulators reject despite the probe.
+const MAPLIBRE_ONLY_PLATFORMS = ['android', 'ios']
+
+// useMapEnginePolicy
+// Decides which IMapGateway implementation to use, in order of precedence:
+//   1. ?engine= query override
+//   2. MapLibre while offline with downloaded regions
+//   3. MapLibre in the Android and iOS apps, instead of a stored ArcGIS preference
+//   4. the user's stored preference
+//   5. MapLibre, or the raster fallback without WebGL
+// An engine the device cannot render is never chosen, whichever rule asked for it.
+export function useMapEnginePolicy() {
+  function parseEngine(value: unknown): MapEngine | null {
+    const raw = Array.isArray(value) ? value[0] : value
+    return MAP_ENGINES.find((engine) => engine === raw) ?? null
+  }
+
+  function isEngineSupported(engine: MapEngine, context: MapEngineContext): boolean {
+    if (engine === 'arcgis') return context.isWebGL2Supported
+    if (engine === 'maplibre') return context.isWebGLSupported
+    // Raster tiles and DOM markers draw everywhere
+    return true
+  }
+
+  // Whether the app runs on a platform that keeps to MapLibre.
+  function isMapLibreOnlyPlatform(context: Pick<MapEngineContext, 'isTauri' | 'platform'>): boolean {
+    return context.isTauri && context.platform !== null && MAPLIBRE_ONLY_PLATFORMS.includes(context.platform)
+  }
+
+  function selectEngine(context: MapEngineContext): MapEngineSelection {
+    const queryEngine = parseEngine(context.queryOverride)
+    if (queryEngine && isEngineSupported(queryEngine, context)) {
+      return { engine: queryEngine, reason: 'query' }
+    }
+
+    if (!context.isOnline && context.hasOfflineRegions && isEngineSupported('maplibre', context)) {
+      return { engine: 'maplibre', reason: 'offline' }
+    }
+
+    const preferredEngine = parseEngine(context.preference)
+    if (preferredEngine === 'arcgis' && isMapLibreOnlyPlatform(context) && isEngineSupported('maplibre', context)) {
+      return { engine: 'maplibre', reason: 'platform' }
+    }
+
+    if (preferredEngine && isEngineSupported(preferredEngine, context)) {
+      return { engine: preferredEngine, reason: 'preference' }
+    }
+
+    // Without WebGL the map would stay blank, only the raster fallback can draw it
+    if (!context.isWebGLSupported) return { engine: 'raster', reason: 'capability' }
+
+    // MapLibre is lighter, runs on WebGL1 and draws downloaded regions, so it is the
+    // default everywhere. ArcGIS, with its 3D view and sun lighting, is opt-in.
+    return { engine: 'maplibre', reason: 'default' }
+  }
+
+  return {
+    parseEngine,
+    isEngineSupported,
+    isMapLibreOnlyPlatform,
+    selectEngine
+  }
+}
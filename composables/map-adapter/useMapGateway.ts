@@ -1,18 +1,51 @@
+import { storeToRefs } from 'pinia'
+import { isTauri } from '@tauri-apps/api/core'
+import { platform } from '@tauri-apps/plugin-os'
+import type { MapEngine } from '@/shared/types'
 import type { IMapGateway } from './IMapGateway'
 import { useArcGISMapGateway } from './arcgis/useArcGISMapGateway'
 import { useMapLibreMapGateway } from './maplibre/useMapLibreMapGateway'
-import { isTauri } from '@tauri-apps/api/core'
-import { platform } from '@tauri-apps/plugin-os'
+import { useRasterMapGateway } from './raster/useRasterMapGateway'
+import { useMapEnginePolicy } from './useMapEnginePolicy'
+import { useMapViewStore } from '@/stores/mapView'
+import { useMapEngineStore } from '@/stores/mapEngine'
+import { useOfflineRegionsStore } from '@/stores/offlineRegions'
+
+const GATEWAY_FACTORIES: Record<MapEngine, () => IMapGateway> = {
+  maplibre: useMapLibreMapGateway,
+  arcgis: useArcGISMapGateway,
+  raster: useRasterMapGateway
+}
 
 // useMapGateway — factory composable
-// Selects the appropriate IMapGateway implementation based on the runtime environment:
-//   - Tauri on Android: MapLibre GL JS (WebGL1, no RGBA16F requirement)
-//   - Everything else:  ArcGIS Maps SDK (full 2D + 3D support)
-// Must be called inside onMounted (client-only) because isTauri() requires window.
+// Picks the IMapGateway implementation through useMapEnginePolicy from the
+// platform, the WebGL probes in the mapView store, the user's engine preference
+// and an optional ?engine=maplibre|arcgis|raster query override. Devices whose
+// WebGL probe fails get the raster fallback, and the app switches to MapLibre
+// when it starts offline with downloaded regions.
+// On the server the WebGL probes are false, the client makes its own choice on hydration.
 export function useMapGateway(): IMapGateway {
-  // TODO: Decide best smap rendering strategy
-  return useMapLibreMapGateway()
-  // if (isTauri() && platform() === 'android') {
-  // }
-  // return useArcGISMapGateway()
+  const route = useRoute()
+  const { selectEngine } = useMapEnginePolicy()
+  const { isWebGLSupported, is3dSupported } = storeToRefs(useMapViewStore())
+  const mapEngineStore = useMapEngineStore()
+  const { preference } = storeToRefs(mapEngineStore)
+  const { regions: offlineRegions } = storeToRefs(useOfflineRegionsStore())
+
+  // platform() reads Tauri internals that only exist inside the app window
+  const inTauri = isTauri()
+
+  const { engine } = selectEngine({
+    isTauri: inTauri,
+    platform: inTauri ? platform() : null,
+    isWebGLSupported: isWebGLSupported.value,
+    isWebGL2Supported: is3dSupported.value,
+    preference: preference.value,
+    isOnline: import.meta.server || navigator.onLine,
+    hasOfflineRegions: offlineRegions.value.length > 0,
+    queryOverride: route.query.engine
+  })
+
+  mapEngineStore.setActiveEngine(engine)
+  return GATEWAY_FACTORIES[engine]()
 }
@@ -0,0 +1,52 @@
+import type { Venue } from '@/shared/types'
+import { SunlightStatus } from '@/shared/enums'
+
+type Rgba = [number, number, number, number]
+
+// End points of the terrace fill ramp, matching the sunny and shaded venue markers.
+const SUNNY_RGB = [255, 193, 7] as const
+const SHADED_RGB = [107, 114, 128] as const
+const FILL_OPACITY = 0.45
+const DRAFT_RGBA: Rgba = [239, 68, 68, 0.25]
+
+// useTerraceStyle composable
+// Shared terrace polygon colours, so every map engine shades a terrace the same way:
+// the fill blends from grey to amber as more of the terrace is in direct sunlight.
+export function useTerraceStyle() {
+  // Share (0–1) of the terrace in direct sunlight, read back from the venue's status.
+  function getSunlitShare(venue: Venue): number {
+    const info = venue.sunlightStatus
+    if (!info) return 0
+    switch (info.status) {
+      case SunlightStatus.SUNNY:
+      case SunlightStatus.PARTIALLY_SUNNY:
+        return info.confidence
+      case SunlightStatus.SHADED:
+        return 1 - info.confidence
+      default:
+        return 0
+    }
+  }
+
+  function getFillColor(venue: Venue): Rgba {
+    const share = getSunlitShare(venue)
+    const [r, g, b] = SHADED_RGB.map((shaded, i) => Math.round(shaded + (SUNNY_RGB[i]! - shaded) * share))
+    return [r!, g!, b!, FILL_OPACITY]
+  }
+
+  function getDraftFillColor(): Rgba {
+    return [...DRAFT_RGBA]
+  }
+
+  // Format an RGBA tuple as a CSS colour string for engines that expect one.
+  function toCssColor([r, g, b, a]: Rgba): string {
+    return `rgba(${r}, ${g}, ${b}, ${a})`
+  }
+
+  return {
+    getSunlitShare,
+    getFillColor,
+    getDraftFillColor,
+    toCssColor
+  }
+}
@@ -0,0 +1,87 @@
+import type { Coordinates, Venue } from '@/shared/types'
+
+const TILE_SIZE = 256
+
+// Defaults shared by every engine, so clusters break apart at the same zoom everywhere.
+export const CLUSTER_RADIUS_PX = 50
+export const CLUSTER_MAX_ZOOM = 16
+
+export type VenueCluster = {
+  id: string
+  coordinates: Coordinates
+  venues: Venue[]
+  sunnyCount: number
+  expansionZoom: number // zoom at which the cluster splits up
+}
+
+// Web Mercator position of a coordinate in world units (0–1 on both axes).
+function toWorld(coordinates: Coordinates): { x: number; y: number } {
+  const sinLat = Math.sin((coordinates.latitude * Math.PI) / 180)
+  return {
+    x: coordinates.longitude / 360 + 0.5,
+    y: 0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)
+  }
+}
+
+// useVenueClustering composable
+// Groups venues that would overlap on screen into clusters, bucketing them on a pixel
+// grid at the current zoom. Engines without native clustering of graphics use it, and it
+// follows the same radius and maximum zoom as the engines that cluster natively.
+export function useVenueClustering(
+  isSunny: (venue: Venue) => boolean,
+  radiusPx: number = CLUSTER_RADIUS_PX,
+  maxZoom: number = CLUSTER_MAX_ZOOM
+) {
+  // Zoom at which the cluster's venues spread over more than one grid cell.
+  function getExpansionZoom(venues: Venue[], zoom: number): number {
+    const points = venues.map((venue) => toWorld(venue.coordinates))
+    const xs = points.map((p) => p.x)
+    const ys = points.map((p) => p.y)
+    const span = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys))
+    if (span === 0) return maxZoom + 1
+
+    const splitZoom = Math.ceil(Math.log2(radiusPx / (span * TILE_SIZE)))
+    return Math.min(Math.max(splitZoom, Math.floor(zoom) + 1), maxZoom + 1)
+  }
+
+  // Split venues into clusters and the venues that stand on their own at this zoom.
+  // Beyond the maximum zoom nothing is clustered.
+  function clusterVenues(venues: Venue[], zoom: number): { clusters: VenueCluster[]; singles: Venue[] } {
+    if (zoom > maxZoom) return { clusters: [], singles: venues }
+
+    const scale = TILE_SIZE * 2 ** Math.floor(zoom)
+    const cells = new Map<string, Venue[]>()
+    for (const venue of venues) {
+      const { x, y } = toWorld(venue.coordinates)
+      const key = `${Math.floor((x * scale) / radiusPx)}:${Math.floor((y * scale) / radiusPx)}`
+      const cell = cells.get(key)
+      if (cell) cell.push(venue)
+      else cells.set(key, [venue])
+    }
+
+    const clusters: VenueCluster[] = []
+    const singles: Venue[] = []
+    cells.forEach((members, key) => {
+      if (members.length === 1) {
+        singles.push(members[0]!)
+        return
+      }
+      clusters.push({
+        id: `${Math.floor(zoom)}:${key}`,
+        coordinates: {
+          latitude: members.reduce((sum, v) => sum + v.coordinates.latitude, 0) / members.length,
+          longitude: members.reduce((sum, v) => sum + v.coordinates.longitude, 0) / members.length
+        },
+        venues: members,
+        sunnyCount: members.filter(isSunny).length,
+        expansionZoom: getExpansionZoom(members, zoom)
+      })
+    })
+
+    return { clusters, singles }
+  }
+
+  return {
+    clusterVenues
+  }
+}
@@ -0,0 +1,117 @@
+import { SunlightStatus } from '@/shared/enums'
+import type { Venue, VenueType } from '@/shared/types'
+
+type Rgba = [number, number, number, number]
+
+type StatusStyle = {
+  color: Rgba
+  size: number // marker size in pixels
+  outlineWidth: number
+  labelKey: string
+}
+
+// Marker shapes per venue type, as SVG paths in a 24×24 box. Every engine draws
+// these same paths, and the legend renders them too.
+const TYPE_PATHS: Record<VenueType, string> = {
+  bar: 'M2 12a10 10 0 1 0 20 0a10 10 0 1 0 -20 0Z',
+  cafe: 'M5 3h14a2 2 0 0 1 2 2v14a2 2 0 0 1 -2 2H5a2 2 0 0 1 -2 -2V5a2 2 0 0 1 2 -2Z',
+  restaurant: 'M12 1L23 12L12 23L1 12Z',
+  pub: 'M12 2L23 21H1Z',
+  biergarten: 'M12 1L21.5 6.5V17.5L12 23L2.5 17.5V6.5Z'
+}
+
+// Fill, size and outline per sunlight status. Sunny markers are the largest so they
+// stand out; unknown ones the smallest.
+const STATUS_STYLES: Record<SunlightStatus, StatusStyle> = {
+  [SunlightStatus.SUNNY]: { color: [255, 193, 7, 1], size: 16, outlineWidth: 2.5, labelKey: 'map.label.sunny' },
+  [SunlightStatus.PARTIALLY_SUNNY]: {
+    color: [252, 211, 77, 1],
+    size: 14,
+    outlineWidth: 2,
+    labelKey: 'map.label.partiallySunny'
+  },
+  [SunlightStatus.SHADED]: { color: [107, 114, 128, 0.85], size: 12, outlineWidth: 2, labelKey: 'map.label.shaded' },
+  [SunlightStatus.OVERCAST]: { color: [148, 163, 184, 1], size: 12, outlineWidth: 2, labelKey: 'map.label.overcast' },
+  [SunlightStatus.NIGHT]: { color: [30, 41, 59, 0.9], size: 12, outlineWidth: 2, labelKey: 'map.label.night' },
+  [SunlightStatus.UNKNOWN]: { color: [209, 213, 219, 1], size: 10, outlineWidth: 1.5, labelKey: 'map.label.unknown' }
+}
+
+const OUTLINE_COLOR: Rgba = [255, 255, 255, 1]
+const LEGEND_TYPE_STATUS = SunlightStatus.SHADED
+const LEGEND_STATUS_TYPE: VenueType = 'bar'
+
+// useVenueSymbology composable
+// Single source of truth for venue marker symbology: the shape shows the venue type and
+// the colour and size show the sunlight status. Map engines and the legend both read it.
+export function useVenueSymbology() {
+  function getStatus(venue: Venue): SunlightStatus {
+    return venue.sunlightStatus?.status ?? SunlightStatus.UNKNOWN
+  }
+
+  // Venues with a type outside the supported set fall back to the bar shape.
+  function getTypePath(type: VenueType): string {
+    return TYPE_PATHS[type] ?? TYPE_PATHS.bar
+  }
+
+  function getStatusStyle(status: SunlightStatus): StatusStyle {
+    return STATUS_STYLES[status]
+  }
+
+  function getOutlineColor(): Rgba {
+    return [...OUTLINE_COLOR]
+  }
+
+  // Identifies a symbol, so markers are only redrawn when the one they need changes.
+  function getSymbolKeyFor(type: VenueType, status: SunlightStatus): string {
+    return `venue-${TYPE_PATHS[type] ? type : 'bar'}-${status}`
+  }
+
+  function getSymbolKey(venue: Venue): string {
+    return getSymbolKeyFor(venue.type, getStatus(venue))
+  }
+
+  // SVG markup for a marker. `scale` renders it larger for high-density displays.
+  function createMarkerSvg(type: VenueType, status: SunlightStatus, scale: number = 1): string {
+    const { color, size, outlineWidth } = getStatusStyle(status)
+    const [r, g, b, a] = color
+    const pixels = size * scale
+    const strokeWidth = (outlineWidth * 24) / size
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${pixels}" height="${pixels}" viewBox="-2 -2 28 28">`,
+      `<path d="${getTypePath(type)}" fill="rgba(${r}, ${g}, ${b}, ${a})" stroke="#FFFFFF"`,
+      ` stroke-width="${strokeWidth}" stroke-linejoin="round"/>`,
+      '</svg>'
+    ].join('')
+  }
+
+  // Legend rows: one per status drawn with the bar shape, and one per venue type in the
+  // shaded colour, so each row isolates a single visual variable.
+  function getLegendEntries(): {
+    statuses: { key: SunlightStatus; labelKey: string; svg: string }[]
+    types: { key: VenueType; labelKey: string; svg: string }[]
+  } {
+    return {
+      statuses: (Object.keys(STATUS_STYLES) as SunlightStatus[]).map((status) => ({
+        key: status,
+        labelKey: STATUS_STYLES[status].labelKey,
+        svg: createMarkerSvg(LEGEND_STATUS_TYPE, status)
+      })),
+      types: (Object.keys(TYPE_PATHS) as VenueType[]).map((type) => ({
+        key: type,
+        labelKey: `venueType.label.${type}`,
+        svg: createMarkerSvg(type, LEGEND_TYPE_STATUS)
+      }))
+    }
+  }
+
+  return {
+    getStatus,
+    getTypePath,
+    getStatusStyle,
+    getOutlineColor,
+    getSymbolKeyFor,
+    getSymbolKey,
+    createMarkerSvg,
+    getLegendEntries
+  }
+}
@@ -0,0 +1,345 @@
+import { storeToRefs } from 'pinia'
+import type {
+  ApiResponse,
+  BoundingBox,
+  BuildingFootprint,
+  Coordinates,
+  MapTile,
+  OfflineDownloadPhase,
+  OfflineRegion,
+  OfflineRegionData,
+  VenueResponse
+} from '@/shared/types'
+import { MAPLIBRE_STYLE_URL } from '@/composables/map-adapter/maplibre/useMapLibreMapGateway'
+import { useMapTiles } from '@/composables/useMapTiles'
+import { useOverpassBuildings } from '@/composables/useOverpassBuildings'
+import { offlineBuildingsSchema, offlineVenuesSchema } from '@/shared/schemas/offline-region.schema'
+import { useOfflineRegionsStore } from '@/stores/offlineRegions'
+import { MANIFEST_KEY, useOfflineStorage } from './useOfflineStorage'
+
+const METERS_PER_DEGREE = 111320
+// The venues API rejects bounding boxes larger than this, so regions are fetched in cells
+const VENUE_CELL_DEGREES = 0.05
+const BUILDING_CELL_DEGREES = 0.05
+// Buildings this far outside the requested box can still cast a shadow into it
+const BUILDING_MARGIN_DEGREES = 0.003
+const MIN_ZOOM = 10
+const DEFAULT_MAX_ZOOM = 14
+export const MAX_REGION_TILES = 5000
+const DOWNLOAD_CONCURRENCY = 4
+const VENUES_FILE = 'venues.json'
+const BUILDINGS_FILE = 'buildings.json'
+// Latin-1 covers the place names of the supported locales
+const GLYPH_RANGES = ['0-255']
+
+type StyleJson = {
+  sources?: Record<string, { type?: string; url?: string; tiles?: string[]; maxzoom?: number }>
+  sprite?: string | { id: string; url: string }[]
+  glyphs?: string
+  layers?: { layout?: Record<string, unknown> }[]
+}
+
+function isInside(point: Coordinates, bounds: BoundingBox): boolean {
+  return (
+    point.latitude >= bounds.south && point.latitude <= bounds.north &&
+    point.longitude >= bounds.west && point.longitude <= bounds.east
+  )
+}
+
+// The bounds with the buildings around them that can shade into them.
+function withShadowMargin(bounds: BoundingBox): BoundingBox {
+  return {
+    south: bounds.south - BUILDING_MARGIN_DEGREES,
+    west: bounds.west - BUILDING_MARGIN_DEGREES,
+    north: bounds.north + BUILDING_MARGIN_DEGREES,
+    east: bounds.east + BUILDING_MARGIN_DEGREES
+  }
+}
+
+// Run fn over the items with at most `limit` calls in flight.
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) await fn(items[next++]!)
+  })
+  await Promise.all(workers)
+}
+
+// useOfflineRegions composable
+// Downloads areas for offline use in the Tauri app: the MapLibre style and vector
+// tiles, the venues and the building footprints, all written to disk through
+// useOfflineStorage. While offline, venues are served from these regions and their
+// sunlight is computed on the device from the stored buildings.
+export function useOfflineRegions() {
+  const store = useOfflineRegionsStore()
+  const { regions, progress, error } = storeToRefs(store)
+  const storage = useOfflineStorage()
+  const { fetchBuildings } = useOverpassBuildings()
+  const { getTilesInBounds } = useMapTiles()
+
+  const { public: { apiBaseUrl } } = useRuntimeConfig()
+
+  // Square area of the given radius around a point.
+  function getAreaAround(center: Coordinates, radiusMeters: number): BoundingBox {
+    const latitudeDelta = radiusMeters / METERS_PER_DEGREE
+    const longitudeDelta = radiusMeters / (METERS_PER_DEGREE * Math.cos((center.latitude * Math.PI) / 180))
+    return {
+      south: center.latitude - latitudeDelta,
+      west: center.longitude - longitudeDelta,
+      north: center.latitude + latitudeDelta,
+      east: center.longitude + longitudeDelta
+    }
+  }
+
+  // Split a bounding box into a grid of cells no larger than `size` degrees per side.
+  function splitIntoCells(bounds: BoundingBox, size: number): BoundingBox[] {
+    const rows = Math.max(1, Math.ceil((bounds.north - bounds.south) / size))
+    const columns = Math.max(1, Math.ceil((bounds.east - bounds.west) / size))
+    const cellHeight = (bounds.north - bounds.south) / rows
+    const cellWidth = (bounds.east - bounds.west) / columns
+
+    return Array.from({ length: rows * columns }, (_, index) => {
+      const row = Math.floor(index / columns)
+      const column = index % columns
+      return {
+        south: bounds.south + row * cellHeight,
+        west: bounds.west + column * cellWidth,
+        north: bounds.south + (row + 1) * cellHeight,
+        east: bounds.west + (column + 1) * cellWidth
+      }
+    })
+  }
+
+  // Slippy-map tiles covering the bounds at every zoom level of the range.
+  function getTiles(bounds: BoundingBox, minZoom: number, maxZoom: number): MapTile[] {
+    return Array.from({ length: maxZoom - minZoom + 1 }, (_, i) => getTilesInBounds(bounds, minZoom + i)).flat()
+  }
+
+  function estimateTileCount(bounds: BoundingBox): number {
+    return getTiles(bounds, MIN_ZOOM, DEFAULT_MAX_ZOOM).length
+  }
+
+  function setProgress(phase: OfflineDownloadPhase, done: number, total: number): void {
+    progress.value = { phase, done, total }
+  }
+
+  async function fetchBytes(url: string, signal: AbortSignal): Promise<Uint8Array> {
+    return new Uint8Array(await $fetch<ArrayBuffer>(url, { responseType: 'arrayBuffer', signal }))
+  }
+
+  // Store a resource under its URL so the MapLibre offline protocol can find it again.
+  async function saveResource(regionId: string, url: string, signal: AbortSignal): Promise<{ bytes: number; data: Uint8Array }> {
+    const data = await fetchBytes(url, signal)
+    const bytes = await storage.write(regionId, storage.getResourceKey(url), data)
+    return { bytes, data }
+  }
+
+  function parseJson<T>(data: Uint8Array): T {
+    return JSON.parse(new TextDecoder().decode(data)) as T
+  }
+
+  // The style with its tile source, sprites and glyphs. Returns the vector tile URL template.
+  async function downloadStyle(
+    regionId: string,
+    signal: AbortSignal
+  ): Promise<{ tileTemplate: string; maxZoom: number; bytes: number }> {
+    const styleResource = await saveResource(regionId, MAPLIBRE_STYLE_URL, signal)
+    const style = parseJson<StyleJson>(styleResource.data)
+    let bytes = styleResource.bytes
+
+    const vectorSource = Object.values(style.sources ?? {}).find((source) => source.type === 'vector')
+    let tileSource = vectorSource
+    if (vectorSource?.url) {
+      const tileJson = await saveResource(regionId, vectorSource.url, signal)
+      bytes += tileJson.bytes
+      tileSource = parseJson<NonNullable<typeof vectorSource>>(tileJson.data)
+    }
+    const tileTemplate = tileSource?.tiles?.[0]
+    if (!tileTemplate) throw new Error('The map style has no vector tile source')
+
+    const spriteUrls = typeof style.sprite === 'string'
+      ? [style.sprite]
+      : (style.sprite ?? []).map((sprite) => sprite.url)
+    const fontStacks = new Set(
+      (style.layers ?? [])
+        .map((layer) => layer.layout?.['text-font'])
+        .filter((fonts): fonts is string[] => Array.isArray(fonts) && fonts.every((font) => typeof font === 'string'))
+        .map((fonts) => fonts.join(','))
+    )
+    const resourceUrls = [
+      ...spriteUrls.flatMap((url) => ['', '@2x'].flatMap((ratio) => [`${url}${ratio}.json`, `${url}${ratio}.png`])),
+      ...(style.glyphs
+        ? [...fontStacks].flatMap((fontStack) =>
+            GLYPH_RANGES.map((range) => style.glyphs!.replace('{fontstack}', fontStack).replace('{range}', range)))
+        : [])
+    ]
+
+    let done = 0
+    setProgress('style', done, resourceUrls.length)
+    await runWithConcurrency(resourceUrls, DOWNLOAD_CONCURRENCY, async (url) => {
+      bytes += (await saveResource(regionId, url, signal)).bytes
+      setProgress('style', ++done, resourceUrls.length)
+    })
+
+    return { tileTemplate, maxZoom: Math.min(tileSource?.maxzoom ?? DEFAULT_MAX_ZOOM, DEFAULT_MAX_ZOOM), bytes }
+  }
+
+  async function downloadTiles(regionId: string, tiles: MapTile[], tileTemplate: string, signal: AbortSignal): Promise<number> {
+    let bytes = 0
+    let done = 0
+    setProgress('tiles', done, tiles.length)
+    await runWithConcurrency(tiles, DOWNLOAD_CONCURRENCY, async ({ z, x, y }) => {
+      const url = tileTemplate.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y))
+      bytes += (await saveResource(regionId, url, signal)).bytes
+      setProgress('tiles', ++done, tiles.length)
+    })
+    return bytes
+  }
+
+  // Venues of every cell, without a datetime: their sunlight is computed on the device.
+  async function downloadVenues(bounds: BoundingBox, signal: AbortSignal): Promise<VenueResponse[]> {
+    const cells = splitIntoCells(bounds, VENUE_CELL_DEGREES)
+    const venuesById = new Map<string, VenueResponse>()
+    setProgress('venues', 0, cells.length)
+
+    for (const [index, cell] of cells.entries()) {
+      const params = new URLSearchParams({
+        south: cell.south.toString(),
+        west: cell.west.toString(),
+        north: cell.north.toString(),
+        east: cell.east.toString()
+      })
+      const response = await $fetch<ApiResponse>(`${apiBaseUrl}/api/venues?${params}`, { signal })
+      response.venues.forEach((venue) => venuesById.set(venue.id, { ...venue, sunlightStatus: undefined }))
+      setProgress('venues', index + 1, cells.length)
+    }
+
+    return [...venuesById.values()]
+  }
+
+  async function downloadBuildings(bounds: BoundingBox, signal: AbortSignal): Promise<BuildingFootprint[]> {
+    const cells = splitIntoCells(bounds, BUILDING_CELL_DEGREES)
+    const buildingsById = new Map<string, BuildingFootprint>()
+    setProgress('buildings', 0, cells.length)
+
+    for (const [index, cell] of cells.entries()) {
+      const buildings = await fetchBuildings(cell, signal)
+      buildings.forEach((building) => buildingsById.set(building.id, building))
+      setProgress('buildings', index + 1, cells.length)
+    }
+
+    return [...buildingsById.values()]
+  }
+
+  // Reload the list of downloaded regions from disk.
+  async function refreshRegions(): Promise<void> {
+    regions.value = await storage.listRegions()
+  }
+
+  // Download everything needed to use the area offline. The manifest is written last,
+  // so an aborted or failed download never shows up as a region.
+  async function downloadRegion(name: string, bounds: BoundingBox, signal: AbortSignal): Promise<OfflineRegion | null> {
+    const regionId = `region-${Date.now()}`
+    error.value = null
+
+    try {
+      const style = await downloadStyle(regionId, signal)
+      const tiles = getTiles(bounds, MIN_ZOOM, style.maxZoom)
+      if (tiles.length > MAX_REGION_TILES) throw new Error('offline.error.tooLarge')
+
+      const tileBytes = await downloadTiles(regionId, tiles, style.tileTemplate, signal)
+      const venues = await downloadVenues(bounds, signal)
+      // Buildings just outside the region still shade the venues at its edge
+      const buildings = await downloadBuildings(withShadowMargin(bounds), signal)
+      const venueBytes = await storage.write(regionId, VENUES_FILE, JSON.stringify(venues))
+      const buildingBytes = await storage.write(regionId, BUILDINGS_FILE, JSON.stringify(buildings))
+
+      const region: OfflineRegion = {
+        id: regionId,
+        name,
+        bounds,
+        minZoom: MIN_ZOOM,
+        maxZoom: style.maxZoom,
+        tileCount: tiles.length,
+        venueCount: venues.length,
+        buildingCount: buildings.length,
+        sizeBytes: style.bytes + tileBytes + venueBytes + buildingBytes,
+        downloadedAt: new Date().toISOString()
+      }
+      await storage.write(regionId, MANIFEST_KEY, JSON.stringify(region))
+      await refreshRegions()
+      return region
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e)
+      if (!signal.aborted) {
+        console.error('[useOfflineRegions] Download failed', e)
+        error.value = message.startsWith('offline.error.') ? message : 'offline.error.downloadFailed'
+      }
+      // Drop the partial files of the interrupted download
+      await storage.deleteRegion(regionId).catch(() => {})
+      return null
+    } finally {
+      progress.value = null
+    }
+  }
+
+  async function deleteRegion(regionId: string): Promise<void> {
+    await storage.deleteRegion(regionId)
+    store.loadedData.delete(regionId)
+    await refreshRegions()
+  }
+
+  // The downloaded region covering the middle of the bounding box, if any.
+  function findRegion(bbox: BoundingBox): OfflineRegion | null {
+    const center = { latitude: (bbox.north + bbox.south) / 2, longitude: (bbox.east + bbox.west) / 2 }
+    return regions.value.find((region) => isInside(center, region.bounds)) ?? null
+  }
+
+  async function loadRegionData(region: OfflineRegion): Promise<OfflineRegionData | null> {
+    const cached = store.loadedData.get(region.id)
+    if (cached) return cached
+
+    const [venues, buildings] = await Promise.all([
+      storage.readJson(VENUES_FILE, region.id, offlineVenuesSchema),
+      storage.readJson(BUILDINGS_FILE, region.id, offlineBuildingsSchema)
+    ])
+    if (!venues || !buildings) return null
+
+    const data = { venues, buildings }
+    store.loadedData.set(region.id, data)
+    return data
+  }
+
+  // Offline venues inside the bounding box, with the buildings that can shade them.
+  // Null when no downloaded region covers it.
+  async function getOfflineData(bbox: BoundingBox): Promise<OfflineRegionData | null> {
+    const region = findRegion(bbox)
+    const data = region ? await loadRegionData(region) : null
+    if (!data) return null
+
+    const shadowBounds = withShadowMargin(bbox)
+    return {
+      venues: data.venues.filter((venue) => isInside(venue, bbox)),
+      buildings: data.buildings.filter((building) => building.footprint.some((point) => isInside(point, shadowBounds)))
+    }
+  }
+
+  return {
+    regions,
+    progress,
+    error,
+    getAreaAround,
+    splitIntoCells,
+    getTiles,
+    estimateTileCount,
+    refreshRegions,
+    downloadRegion,
+    deleteRegion,
+    findRegion,
+    getOfflineData
+  }
+}
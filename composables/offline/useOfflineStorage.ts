@@ -0,0 +1,84 @@
+import { invoke } from '@tauri-apps/api/core'
+import type { z } from 'zod'
+import { offlineRegionSchema } from '@/shared/schemas/offline-region.schema'
+import type { OfflineRegion } from '@/shared/types'
+import { attempt } from '@/utils/attempt'
+
+export const MANIFEST_KEY = 'manifest.json'
+
+function decodeUrl(url: string): string {
+  try {
+    return decodeURI(url)
+  } catch {
+    return url
+  }
+}
+
+// useOfflineStorage composable
+// Reads and writes offline region files through the Tauri offline_* commands.
+// Only available inside the Tauri app.
+export function useOfflineStorage() {
+  // Resources are stored under their URL without the scheme, flattened into a file name.
+  // Decoded first, so glyph URLs match whether or not their font names were escaped.
+  function getResourceKey(url: string): string {
+    return decodeUrl(url).replace(/^[a-z]+:\/\//i, '').replace(/[^A-Za-z0-9._-]/g, '_')
+  }
+
+  async function write(regionId: string, key: string, data: Uint8Array | string): Promise<number> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+    await invoke('offline_write', bytes, { headers: { 'x-region': regionId, 'x-key': key } })
+    return bytes.byteLength
+  }
+
+  // Read a stored file, from one region or whichever region has it. Null when missing.
+  async function read(key: string, regionId?: string): Promise<ArrayBuffer | null> {
+    const { data } = await attempt(() => invoke<ArrayBuffer>('offline_read', { key, region: regionId ?? null }))
+    return data
+  }
+
+  // Read a stored JSON file and validate it against the schema. Null when missing or invalid.
+  async function readJson<T extends z.ZodType>(key: string, regionId: string, schema: T): Promise<z.infer<T> | null> {
+    const buffer = await read(key, regionId)
+    if (!buffer) return null
+
+    let json: unknown
+    try {
+      json = JSON.parse(new TextDecoder().decode(buffer))
+    } catch {
+      json = null
+    }
+
+    const parsed = schema.safeParse(json)
+    if (!parsed.success) {
+      console.warn(`[useOfflineStorage] Ignoring invalid offline file ${key}`, parsed.error)
+      return null
+    }
+    return parsed.data
+  }
+
+  // Manifests of the completely downloaded regions, skipping any that fail validation.
+  async function listRegions(): Promise<OfflineRegion[]> {
+    const { data, error } = await attempt(() => invoke<unknown[]>('offline_list'))
+    if (error) {
+      console.warn('[useOfflineStorage] Failed to list offline regions', error)
+      return []
+    }
+    return data.flatMap((manifest) => {
+      const parsed = offlineRegionSchema.safeParse(manifest)
+      return parsed.success ? [parsed.data] : []
+    })
+  }
+
+  async function deleteRegion(regionId: string): Promise<void> {
+    await invoke('offline_delete', { region: regionId })
+  }
+
+  return {
+    getResourceKey,
+    write,
+    read,
+    readJson,
+    listRegions,
+    deleteRegion
+  }
+}
@@ -0,0 +1,177 @@
+import { storeToRefs } from 'pinia'
+import { computed } from 'vue'
+import { SunlightStatus } from '@/shared/enums'
+import type {
+  BoundingBox,
+  Coordinates,
+  SunlightStatusInfo,
+  TimeSlotScore,
+  Venue
+} from '@/shared/types'
+import { useVenuesStore } from '@/stores/venues'
+import { useCoordinates } from './useCoordinates'
+import { useHorizonProfile } from './useHorizonProfile'
+import { useOpeningHours } from './useOpeningHours'
+import { useShadowCasting } from './useShadowCasting'
+import { useSunInfo } from './useSunInfo'
+import { useSunlightStatus } from './useSunlightStatus'
+import { useWeather } from './useWeather'
+
+const SLOT_MINUTES = 30
+
+// How much each status counts towards a slot's score before it is weighted by confidence.
+const STATUS_WEIGHTS: Record<SunlightStatus, number> = {
+  [SunlightStatus.SUNNY]: 1,
+  [SunlightStatus.PARTIALLY_SUNNY]: 0.5,
+  [SunlightStatus.SHADED]: 0,
+  [SunlightStatus.NIGHT]: 0,
+  [SunlightStatus.OVERCAST]: 0,
+  [SunlightStatus.UNKNOWN]: 0
+}
+
+// Statuses an averaged score maps back to
+const SCORED_STATUSES = [SunlightStatus.SUNNY, SunlightStatus.PARTIALLY_SUNNY, SunlightStatus.SHADED]
+
+function scoreStatus(status: SunlightStatusInfo): number {
+  return STATUS_WEIGHTS[status.status] * status.confidence
+}
+
+// The status whose weight is closest to a score, for slots averaged over several venues.
+function statusFromScore(score: number): SunlightStatus {
+  return SCORED_STATUSES.reduce((closest, status) =>
+    Math.abs(STATUS_WEIGHTS[status] - score) < Math.abs(STATUS_WEIGHTS[closest] - score) ? status : closest)
+}
+
+// Highest score first; earlier slots win ties.
+function compareSlots(a: TimeSlotScore, b: TimeSlotScore): number {
+  return b.score - a.score || a.start.getTime() - b.start.getTime()
+}
+
+// useBestTime composable
+// Ranks the time slots of a day by expected sunlight so the app can answer
+// "when will this terrace get sun?" for a single venue or for the visible area.
+export function useBestTime() {
+  const store = useVenuesStore()
+  const { buildings } = storeToRefs(store)
+  const { selectedDateTime, getSunPosition, getSunTimes } = useSunInfo()
+  const { computeSunlightStatus } = useShadowCasting()
+  const { isOpenAt } = useOpeningHours()
+  const { isInsideBounds } = useCoordinates()
+  const { adjustForWeather } = useWeather()
+  const { getHorizonAltitude } = useHorizonProfile()
+  const { createUnknown } = useSunlightStatus()
+
+  // Slots can only be told apart with building footprints, which only downloaded regions have.
+  // Online every slot but the selected one is UNKNOWN and nothing is ranked.
+  const hasFootprints = computed(() => buildings.value.length > 0)
+
+  // Split the daylight hours of the given date into fixed slots aligned to SLOT_MINUTES.
+  function getDaylightSlots(coordinates: Coordinates, date: Date): Array<{ start: Date; end: Date }> {
+    const { sunrise, sunset } = getSunTimes(coordinates, date)
+    if (Number.isNaN(sunrise.getTime()) || Number.isNaN(sunset.getTime())) return []
+
+    const slotMs = SLOT_MINUTES * 60 * 1000
+    const slots: Array<{ start: Date; end: Date }> = []
+    for (
+      let time = Math.floor(sunrise.getTime() / slotMs) * slotMs;
+      time < sunset.getTime();
+      time += slotMs
+    ) {
+      slots.push({ start: new Date(time), end: new Date(time + slotMs) })
+    }
+    return slots
+  }
+
+  // Sunlight status of a venue for one slot. The slot containing the selected time reuses
+  // the venue's own status (from the server or the shadow engine); other slots are
+  // computed locally at their midpoint and adjusted for the forecast cloud cover.
+  function getSlotStatus(venue: Venue, start: Date, end: Date): SunlightStatusInfo {
+    const selected = selectedDateTime.value
+    if (venue.sunlightStatus && selected >= start && selected < end) {
+      return venue.sunlightStatus
+    }
+    if (!hasFootprints.value) return createUnknown()
+
+    const midpoint = new Date((start.getTime() + end.getTime()) / 2)
+    const position = getSunPosition(venue.coordinates, midpoint)
+    const horizonAltitude = getHorizonAltitude(venue.coordinates, position)
+    return adjustForWeather(
+      computeSunlightStatus(venue.coordinates, buildings.value, position, horizonAltitude, venue.terrace),
+      midpoint
+    )
+  }
+
+  // Score every daylight slot of the date for a venue, in chronological order.
+  // Slots when the venue is known to be closed score 0.
+  function scoreVenueSlots(venue: Venue, date: Date): TimeSlotScore[] {
+    return getDaylightSlots(venue.coordinates, date).map(({ start, end }) => {
+      const status = getSlotStatus(venue, start, end)
+      const midpoint = new Date((start.getTime() + end.getTime()) / 2)
+      const isOpen = isOpenAt(venue.openingHours, midpoint, { coordinates: venue.coordinates })
+      return {
+        start,
+        end,
+        status: status.status,
+        score: isOpen === false ? 0 : scoreStatus(status),
+        isOpen
+      }
+    })
+  }
+
+  // Slots with any expected sunlight while the venue is not known to be closed, best first.
+  function rankVenueSlots(venue: Venue, date: Date): TimeSlotScore[] {
+    if (!hasFootprints.value) return []
+    return scoreVenueSlots(venue, date)
+      .filter((slot) => slot.score > 0)
+      .toSorted(compareSlots)
+  }
+
+  // The single best slot for a venue on the given date, or null if it gets no sun while open.
+  function getBestVenueSlot(venue: Venue, date: Date): TimeSlotScore | null {
+    return rankVenueSlots(venue, date)[0] ?? null
+  }
+
+  // Rank slots for every loaded venue inside the bounds by their average score. Slots are
+  // matched by their start time, as venues far apart do not share a sunrise.
+  function rankAreaSlots(bounds: BoundingBox, date: Date): TimeSlotScore[] {
+    if (!hasFootprints.value) return []
+    const venuesInBounds = store.venues.filter((venueItem) =>
+      isInsideBounds(venueItem.coordinates, bounds)
+    )
+    if (venuesInBounds.length === 0) return []
+
+    const slotsByStart = new Map<number, TimeSlotScore[]>()
+    venuesInBounds
+      .flatMap((venueItem) => scoreVenueSlots(venueItem, date))
+      .forEach((slot) => {
+        const key = slot.start.getTime()
+        slotsByStart.set(key, [...(slotsByStart.get(key) ?? []), slot])
+      })
+
+    return [...slotsByStart.values()]
+      .map((slotsAtStart) => {
+        const score = slotsAtStart.reduce((sum, s) => sum + s.score, 0) / slotsAtStart.length
+        let isOpen: boolean | null = null
+        if (slotsAtStart.some((s) => s.isOpen === true)) isOpen = true
+        else if (slotsAtStart.every((s) => s.isOpen === false)) isOpen = false
+
+        return {
+          start: slotsAtStart[0]!.start,
+          end: slotsAtStart[0]!.end,
+          status: statusFromScore(score),
+          score,
+          isOpen
+        }
+      })
+      .filter((slot) => slot.score > 0)
+      .toSorted(compareSlots)
+  }
+
+  return {
+    hasFootprints,
+    scoreVenueSlots,
+    rankVenueSlots,
+    getBestVenueSlot,
+    rankAreaSlots
+  }
+}
@@ -1,4 +1,4 @@
-import type { Coordinates } from '@/shared/types'
+import type { BoundingBox, Coordinates } from '@/shared/types'
 
 // useCoordinates composable
 // Provides utility functions for creating and working with geographic coordinates.
@@ -56,11 +56,22 @@ export function useCoordinates() {
     return earthRadiusMeters * angularDistance
   }
 
+  // Return true if the coordinates lie inside the bounding box (edges included).
+  function isInsideBounds(coords: Coordinates, bounds: BoundingBox): boolean {
+    return (
+      coords.latitude >= bounds.south &&
+      coords.latitude <= bounds.north &&
+      coords.longitude >= bounds.west &&
+      coords.longitude <= bounds.east
+    )
+  }
+
   return {
     create,
     toArray,
     toLatLng,
     areEqual,
-    calculateDistance
+    calculateDistance,
+    isInsideBounds
   }
 }
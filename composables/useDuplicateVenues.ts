@@ -0,0 +1,105 @@
+import type { BoundingBox, Coordinates, Venue } from '@/shared/types'
+import { useVenuesStore } from '@/stores/venues'
+import { useCoordinates } from './useCoordinates'
+import { useVenueCache } from './venue-cache/useVenueCache'
+
+// Venues further apart than this are never treated as the same place
+const MAX_DUPLICATE_DISTANCE_M = 150
+// Name similarity (0–1) from which two nearby venues are probably the same
+const MIN_NAME_SIMILARITY = 0.5
+const MAX_CANDIDATES = 3
+const METERS_PER_DEGREE = 111_320
+
+// Words that say what a venue is rather than which one it is, e.g. "Bar" in "Bar Pepe"
+const GENERIC_WORDS = new Set([
+  'bar', 'cafe', 'cafeteria', 'coffee', 'restaurant', 'restaurante', 'pub', 'club', 'taberna', 'bodega',
+  'the', 'el', 'la', 'los', 'las', 'els', 'les', 'l', 'de', 'del', 'd', 'y', 'i', 'and'
+])
+
+export type DuplicateVenueCandidate = {
+  venue: Venue;
+  distanceMeters: number;
+  // 0–1, how alike the names are
+  nameSimilarity: number;
+};
+
+// Lowercase, without accents, punctuation or generic words.
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replaceAll(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0 && !GENERIC_WORDS.has(word))
+    .join(' ')
+}
+
+function getBigrams(text: string): string[] {
+  const compact = text.replaceAll(' ', '')
+  return Array.from({ length: Math.max(0, compact.length - 1) }, (_, i) => compact.slice(i, i + 2))
+}
+
+// Dice coefficient of the names' letter pairs, after normalization. A name made only of
+// generic words, like "Bar", is compared as is.
+function getNameSimilarity(a: string, b: string): number {
+  const first = normalizeName(a) || a.toLowerCase()
+  const second = normalizeName(b) || b.toLowerCase()
+  if (first === second) return 1
+
+  const firstBigrams = getBigrams(first)
+  const secondBigrams = getBigrams(second)
+  if (firstBigrams.length === 0 || secondBigrams.length === 0) return 0
+
+  const remaining = [...secondBigrams]
+  let shared = 0
+  firstBigrams.forEach((bigram) => {
+    const index = remaining.indexOf(bigram)
+    if (index === -1) return
+    remaining.splice(index, 1)
+    shared++
+  })
+  return (2 * shared) / (firstBigrams.length + secondBigrams.length)
+}
+
+// useDuplicateVenues composable
+// Looks for venues that may already be the one the user is about to create: close by,
+// in the store or the venue cache, with a similar name. Best matches come first.
+export function useDuplicateVenues() {
+  const store = useVenuesStore()
+  const coordinates = useCoordinates()
+  const venueCache = useVenueCache()
+
+  function getSearchArea(center: Coordinates): BoundingBox {
+    const latitudeDelta = MAX_DUPLICATE_DISTANCE_M / METERS_PER_DEGREE
+    const longitudeDelta = latitudeDelta / Math.cos((center.latitude * Math.PI) / 180)
+    return {
+      south: center.latitude - latitudeDelta,
+      west: center.longitude - longitudeDelta,
+      north: center.latitude + latitudeDelta,
+      east: center.longitude + longitudeDelta
+    }
+  }
+
+  async function findDuplicates(name: string, location: Coordinates): Promise<DuplicateVenueCandidate[]> {
+    const cachedVenues = await venueCache.findVenues(getSearchArea(location))
+    const venuesById = new Map([...cachedVenues, ...store.venues].map((venueItem) => [venueItem.id, venueItem]))
+
+    return [...venuesById.values()]
+      .map((venueItem) => ({
+        venue: venueItem,
+        distanceMeters: coordinates.calculateDistance(location, venueItem.coordinates),
+        nameSimilarity: getNameSimilarity(name, venueItem.name)
+      }))
+      .filter((candidate) =>
+        candidate.distanceMeters <= MAX_DUPLICATE_DISTANCE_M && candidate.nameSimilarity >= MIN_NAME_SIMILARITY)
+      .toSorted((a, b) =>
+        b.nameSimilarity * (1 - b.distanceMeters / MAX_DUPLICATE_DISTANCE_M) -
+        a.nameSimilarity * (1 - a.distanceMeters / MAX_DUPLICATE_DISTANCE_M))
+      .slice(0, MAX_CANDIDATES)
+  }
+
+  return {
+    getNameSimilarity,
+    findDuplicates
+  }
+}
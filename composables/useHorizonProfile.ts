@@ -0,0 +1,135 @@
+import { demTileSchema } from '@/shared/schemas/dem-tile.schema'
+import type { Coordinates, DemTile, HorizonProfile, SunPosition } from '@/shared/types'
+import { useHorizonStore } from '@/stores/horizon'
+import { attempt } from '@/utils/attempt'
+
+const METERS_PER_DEGREE = 111320
+const EARTH_RADIUS_METERS = 6371e3
+const EYE_HEIGHT_METERS = 1.6
+const BIN_DEGREES = 5
+const MAX_DISTANCE_METERS = 5000
+const STEP_METERS = 50
+
+// Ground elevation at a point, interpolated bilinearly between the four surrounding
+// grid cells. Returns null outside the tile.
+function sampleElevation(tile: DemTile, coordinates: Coordinates): number | null {
+  const row = ((tile.north - coordinates.latitude) / (tile.north - tile.south)) * (tile.rows - 1)
+  const column = ((coordinates.longitude - tile.west) / (tile.east - tile.west)) * (tile.columns - 1)
+  if (row < 0 || row > tile.rows - 1 || column < 0 || column > tile.columns - 1) return null
+
+  const row0 = Math.min(Math.floor(row), tile.rows - 2)
+  const column0 = Math.min(Math.floor(column), tile.columns - 2)
+  const rowFraction = row - row0
+  const columnFraction = column - column0
+  const heightAt = (r: number, c: number) => tile.heights[r * tile.columns + c]!
+
+  const top = heightAt(row0, column0) * (1 - columnFraction) + heightAt(row0, column0 + 1) * columnFraction
+  const bottom =
+    heightAt(row0 + 1, column0) * (1 - columnFraction) + heightAt(row0 + 1, column0 + 1) * columnFraction
+  return top * (1 - rowFraction) + bottom * rowFraction
+}
+
+// March outward from the location in every azimuth bin and keep the steepest terrain
+// angle seen, corrected for the curvature of the earth. The horizon never drops below 0°,
+// so a hilltop does not extend the day past the astronomical sunset.
+function buildHorizonProfile(tile: DemTile, center: Coordinates): HorizonProfile | null {
+  const ground = sampleElevation(tile, center)
+  if (ground === null) return null
+
+  const observer = ground + EYE_HEIGHT_METERS
+  const cosLat = Math.cos((center.latitude * Math.PI) / 180)
+  const binCount = 360 / BIN_DEGREES
+  const elevations: number[] = []
+
+  for (let bin = 0; bin < binCount; bin++) {
+    const azimuth = (bin * BIN_DEGREES * Math.PI) / 180
+    let maxAngle = 0
+
+    for (let distance = STEP_METERS; distance <= MAX_DISTANCE_METERS; distance += STEP_METERS) {
+      const height = sampleElevation(tile, {
+        latitude: center.latitude + (Math.cos(azimuth) * distance) / METERS_PER_DEGREE,
+        longitude: center.longitude + (Math.sin(azimuth) * distance) / (METERS_PER_DEGREE * cosLat)
+      })
+      if (height === null) break
+
+      const curvatureDrop = (distance * distance) / (2 * EARTH_RADIUS_METERS)
+      maxAngle = Math.max(maxAngle, Math.atan2(height - observer - curvatureDrop, distance))
+    }
+
+    elevations.push(maxAngle)
+  }
+
+  return { binDegrees: BIN_DEGREES, elevations }
+}
+
+// Horizon altitude in radians towards a compass bearing in radians, interpolated between bins.
+function getProfileAltitude(profile: HorizonProfile, bearing: number): number {
+  const binCount = profile.elevations.length
+  const position = ((((bearing * 180) / Math.PI) % 360) + 360) % 360 / profile.binDegrees
+  const index = Math.floor(position) % binCount
+  const fraction = position - Math.floor(position)
+  return profile.elevations[index]! * (1 - fraction) + profile.elevations[(index + 1) % binCount]! * fraction
+}
+
+function buildProfileKey(coordinates: Coordinates): string {
+  return `${coordinates.latitude.toFixed(4)},${coordinates.longitude.toFixed(4)}`
+}
+
+// useHorizonProfile composable
+// Provides the effective horizon of a location: the terrain obstruction angle in the
+// direction of the sun, built from a local DEM tile. Without a tile the horizon is 0°.
+export function useHorizonProfile() {
+  const store = useHorizonStore()
+
+  // Replace the elevation tile and drop the profiles built from the previous one.
+  function setDemTile(tile: DemTile | null): void {
+    store.demTile = tile
+    store.profiles.clear()
+  }
+
+  // Load and validate a DEM tile from a URL. Returns false when the tile is unavailable.
+  async function loadDemTile(url: string): Promise<boolean> {
+    const { data, error } = await attempt(() => $fetch<unknown>(url))
+    const parsed = error ? null : demTileSchema.safeParse(data)
+    if (!parsed?.success) {
+      console.warn('[useHorizonProfile] Failed to load DEM tile', error ?? parsed?.error)
+      return false
+    }
+
+    setDemTile(parsed.data)
+    return true
+  }
+
+  // Horizon profile for a location, built once and cached. Null outside the tile.
+  function getProfile(coordinates: Coordinates): HorizonProfile | null {
+    if (!store.demTile) return null
+
+    const key = buildProfileKey(coordinates)
+    if (!store.profiles.has(key)) {
+      const profile = buildHorizonProfile(store.demTile, coordinates)
+      if (!profile) return null
+      store.profiles.set(key, profile)
+    }
+    return store.profiles.get(key)!
+  }
+
+  // Altitude in radians the sun must exceed to reach the location from its current direction.
+  function getHorizonAltitude(coordinates: Coordinates, sunPosition: SunPosition): number {
+    const profile = getProfile(coordinates)
+    // SunCalc measures azimuth from south towards west; add π to get a compass bearing.
+    return profile ? getProfileAltitude(profile, sunPosition.azimuth + Math.PI) : 0
+  }
+
+  // True when the sun is above the astronomical horizon but hidden behind terrain.
+  function isBehindTerrain(coordinates: Coordinates, sunPosition: SunPosition): boolean {
+    return sunPosition.altitude > 0 && sunPosition.altitude <= getHorizonAltitude(coordinates, sunPosition)
+  }
+
+  return {
+    setDemTile,
+    loadDemTile,
+    getProfile,
+    getHorizonAltitude,
+    isBehindTerrain
+  }
+}
@@ -0,0 +1,45 @@
+export type LatestRequestContext = {
+  // Aborted as soon as a request with another key starts
+  signal: AbortSignal;
+  // False once a newer request has started, results must then be dropped
+  isCurrent: () => boolean;
+};
+
+type ActiveRequest<T> = {
+  key: string;
+  controller: AbortController;
+  promise: Promise<T>;
+};
+
+// useLatestRequest composable
+// Coordinates a stream of requests where only the newest one matters, such as
+// loading venues while the map moves:
+//   - a request with the same key as the one in flight joins it instead of starting again
+//   - a request with another key aborts the one in flight
+//   - tasks check isCurrent() before writing results, so a late response from an
+//     older request never overwrites a newer one
+export function useLatestRequest<T>() {
+  let active: ActiveRequest<T> | null = null
+
+  function run(key: string, task: (context: LatestRequestContext) => Promise<T>): Promise<T> {
+    if (active?.key === key) return active.promise
+
+    active?.controller.abort()
+    const controller = new AbortController()
+    const request = { key, controller } as ActiveRequest<T>
+    active = request
+
+    const context: LatestRequestContext = {
+      signal: controller.signal,
+      isCurrent: () => active === request
+    }
+    request.promise = task(context).finally(() => {
+      if (active === request) active = null
+    })
+    return request.promise
+  }
+
+  return {
+    run
+  }
+}
@@ -1,8 +1,10 @@
 import { storeToRefs } from 'pinia'
 import { ref } from 'vue'
 import type { VenueErrorCode } from '@/shared/enums/venue-error-code'
-import type { BoundingBox, MapRef, Venue, VenueFilters } from '@/shared/types'
+import type { BoundingBox, Coordinates, MapRef, Venue, VenueFilters } from '@/shared/types'
 import { useMapExplorerStore } from '@/stores/mapExplorer'
+import { useMapViewStore } from '@/stores/mapView'
+import { useHorizonProfile } from './useHorizonProfile'
 
 const LOCATE_ME_ZOOM = 16
 const VENUE_SELECT_ZOOM = 17
@@ -19,12 +21,18 @@ export function useMapExplorer() {
     shadedVenues,
     filteredVenues,
     fetchVenuesByBoundingBox,
-    setFilters
+    getCacheSlot,
+    setFilters,
+    buildings
   } = useVenues()
 
   const { sunInfo, selectedDateTime, updateSunInfo, setDateTime } =
     useSunInfo()
   const { state: geoState, getCurrentPosition } = useGeolocation()
+  const { loadDemTile } = useHorizonProfile()
+  const { buildHeatmap } = useSunHeatmap()
+  const { heatmapMetric } = storeToRefs(useMapViewStore())
+  const { public: { demTileUrl } } = useRuntimeConfig()
 
   // Map state from store
   const mapStore = useMapExplorerStore()
@@ -34,12 +42,16 @@ export function useMapExplorer() {
     currentBounds,
     selectedVenueId,
     selectedVenue,
-    showVenueDetail
+    showVenueDetail,
+    isAutoRefreshEnabled
   } = storeToRefs(mapStore)
 
   const mapRef = ref<MapRef | null>(null)
   const userLocation = ref<[number, number] | null>(null)
 
+  // Cache slot of the last venue fetch made during time-lapse playback
+  let lastPlaybackSlot: number | null = null
+
   const isAtUserLocation = computed(() => {
     if (!userLocation.value || !currentBounds.value) return false
     const centerLat = (currentBounds.value.north + currentBounds.value.south) / 2
@@ -50,6 +62,13 @@ export function useMapExplorer() {
     )
   })
 
+  // Sun exposure over the visible map, rebuilt when the view, time or buildings change.
+  // Hidden without building footprints, which only downloaded regions have: it would show full sun everywhere.
+  const sunHeatmap = computed(() => {
+    if (!heatmapMetric.value || !currentBounds.value || buildings.value.length === 0) return null
+    return buildHeatmap(currentBounds.value, selectedDateTime.value, heatmapMetric.value, buildings.value)
+  })
+
   // Helpers
   function getBoundsCenter(bounds: BoundingBox): { lat: number; lng: number } {
     return {
@@ -58,6 +77,13 @@ export function useMapExplorer() {
     }
   }
 
+  // Centre of the last reported map bounds, i.e. what sits under the on-screen crosshair.
+  function getViewCenter(): Coordinates | null {
+    if (!currentBounds.value) return null
+    const { lat, lng } = getBoundsCenter(currentBounds.value)
+    return { latitude: lat, longitude: lng }
+  }
+
   // Actions
   async function handleSearch(): Promise<VenueErrorCode | null> {
     if (!currentBounds.value) return null
@@ -73,12 +99,16 @@ export function useMapExplorer() {
     return errorCode
   }
 
-  // Handle a bounds-change event fired by the map.
-  function handleBoundsChanged(bounds: BoundingBox): void {
+  // Handle a bounds-change event fired by the map once it settles.
+  // In auto-refresh mode the venues of the new bounds are fetched right away.
+  async function handleBoundsChanged(bounds: BoundingBox): Promise<VenueErrorCode | null> {
     mapStore.currentBounds = bounds
 
     const { lat, lng } = getBoundsCenter(bounds)
     updateSunInfo(lat, lng, selectedDateTime.value)
+
+    if (!isAutoRefreshEnabled.value) return null
+    return fetchVenuesByBoundingBox(bounds, selectedDateTime.value)
   }
 
   // Handle a date/time update from the user.
@@ -97,6 +127,27 @@ export function useMapExplorer() {
     return null
   }
 
+  // Handle a time-lapse playback frame.
+  // Sun info follows every frame, but venues are only re-fetched when the frame crosses
+  // into a new 15-minute cache slot and no earlier request is still in flight, so playback
+  // never sends a request per frame and replays are served from the venue cache.
+  async function handlePlaybackFrame(
+    datetime: Date
+  ): Promise<VenueErrorCode | null> {
+    setDateTime(datetime)
+
+    if (!currentBounds.value) return null
+
+    const { lat, lng } = getBoundsCenter(currentBounds.value)
+    updateSunInfo(lat, lng, datetime)
+
+    const slot = getCacheSlot(datetime)
+    if (slot === lastPlaybackSlot || loading.value) return null
+
+    lastPlaybackSlot = slot
+    return fetchVenuesByBoundingBox(currentBounds.value, datetime)
+  }
+
   // Handle a filter update from the user.
   async function handleFilterUpdate(
     newFilters: Partial<VenueFilters>
@@ -161,6 +212,9 @@ export function useMapExplorer() {
       return
     }
 
+    // Terrain is optional: without a DEM tile the horizon stays at 0°.
+    if (demTileUrl) await loadDemTile(demTileUrl)
+
     const { error } = await attempt(() => getCurrentPosition())
 
     if (!error && geoState.value.latitude && geoState.value.longitude) {
@@ -188,11 +242,16 @@ export function useMapExplorer() {
     selectedVenueId,
     selectedVenue,
     showVenueDetail,
+    currentBounds,
+    sunHeatmap,
+    isAutoRefreshEnabled,
 
     // Actions
+    getViewCenter,
     handleSearch,
     handleBoundsChanged,
     handleDateTimeUpdate,
+    handlePlaybackFrame,
     handleFilterUpdate,
     handleVenueClick,
     handleVenueSelect,
@@ -0,0 +1,57 @@
+import type { BoundingBox, MapTile } from '@/shared/types'
+
+// Web Mercator stops at ±85.0511°, where the world becomes a square
+const MAX_LATITUDE = 85.0511287798
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+// useMapTiles composable
+// Slippy-map tile maths: which tiles cover an area at a zoom level, and the area
+// each tile covers. Shared by the offline downloads and the tiled venue requests.
+export function useMapTiles() {
+  function longitudeToTileX(longitude: number, zoom: number): number {
+    return clamp(Math.floor(((longitude + 180) / 360) * 2 ** zoom), 0, 2 ** zoom - 1)
+  }
+
+  function latitudeToTileY(latitude: number, zoom: number): number {
+    const radians = (clamp(latitude, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI) / 180
+    const y = Math.floor(((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * 2 ** zoom)
+    return clamp(y, 0, 2 ** zoom - 1)
+  }
+
+  function tileYToLatitude(y: number, zoom: number): number {
+    const n = Math.PI - (2 * Math.PI * y) / 2 ** zoom
+    return (Math.atan(Math.sinh(n)) * 180) / Math.PI
+  }
+
+  // Tiles covering the bounds at the zoom level, row by row from the north-west.
+  function getTilesInBounds(bounds: BoundingBox, zoom: number): MapTile[] {
+    const minX = longitudeToTileX(bounds.west, zoom)
+    const maxX = longitudeToTileX(bounds.east, zoom)
+    const minY = latitudeToTileY(bounds.north, zoom)
+    const maxY = latitudeToTileY(bounds.south, zoom)
+
+    const tiles: MapTile[] = []
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) tiles.push({ z: zoom, x, y })
+    }
+    return tiles
+  }
+
+  function getTileBounds(tile: MapTile): BoundingBox {
+    const tileCount = 2 ** tile.z
+    return {
+      south: tileYToLatitude(tile.y + 1, tile.z),
+      west: (tile.x / tileCount) * 360 - 180,
+      north: tileYToLatitude(tile.y, tile.z),
+      east: ((tile.x + 1) / tileCount) * 360 - 180
+    }
+  }
+
+  return {
+    getTilesInBounds,
+    getTileBounds
+  }
+}
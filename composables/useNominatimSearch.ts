@@ -1,6 +1,18 @@
 import { ref } from 'vue'
 import type { SearchResult } from '@/shared/types'
 
+export type ReverseGeocodeOptions = {
+  // Also return the address parts, not just the formatted line
+  addressDetails?: boolean;
+  language?: string;
+  signal?: AbortSignal;
+};
+
+export type ReverseGeocodeResult = {
+  address: string | null;
+  details: Record<string, string> | null;
+};
+
 // useNominatimSearch composable
 // Searches for places using the server-side Nominatim geocoding API.
 export function useNominatimSearch() {
@@ -48,26 +60,32 @@ export function useNominatimSearch() {
   }
 
   // Reverse geocode: look up the address for a given latitude and longitude.
-  // Returns the address string, or null if the lookup fails.
+  // Returns the formatted address and, with addressDetails, its Nominatim parts
+  // (road, house_number, city, ...), or null if the lookup fails.
   async function reverseGeocode(
     latitude: number,
-    longitude: number
-  ): Promise<string | null> {
+    longitude: number,
+    options: ReverseGeocodeOptions = {}
+  ): Promise<ReverseGeocodeResult | null> {
     try {
       // Call server API endpoint
-      const response = await $fetch<{ address: string | null; found: boolean }>(
+      const response = await $fetch<{ address: string | null; found: boolean; details?: Record<string, string> }>(
         apiUrl('/api/reverse-geocode'),
         {
           query: {
             lat: latitude,
-            lon: longitude
-          }
+            lon: longitude,
+            addressdetails: options.addressDetails ? 1 : undefined,
+            'accept-language': options.language
+          },
+          signal: options.signal
         }
       )
 
-      return response.address
+      return { address: response.address, details: response.details ?? null }
     } catch (error) {
-      console.error('Reverse geocode error:', error)
+      // A lookup the caller gave up on is not an error
+      if (!options.signal?.aborted) console.error('Reverse geocode error:', error)
       return null
     }
   }
@@ -0,0 +1,352 @@
+import type {
+  Coordinates,
+  OpeningHoursRule,
+  OpeningHoursRuleSeparator,
+  OpeningHoursRuleState,
+  OpeningHoursTimePoint,
+  OpeningHoursTimeSpan,
+  OpeningHoursWeekdayRange,
+  SunEvent
+} from '@/shared/types'
+import { useSunInfo } from './useSunInfo'
+
+// OSM weekday abbreviations, indexed like Date.getDay() (0 = Sunday).
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'] as const
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'] as const
+const SUN_EVENTS: SunEvent[] = ['dawn', 'sunrise', 'sunset', 'dusk']
+
+const MINUTES_PER_DAY = 24 * 60
+// Parsed opening_hours values kept for reuse; timelines evaluate the same value many times
+const MAX_CACHED_VALUES = 1000
+
+// Sun event times used when no location is known, as defined by the specification.
+const DEFAULT_EVENT_MINUTES: Record<SunEvent, number> = {
+  dawn: 5 * 60 + 30,
+  sunrise: 6 * 60,
+  sunset: 18 * 60,
+  dusk: 18 * 60 + 30
+}
+
+const WEEKDAY = WEEKDAYS.join('|')
+const MONTH = MONTHS.join('|')
+const EVENT = SUN_EVENTS.join('|')
+const TIME_POINT = `(?:\\d{1,2}:\\d{2}|${EVENT}|\\((?:${EVENT})[+-]\\d{1,2}:\\d{2}\\))`
+
+const MONTH_SELECTOR_PATTERN = new RegExp(`^(?:${MONTH})(?:-(?:${MONTH}))?(?:,(?:${MONTH})(?:-(?:${MONTH}))?)*:?$`)
+const WEEKDAY_ITEM = `(?:(?:${WEEKDAY})(?:-(?:${WEEKDAY}))?(?:\\[-?\\d(?:,-?\\d)*\\])?|PH|SH)`
+const WEEKDAY_SELECTOR_PATTERN = new RegExp(`^${WEEKDAY_ITEM}(?:,${WEEKDAY_ITEM})*:?$`)
+const WEEKDAY_ITEM_PATTERN = new RegExp(`(${WEEKDAY})(?:-(${WEEKDAY}))?(?:\\[([-\\d,]+)\\])?|PH|SH`, 'g')
+const TIME_SPAN_PATTERN = new RegExp(`^(${TIME_POINT})(?:-(${TIME_POINT}))?(\\+)?$`)
+const TIME_POINT_PATTERN = new RegExp(`^(?:(\\d{1,2}):(\\d{2})|(${EVENT})|\\((${EVENT})([+-])(\\d{1,2}):(\\d{2})\\))$`)
+
+// A ", " followed by a day or month selector starts an additional rule rather than a list item.
+const ADDITIONAL_RULE_PATTERN = new RegExp(`,\\s+(?=(?:${WEEKDAY}|${MONTH}|PH|SH)\\b)`)
+
+const STATE_KEYWORDS: Record<string, OpeningHoursRuleState> = {
+  open: 'open',
+  closed: 'closed',
+  off: 'closed',
+  unknown: 'unknown'
+}
+
+type DayInterval = {
+  from: number // minutes after midnight, may exceed a day for spans past midnight
+  to: number
+  state: OpeningHoursRuleState
+}
+
+type EvaluationOptions = {
+  // Used to resolve sunrise/sunset; the specification defaults apply without it.
+  coordinates?: Coordinates
+  // OSM has no holiday calendar, so "PH" rules only apply when the caller provides one.
+  // Without it, a time whose state depends on the day being a holiday is unknown.
+  isPublicHoliday?: (date: Date) => boolean
+}
+
+// Split a value into rule texts on ";" and "||", ignoring separators inside comments.
+function splitRules(value: string): Array<{ text: string; separator: OpeningHoursRuleSeparator }> {
+  const rules: Array<{ text: string; separator: OpeningHoursRuleSeparator }> = []
+  let separator: OpeningHoursRuleSeparator = 'normal'
+  let text = ''
+  let inComment = false
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]!
+    if (char === '"') inComment = !inComment
+
+    if (!inComment && (char === ';' || value.startsWith('||', i))) {
+      rules.push({ text, separator })
+      separator = char === ';' ? 'normal' : 'fallback'
+      text = ''
+      if (char === '|') i++
+    } else {
+      text += char
+    }
+  }
+  rules.push({ text, separator })
+
+  return rules
+    .flatMap((rule) =>
+      rule.text.split(ADDITIONAL_RULE_PATTERN).map((part, index) => ({
+        text: part.trim(),
+        separator: index === 0 ? rule.separator : ('additional' as const)
+      }))
+    )
+    .filter((rule) => rule.text.length > 0)
+}
+
+// Expand "Jan-Mar,Nov" into Date.getMonth() indices; ranges may wrap around the year.
+function parseMonths(selector: string): number[] {
+  const months = new Set<number>()
+  for (const part of selector.replace(/:$/, '').split(',')) {
+    const [from, to] = part.split('-')
+    const fromIndex = MONTHS.indexOf(from as (typeof MONTHS)[number])
+    const toIndex = to ? MONTHS.indexOf(to as (typeof MONTHS)[number]) : fromIndex
+    for (let i = fromIndex; ; i = (i + 1) % 12) {
+      months.add(i)
+      if (i === toIndex) break
+    }
+  }
+  return [...months]
+}
+
+function parseWeekdays(selector: string): Pick<OpeningHoursRule, 'weekdays' | 'publicHoliday'> {
+  const weekdays: OpeningHoursWeekdayRange[] = []
+  let publicHoliday = false
+
+  for (const match of selector.replace(/:$/, '').matchAll(WEEKDAY_ITEM_PATTERN)) {
+    const [item, from, to, nth] = match
+    if (item === 'PH') {
+      publicHoliday = true
+    } else if (from) {
+      const fromIndex = WEEKDAYS.indexOf(from as (typeof WEEKDAYS)[number])
+      weekdays.push({
+        from: fromIndex,
+        to: to ? WEEKDAYS.indexOf(to as (typeof WEEKDAYS)[number]) : fromIndex,
+        nth: nth ? nth.split(',').map(Number) : null
+      })
+    }
+    // School holidays ("SH") are not supported and never match.
+  }
+
+  return { weekdays, publicHoliday }
+}
+
+function parseTimePoint(text: string): OpeningHoursTimePoint | null {
+  const match = TIME_POINT_PATTERN.exec(text)
+  if (!match) return null
+
+  const [, hours, minutes, event, offsetEvent, sign, offsetHours, offsetMinutes] = match
+  if (hours !== undefined && minutes !== undefined) {
+    return { minutes: Number(hours) * 60 + Number(minutes) }
+  }
+  if (event) return { event: event as SunEvent, offset: 0 }
+
+  const offset = Number(offsetHours) * 60 + Number(offsetMinutes)
+  return { event: offsetEvent as SunEvent, offset: sign === '-' ? -offset : offset }
+}
+
+// Parse "10:00-14:00,sunset-23:00" into time spans, or null if any span is invalid.
+function parseTimeSpans(selector: string): OpeningHoursTimeSpan[] | null {
+  const spans: OpeningHoursTimeSpan[] = []
+  for (const part of selector.split(',')) {
+    const match = TIME_SPAN_PATTERN.exec(part)
+    if (!match) return null
+
+    const [, fromText, toText, openEnd] = match
+    const from = parseTimePoint(fromText!)
+    const to = toText ? parseTimePoint(toText) : null
+    // A single point in time ("12:00") is not a span unless it has an open end.
+    if (!from || (!to && !openEnd)) return null
+
+    spans.push({ from, to })
+  }
+  return spans
+}
+
+// Parse one rule: [months] [weekdays] [times] [state] ["comment"].
+function parseRule(text: string, separator: OpeningHoursRuleSeparator): OpeningHoursRule | null {
+  const tokens = text
+    .replace(/"[^"]*"/g, ' ')
+    .replace(/\s*-\s*/g, '-')
+    .replace(/\s*,\s*/g, ',')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  const rule: OpeningHoursRule = {
+    separator,
+    months: null,
+    weekdays: null,
+    publicHoliday: false,
+    spans: null,
+    state: 'open'
+  }
+
+  let index = 0
+  if (tokens[index] === '24/7') {
+    rule.spans = [{ from: { minutes: 0 }, to: { minutes: MINUTES_PER_DAY } }]
+    index++
+  }
+  if (tokens[index] && MONTH_SELECTOR_PATTERN.test(tokens[index]!)) {
+    rule.months = parseMonths(tokens[index]!)
+    index++
+  }
+  if (tokens[index] && WEEKDAY_SELECTOR_PATTERN.test(tokens[index]!)) {
+    Object.assign(rule, parseWeekdays(tokens[index]!))
+    index++
+  }
+  if (tokens[index] && !rule.spans && !(tokens[index]! in STATE_KEYWORDS)) {
+    rule.spans = parseTimeSpans(tokens[index]!)
+    if (!rule.spans) return null
+    index++
+  }
+  if (tokens[index] && tokens[index]! in STATE_KEYWORDS) {
+    rule.state = STATE_KEYWORDS[tokens[index]!]!
+    index++
+  }
+
+  // Leftover tokens mean syntax this parser does not support (week numbers, dates, …).
+  return index === tokens.length && index > 0 ? rule : null
+}
+
+// Parse an OSM opening_hours value into rules, or null if any part is not understood.
+function parse(openingHours: string): OpeningHoursRule[] | null {
+  const rules: OpeningHoursRule[] = []
+  for (const { text, separator } of splitRules(openingHours.trim())) {
+    const rule = parseRule(text, separator)
+    if (!rule) return null
+    rules.push(rule)
+  }
+  return rules.length > 0 ? rules : null
+}
+
+const parsedValues = new Map<string, OpeningHoursRule[] | null>()
+
+function parseCached(openingHours: string): OpeningHoursRule[] | null {
+  if (parsedValues.has(openingHours)) return parsedValues.get(openingHours)!
+  if (parsedValues.size >= MAX_CACHED_VALUES) parsedValues.clear()
+
+  const rules = parse(openingHours)
+  parsedValues.set(openingHours, rules)
+  return rules
+}
+
+function matchesWeekday(range: OpeningHoursWeekdayRange, date: Date): boolean {
+  const day = date.getDay()
+  const isInRange =
+    range.from <= range.to ? day >= range.from && day <= range.to : day >= range.from || day <= range.to
+  if (!isInRange || !range.nth) return isInRange
+
+  // "Mo[1]" is the first Monday of the month, "Mo[-1]" the last one.
+  const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()
+  const fromStart = Math.ceil(date.getDate() / 7)
+  const fromEnd = -(Math.floor((daysInMonth - date.getDate()) / 7) + 1)
+  return range.nth.includes(fromStart) || range.nth.includes(fromEnd)
+}
+
+function matchesDay(rule: OpeningHoursRule, date: Date, options: EvaluationOptions): boolean {
+  if (rule.months && !rule.months.includes(date.getMonth())) return false
+  if (!rule.weekdays && !rule.publicHoliday) return true
+  if (rule.publicHoliday && options.isPublicHoliday?.(date)) return true
+  return rule.weekdays?.some((range) => matchesWeekday(range, date)) ?? false
+}
+
+// useOpeningHours composable
+// Interprets OSM opening_hours strings attached to venues.
+export function useOpeningHours() {
+  const { getSunTimes } = useSunInfo()
+
+  function resolveTimePoint(point: OpeningHoursTimePoint, date: Date, options: EvaluationOptions): number {
+    if ('minutes' in point) return point.minutes
+
+    let minutes = DEFAULT_EVENT_MINUTES[point.event]
+    if (options.coordinates) {
+      const eventTime = getSunTimes(options.coordinates, date)[point.event]
+      // Sun events do not happen on every day near the poles.
+      if (!Number.isNaN(eventTime.getTime())) {
+        minutes = eventTime.getHours() * 60 + eventTime.getMinutes()
+      }
+    }
+    return minutes + point.offset
+  }
+
+  function getRuleIntervals(rule: OpeningHoursRule, date: Date, options: EvaluationOptions): DayInterval[] {
+    if (!rule.spans) return [{ from: 0, to: MINUTES_PER_DAY, state: rule.state }]
+
+    return rule.spans.map((span) => {
+      const from = resolveTimePoint(span.from, date, options)
+      // An open end ("18:00+") has no known closing time; treat it as open until midnight.
+      let to = span.to ? resolveTimePoint(span.to, date, options) : MINUTES_PER_DAY
+      if (to <= from) to += MINUTES_PER_DAY
+      return { from, to, state: rule.state }
+    })
+  }
+
+  // Intervals that apply to one calendar day. A normal rule matching the day replaces
+  // everything before it, an additional rule adds to it, and fallback rules are only
+  // used when no other rule matched.
+  function getDayIntervals(rules: OpeningHoursRule[], date: Date, options: EvaluationOptions): DayInterval[] {
+    const collect = (candidates: OpeningHoursRule[]): DayInterval[] | null => {
+      let intervals: DayInterval[] | null = null
+      for (const rule of candidates) {
+        if (!matchesDay(rule, date, options)) continue
+        if (!intervals || rule.separator !== 'additional') intervals = []
+        intervals.push(...getRuleIntervals(rule, date, options))
+      }
+      return intervals
+    }
+
+    return (
+      collect(rules.filter((rule) => rule.separator !== 'fallback')) ??
+      collect(rules.filter((rule) => rule.separator === 'fallback')) ??
+      []
+    )
+  }
+
+  function evaluate(rules: OpeningHoursRule[], datetime: Date, options: EvaluationOptions): boolean | null {
+    const previousDay = new Date(datetime)
+    previousDay.setDate(previousDay.getDate() - 1)
+
+    // Spans past midnight on the previous day still apply; today's own rules take precedence.
+    const carriedOver = getDayIntervals(rules, previousDay, options)
+      .filter((interval) => interval.to > MINUTES_PER_DAY)
+      .map((interval) => ({
+        ...interval,
+        from: interval.from - MINUTES_PER_DAY,
+        to: interval.to - MINUTES_PER_DAY
+      }))
+
+    const minutes = datetime.getHours() * 60 + datetime.getMinutes()
+    const current = [...carriedOver, ...getDayIntervals(rules, datetime, options)]
+      .filter((interval) => minutes >= interval.from && minutes < interval.to)
+      .at(-1)
+
+    if (!current) return false
+    return current.state === 'unknown' ? null : current.state === 'open'
+  }
+
+  // Return whether the venue is open at the given time, or null if the hours are missing,
+  // unparseable or explicitly unknown at that time.
+  function isOpenAt(
+    openingHours: string | undefined,
+    datetime: Date,
+    options: EvaluationOptions = {}
+  ): boolean | null {
+    if (!openingHours) return null
+    const rules = parseCached(openingHours)
+    if (!rules) return null
+    if (options.isPublicHoliday || !rules.some((rule) => rule.publicHoliday)) {
+      return evaluate(rules, datetime, options)
+    }
+
+    // No holiday calendar: only answer when it makes no difference whether the day is a holiday
+    const onWorkday = evaluate(rules, datetime, { ...options, isPublicHoliday: () => false })
+    const onHoliday = evaluate(rules, datetime, { ...options, isPublicHoliday: () => true })
+    return onWorkday === onHoliday ? onWorkday : null
+  }
+
+  return {
+    parse,
+    isOpenAt
+  }
+}
@@ -0,0 +1,193 @@
+import { storeToRefs } from 'pinia'
+import { outboxSchema } from '@/shared/schemas/outbox.schema'
+import type { OutboxItem, OutboxKind } from '@/shared/types'
+import { useOutboxStore } from '@/stores/outbox'
+import { attempt } from '@/utils/attempt'
+
+const STORAGE_KEY = 'sunbar_outbox'
+// Web Lock held by the tab sending contributions, so two tabs never send the same one
+const SEND_LOCK_NAME = 'sunbar_outbox_send'
+const BASE_RETRY_DELAY_MS = 15 * 1000
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000
+const MAX_ATTEMPTS = 10
+// Sent contributions stay listed for a day, so the user can see they went through
+const SENT_RETENTION_MS = 24 * 60 * 60 * 1000
+
+// A 4xx response means the server refused the request, so sending it again will
+// not help. Timeouts and rate limiting are the exceptions.
+function isRetryable(error: Error): boolean {
+  const { statusCode } = error as Error & { statusCode?: number }
+  return statusCode === undefined || statusCode >= 500 || statusCode === 408 || statusCode === 429
+}
+
+// Exponential backoff: 15 s, 30 s, 1 min, … up to 10 min between attempts.
+function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS)
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine
+}
+
+// useOutbox composable
+// Offline-first delivery of contributions. Every request is stored in the outbox
+// (persisted in localStorage) before it is sent, retried with backoff while the
+// network or the server is down, and kept with its status until it is sent or the
+// user discards it, so nothing the user typed is lost.
+// The saved outbox is shared by every open tab: changes are made to it as saved, not
+// to this tab's copy, and only the tab holding the send lock sends.
+export function useOutbox() {
+  const store = useOutboxStore()
+  const { items, isProcessing, unsentCount } = storeToRefs(store)
+  const { sendingIds } = store
+
+  const { public: { apiBaseUrl } } = useRuntimeConfig()
+
+  // The outbox as last saved by any tab. Invalid or unreadable data counts as empty.
+  function readSaved(): OutboxItem[] {
+    let saved: unknown
+    try {
+      saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    } catch {
+      saved = []
+    }
+
+    const parsed = outboxSchema.safeParse(saved)
+    if (!parsed.success) {
+      console.warn('[useOutbox] Ignoring an invalid saved outbox', parsed.error)
+      return []
+    }
+    return parsed.data
+  }
+
+  // Apply a change to the saved outbox, which another tab may have changed since this
+  // one last read it, and save the result.
+  function update(change: (saved: OutboxItem[]) => OutboxItem[]): void {
+    items.value = change(readSaved())
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(items.value))
+    } catch (e) {
+      console.warn('[useOutbox] Failed to persist the outbox', e)
+    }
+  }
+
+  // Load the outbox saved by earlier sessions or other tabs, dropping old sent items.
+  function restore(): void {
+    const now = Date.now()
+    update((saved) =>
+      saved.filter((item) => item.status !== 'sent' || now - (item.sentAt ?? 0) < SENT_RETENTION_MS))
+  }
+
+  // Pick up the changes another tab saved. A null key means it cleared the storage.
+  function handleStorageEvent(event: StorageEvent): void {
+    if (event.key === STORAGE_KEY || event.key === null) items.value = readSaved()
+  }
+
+  function updateItem(id: string, changes: Partial<OutboxItem>): void {
+    update((saved) => saved.map((item) => (item.id === id ? { ...item, ...changes } : item)))
+  }
+
+  // Run the task while holding the send lock shared by every tab. Without waiting, the
+  // task is skipped when another tab holds it. Without the Web Locks API it runs unguarded.
+  async function withSendLock(task: () => Promise<void>, waitForLock: boolean): Promise<void> {
+    if (typeof navigator === 'undefined' || !navigator.locks) return task()
+    await navigator.locks.request(SEND_LOCK_NAME, { ifAvailable: !waitForLock }, async (lock) => {
+      if (lock) await task()
+    })
+  }
+
+  // Send an item if it is still pending in the saved outbox; another tab may have sent
+  // or discarded it in the meantime.
+  async function sendIfPending(id: string): Promise<void> {
+    const item = readSaved().find((saved) => saved.id === id)
+    if (item?.status !== 'pending') return
+
+    sendingIds.add(id)
+    updateItem(id, { status: 'sending' })
+    const { error } = await attempt(() =>
+      $fetch(`${apiBaseUrl}${item.path}`, { method: 'POST', body: item.body }))
+    sendingIds.delete(id)
+
+    if (!error) {
+      updateItem(id, { status: 'sent', sentAt: Date.now(), lastError: undefined })
+      return
+    }
+
+    const attempts = item.attempts + 1
+    const isFinal = !isRetryable(error) || attempts >= MAX_ATTEMPTS
+    updateItem(id, {
+      status: isFinal ? 'failed' : 'pending',
+      attempts,
+      nextAttemptAt: Date.now() + getRetryDelay(attempts),
+      lastError: error.message
+    })
+  }
+
+  // Holding the send lock, no other tab has a request in flight, so an item left sending
+  // by another tab was interrupted, e.g. by closing it, and is sent again.
+  async function sendDueItems(): Promise<void> {
+    update((saved) => saved.map((item) =>
+      item.status === 'sending' && !sendingIds.has(item.id) ? { ...item, status: 'pending' as const } : item))
+
+    const now = Date.now()
+    const dueIds = items.value
+      .filter((item) => item.status === 'pending' && item.nextAttemptAt <= now)
+      .map((item) => item.id)
+    for (const id of dueIds) await sendIfPending(id)
+  }
+
+  // Send, in order, every pending item whose retry time has come. Waits while offline,
+  // and leaves the sending to another tab that is already at it.
+  async function processQueue(): Promise<void> {
+    if (isProcessing.value || !isOnline()) return
+    isProcessing.value = true
+
+    try {
+      await withSendLock(sendDueItems, false)
+    } finally {
+      isProcessing.value = false
+    }
+  }
+
+  // Store a contribution and try to send it right away.
+  // Returns the item as it stands after that first attempt.
+  async function enqueue(kind: OutboxKind, label: string, path: string, body: Record<string, unknown>): Promise<OutboxItem> {
+    const now = Date.now()
+    const item: OutboxItem = {
+      id: crypto.randomUUID(),
+      kind,
+      label,
+      path,
+      body,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      nextAttemptAt: now
+    }
+    update((saved) => [...saved, item])
+
+    if (isOnline()) await withSendLock(() => sendIfPending(item.id), true)
+    return items.value.find((queued) => queued.id === item.id) ?? item
+  }
+
+  // Give a failed item a fresh set of attempts, starting now.
+  async function retry(id: string): Promise<void> {
+    updateItem(id, { status: 'pending', attempts: 0, nextAttemptAt: Date.now() })
+    await processQueue()
+  }
+
+  function discard(id: string): void {
+    update((saved) => saved.filter((item) => item.id !== id))
+  }
+
+  return {
+    items,
+    unsentCount,
+    restore,
+    handleStorageEvent,
+    processQueue,
+    enqueue,
+    retry,
+    discard
+  }
+}
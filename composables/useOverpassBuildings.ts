@@ -0,0 +1,60 @@
+import type { z } from 'zod'
+import { overpassBuildingsSchema } from '@/shared/schemas/overpass.schema'
+import type { BoundingBox, BuildingFootprint } from '@/shared/types'
+
+export const OVERPASS_URL = 'https://overpass-api.de/api/interpreter'
+const OVERPASS_TIMEOUT_S = 90
+const METERS_PER_LEVEL = 3
+// Buildings mapped without height or levels are assumed to be a typical three-storey block
+const DEFAULT_HEIGHT_METERS = 10
+
+// OSM heights are strings such as "12", "12.5" or "12 m"
+function parseMeters(value: string | undefined): number | null {
+  if (!value) return null
+  const meters = Number.parseFloat(value)
+  return Number.isFinite(meters) && meters > 0 ? meters : null
+}
+
+function getBuildingHeight(tags: Record<string, string> = {}): number {
+  const height = parseMeters(tags.height)
+  if (height !== null) return height
+
+  const levels = parseMeters(tags['building:levels'])
+  return levels !== null ? levels * METERS_PER_LEVEL : DEFAULT_HEIGHT_METERS
+}
+
+// useOverpassBuildings composable
+// Loads building footprints with their heights from OpenStreetMap through the
+// Overpass API, for computing shadows on the device.
+export function useOverpassBuildings() {
+  function buildQuery(bbox: BoundingBox): string {
+    const box = `${bbox.south},${bbox.west},${bbox.north},${bbox.east}`
+    return `[out:json][timeout:${OVERPASS_TIMEOUT_S}];way["building"](${box});out tags geom;`
+  }
+
+  // Turn an Overpass response into footprints. Ways without a usable ring are skipped.
+  function toBuildingFootprints(response: z.infer<typeof overpassBuildingsSchema>): BuildingFootprint[] {
+    return response.elements
+      .filter((element) => element.type === 'way' && (element.geometry?.length ?? 0) >= 3)
+      .map((element) => ({
+        id: `way/${element.id}`,
+        footprint: element.geometry!.map((point) => ({ latitude: point.lat, longitude: point.lon })),
+        height: getBuildingHeight(element.tags)
+      }))
+  }
+
+  async function fetchBuildings(bbox: BoundingBox, signal?: AbortSignal): Promise<BuildingFootprint[]> {
+    const response = await $fetch<unknown>(OVERPASS_URL, {
+      method: 'POST',
+      body: new URLSearchParams({ data: buildQuery(bbox) }),
+      signal
+    })
+    return toBuildingFootprints(overpassBuildingsSchema.parse(response))
+  }
+
+  return {
+    buildQuery,
+    toBuildingFootprints,
+    fetchBuildings
+  }
+}
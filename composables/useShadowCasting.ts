@@ -0,0 +1,267 @@
+import type {
+  BuildingFootprint,
+  Coordinates,
+  SunlightStatusInfo,
+  SunPosition
+} from '@/shared/types'
+import { useSunlightStatus } from './useSunlightStatus'
+
+const METERS_PER_DEGREE = 111320
+
+// Venue points are sampled on a small ring as well as at the centre, which
+// absorbs geocoding error and the spread of a typical terrace.
+const SAMPLE_RADIUS_METERS = 3
+const SAMPLE_RING_SIZE = 8
+
+// Terrace polygons are sampled on a regular grid of at most this many points.
+const MAX_TERRACE_SAMPLES = 64
+
+// A sunlit fraction at or above SUNNY_THRESHOLD counts as sunny, at or below
+// SHADED_THRESHOLD as shaded, and anything in between as partially sunny.
+const SUNNY_THRESHOLD = 0.9
+const SHADED_THRESHOLD = 0.1
+
+type LocalPoint = { x: number; y: number }
+
+// --- Geometry utilities ---
+
+// Project coordinates onto a flat plane in meters around the given origin
+// (x = east, y = north). Accurate enough for the few hundred meters a shadow spans.
+function toLocalMeters(origin: Coordinates, coords: Coordinates): LocalPoint {
+  const cosLat = Math.cos((origin.latitude * Math.PI) / 180)
+  return {
+    x: (coords.longitude - origin.longitude) * METERS_PER_DEGREE * cosLat,
+    y: (coords.latitude - origin.latitude) * METERS_PER_DEGREE
+  }
+}
+
+// Unit vector pointing from the ground towards the sun.
+// SunCalc measures azimuth from south towards west, so the compass bearing is azimuth + π.
+function getSunDirection(position: SunPosition): LocalPoint {
+  const bearing = position.azimuth + Math.PI
+  return { x: Math.sin(bearing), y: Math.cos(bearing) }
+}
+
+// Distance along the ray (origin + t * direction) at which it crosses segment a–b, or null if it misses.
+function rayHitDistance(
+  origin: LocalPoint,
+  direction: LocalPoint,
+  a: LocalPoint,
+  b: LocalPoint
+): number | null {
+  const edge = { x: b.x - a.x, y: b.y - a.y }
+  const denominator = direction.x * edge.y - direction.y * edge.x
+  if (denominator === 0) return null
+
+  const toA = { x: a.x - origin.x, y: a.y - origin.y }
+  const t = (toA.x * edge.y - toA.y * edge.x) / denominator
+  const u = (toA.x * direction.y - toA.y * direction.x) / denominator
+
+  return t >= 0 && u >= 0 && u <= 1 ? t : null
+}
+
+// Ray-casting point-in-polygon test.
+function isInsidePolygon(point: LocalPoint, polygon: LocalPoint[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]!
+    const b = polygon[j]!
+    const crosses =
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    if (crosses) inside = !inside
+  }
+  return inside
+}
+
+// Offset coordinates by a number of meters east and north.
+function offsetCoordinates(coords: Coordinates, east: number, north: number): Coordinates {
+  const cosLat = Math.cos((coords.latitude * Math.PI) / 180)
+  return {
+    latitude: coords.latitude + north / METERS_PER_DEGREE,
+    longitude: coords.longitude + east / (METERS_PER_DEGREE * cosLat)
+  }
+}
+
+// --- Shadow casting ---
+
+// A footprint projected around a shared origin.
+type ProjectedBuilding = { polygon: LocalPoint[]; height: number }
+
+// Project the footprints around the origin once, keeping only the buildings whose shadow
+// can reach a point within `reach` meters of it: no farther than height / tan(altitude)
+// and not lying wholly on the side away from the sun.
+function projectBuildings(
+  origin: Coordinates,
+  buildings: BuildingFootprint[],
+  sunPosition: SunPosition,
+  reach: number = 0
+): ProjectedBuilding[] {
+  const direction = getSunDirection(sunPosition)
+  const tanAltitude = Math.tan(sunPosition.altitude)
+
+  return buildings.flatMap((building) => {
+    if (building.footprint.length < 3) return []
+    const polygon = building.footprint.map((c) => toLocalMeters(origin, c))
+    const xs = polygon.map((p) => p.x)
+    const ys = polygon.map((p) => p.y)
+    const min = { x: Math.min(...xs), y: Math.min(...ys) }
+    const max = { x: Math.max(...xs), y: Math.max(...ys) }
+
+    const distance = Math.hypot(Math.max(min.x, 0, -max.x), Math.max(min.y, 0, -max.y))
+    if (distance > building.height / tanAltitude + reach) return []
+
+    // Furthest the bounding box gets towards the sun
+    const towardsSun =
+      Math.max(min.x * direction.x, max.x * direction.x) + Math.max(min.y * direction.y, max.y * direction.y)
+    if (towardsSun < -reach) return []
+
+    return [{ polygon, height: building.height }]
+  })
+}
+
+// Return true if the point lies inside the building or in the shadow it casts.
+// A building shades the point when the ray towards the sun reaches its wall
+// before climbing above the roof line.
+function isShadedBy(
+  point: LocalPoint,
+  building: ProjectedBuilding,
+  direction: LocalPoint,
+  tanAltitude: number
+): boolean {
+  const { polygon } = building
+  if (isInsidePolygon(point, polygon)) return true
+
+  let nearestHit = Infinity
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const hit = rayHitDistance(point, direction, polygon[j]!, polygon[i]!)
+    if (hit !== null && hit < nearestHit) nearestHit = hit
+  }
+
+  return nearestHit !== Infinity && building.height > nearestHit * tanAltitude
+}
+
+// Return true if the point lies inside a building or in the shadow one casts.
+function isPointInShadow(
+  point: Coordinates,
+  buildings: BuildingFootprint[],
+  sunPosition: SunPosition
+): boolean {
+  if (sunPosition.altitude <= 0) return true
+
+  const origin: LocalPoint = { x: 0, y: 0 }
+  const direction = getSunDirection(sunPosition)
+  const tanAltitude = Math.tan(sunPosition.altitude)
+
+  return projectBuildings(point, buildings, sunPosition)
+    .some((building) => isShadedBy(origin, building, direction, tanAltitude))
+}
+
+// Sample points around the venue position: the centre plus a ring of SAMPLE_RING_SIZE points.
+function getSamplePoints(center: Coordinates): Coordinates[] {
+  const ring = Array.from({ length: SAMPLE_RING_SIZE }, (_, index) => {
+    const angle = (2 * Math.PI * index) / SAMPLE_RING_SIZE
+    return offsetCoordinates(
+      center,
+      Math.sin(angle) * SAMPLE_RADIUS_METERS,
+      Math.cos(angle) * SAMPLE_RADIUS_METERS
+    )
+  })
+  return [center, ...ring]
+}
+
+// Sample points covering a terrace polygon: a grid whose spacing adapts to the
+// polygon's size, falling back to the vertex centroid for slivers the grid misses.
+function getTerraceSamplePoints(terrace: Coordinates[]): Coordinates[] {
+  const centroid: Coordinates = {
+    latitude: terrace.reduce((sum, c) => sum + c.latitude, 0) / terrace.length,
+    longitude: terrace.reduce((sum, c) => sum + c.longitude, 0) / terrace.length
+  }
+  const polygon = terrace.map((c) => toLocalMeters(centroid, c))
+  const xs = polygon.map((p) => p.x)
+  const ys = polygon.map((p) => p.y)
+  const minX = Math.min(...xs)
+  const minY = Math.min(...ys)
+  const width = Math.max(...xs) - minX
+  const height = Math.max(...ys) - minY
+  const spacing = Math.max(Math.sqrt((width * height) / MAX_TERRACE_SAMPLES), 0.5)
+
+  const samples: Coordinates[] = []
+  for (let y = minY + spacing / 2; y < minY + height; y += spacing) {
+    for (let x = minX + spacing / 2; x < minX + width; x += spacing) {
+      if (isInsidePolygon({ x, y }, polygon)) samples.push(offsetCoordinates(centroid, x, y))
+    }
+  }
+  return samples.length > 0 ? samples : [centroid]
+}
+
+// Fraction (0–1) of the given sample points that are in direct sunlight.
+// The footprints are projected once around the first sample and shared by all of them.
+function getSunlitFraction(
+  samples: Coordinates[],
+  buildings: BuildingFootprint[],
+  sunPosition: SunPosition
+): number {
+  if (samples.length === 0 || sunPosition.altitude <= 0) return 0
+
+  const origin = samples[0]!
+  const points = samples.map((sample) => toLocalMeters(origin, sample))
+  const reach = Math.max(...points.map((p) => Math.hypot(p.x, p.y)))
+  const nearby = projectBuildings(origin, buildings, sunPosition, reach)
+  const direction = getSunDirection(sunPosition)
+  const tanAltitude = Math.tan(sunPosition.altitude)
+
+  const lit = points.filter((point) =>
+    !nearby.some((building) => isShadedBy(point, building, direction, tanAltitude)))
+  return lit.length / samples.length
+}
+
+// --- Composable ---
+
+// useShadowCasting composable
+// Computes venue sunlight status on the client from building footprints and the sun's position,
+// independent of the server's classification.
+export function useShadowCasting() {
+  const sunlightStatus = useSunlightStatus()
+
+  // Map a sunlit fraction onto a status. The confidence is how much of the sampled area agrees with it.
+  function statusFromSunlitFraction(fraction: number): SunlightStatusInfo {
+    if (fraction >= SUNNY_THRESHOLD) {
+      return sunlightStatus.createSunny(fraction, 'sunlight.description.directSunlight')
+    }
+    if (fraction <= SHADED_THRESHOLD) {
+      return sunlightStatus.createShaded(1 - fraction, 'sunlight.description.inBuildingShadow')
+    }
+    return sunlightStatus.createPartiallySunny(fraction, 'sunlight.description.partialShadow')
+  }
+
+  // Compute the sunlight status of a venue from the surrounding buildings.
+  // `horizonAltitude` is the terrain obstruction towards the sun in radians; a sun
+  // above 0° but below it is hidden by hills rather than set. When the venue has a
+  // terrace polygon the whole terrace is sampled instead of the ring around its point.
+  function computeSunlightStatus(
+    coordinates: Coordinates,
+    buildings: BuildingFootprint[],
+    sunPosition: SunPosition,
+    horizonAltitude: number = 0,
+    terrace?: Coordinates[]
+  ): SunlightStatusInfo {
+    if (sunPosition.altitude <= 0) return sunlightStatus.createNight()
+    if (sunPosition.altitude <= horizonAltitude) {
+      return sunlightStatus.createShaded(1, 'sunlight.description.behindTerrain')
+    }
+
+    const samples =
+      terrace && terrace.length >= 3 ? getTerraceSamplePoints(terrace) : getSamplePoints(coordinates)
+    const fraction = getSunlitFraction(samples, buildings, sunPosition)
+    return statusFromSunlitFraction(fraction)
+  }
+
+  return {
+    isPointInShadow,
+    getTerraceSamplePoints,
+    getSunlitFraction,
+    statusFromSunlitFraction,
+    computeSunlightStatus
+  }
+}
@@ -0,0 +1,66 @@
+import type { Coordinates, SolarRadiationEstimate, UvLevel } from '@/shared/types'
+import { useSunInfo } from './useSunInfo'
+
+const SOLAR_CONSTANT = 1353 // W/m² above the atmosphere
+const DIFFUSE_FACTOR = 1.1 // diffuse sky light adds roughly 10% to the direct beam
+// Clear-sky UV index with the sun at the zenith and average ozone.
+const MAX_UV_INDEX = 12.5
+
+// Lower bounds of the WHO UV index categories, highest first.
+const UV_LEVELS: Array<[number, UvLevel]> = [
+  [11, 'extreme'],
+  [8, 'veryHigh'],
+  [6, 'high'],
+  [3, 'moderate'],
+  [0, 'low']
+]
+
+// Relative optical path length through the atmosphere (Kasten & Young, 1989).
+function getAirMass(altitude: number): number {
+  const zenithDegrees = 90 - (altitude * 180) / Math.PI
+  return 1 / (Math.cos((zenithDegrees * Math.PI) / 180) + 0.50572 * (96.07995 - zenithDegrees) ** -1.6364)
+}
+
+// Clear-sky global horizontal irradiance in W/m² for a sun altitude in radians (Meinel model).
+function getClearSkyIrradiance(altitude: number): number {
+  if (altitude <= 0) return 0
+  const directNormal = SOLAR_CONSTANT * 0.7 ** (getAirMass(altitude) ** 0.678)
+  return DIFFUSE_FACTOR * directNormal * Math.sin(altitude)
+}
+
+// Clear-sky UV index for a sun altitude in radians, scaling with the cosine of the zenith angle.
+function getClearSkyUvIndex(altitude: number): number {
+  if (altitude <= 0) return 0
+  return MAX_UV_INDEX * Math.sin(altitude) ** 2.42
+}
+
+function getUvLevel(uvIndex: number): UvLevel {
+  return UV_LEVELS.find(([minimum]) => Math.round(uvIndex) >= minimum)?.[1] ?? 'low'
+}
+
+// useSolarRadiation composable
+// Estimates how strong the sun is, not just whether it shines: clear-sky irradiance
+// and UV index derived from the sun altitude. Clouds and shade are not taken into account.
+export function useSolarRadiation() {
+  const { getSunPosition } = useSunInfo()
+
+  // Estimate for a sun altitude in radians.
+  function estimateFromAltitude(altitude: number): SolarRadiationEstimate {
+    const uvIndex = getClearSkyUvIndex(altitude)
+    return {
+      irradiance: getClearSkyIrradiance(altitude),
+      uvIndex,
+      uvLevel: getUvLevel(uvIndex)
+    }
+  }
+
+  // Estimate for a location at the given time.
+  function estimateAt(coordinates: Coordinates, datetime: Date): SolarRadiationEstimate {
+    return estimateFromAltitude(getSunPosition(coordinates, datetime).altitude)
+  }
+
+  return {
+    estimateFromAltitude,
+    estimateAt
+  }
+}
@@ -0,0 +1,196 @@
+import { storeToRefs } from 'pinia'
+import { SunlightStatus } from '@/shared/enums'
+import { sunCheckInsSchema } from '@/shared/schemas/sun-check-in.schema'
+import type { SunCheckIn, SunlightStatusInfo, Venue } from '@/shared/types'
+import { useSunCheckInsStore } from '@/stores/sunCheckIns'
+import { useVenuesStore } from '@/stores/venues'
+import { attempt } from '@/utils/attempt'
+import { useCoordinates } from './useCoordinates'
+import { useGeolocation } from './useGeolocation'
+import { useOutbox } from './useOutbox'
+import { useSunlightStatus } from './useSunlightStatus'
+
+const STORAGE_KEY = 'sunbar_sun_check_ins'
+// Check-ins older than this say nothing about the light now
+export const CHECK_IN_WINDOW_MS = 60 * 60 * 1000
+// How far from now the shown time may be for a check-in to confirm or dispute it
+const CHECK_IN_TIME_TOLERANCE_MS = 15 * 60 * 1000
+// One check-in per venue in this interval from this device; the server has to enforce its own limit per user
+const CHECK_IN_COOLDOWN_MS = 15 * 60 * 1000
+// Check-ins count fully within NEAR_DISTANCE_M of the venue and not at all past FAR_DISTANCE_M
+const NEAR_DISTANCE_M = 100
+const FAR_DISTANCE_M = 1000
+const UNKNOWN_DISTANCE_WEIGHT = 0.3
+// Total check-in weight from which the crowd fully decides the confidence
+const FULL_EVIDENCE_WEIGHT = 3
+
+// useSunCheckIns composable
+// "Is it actually sunny here?" check-ins by users at a venue. They catch what the
+// geometry misses, like awnings, trees or scaffolding: recent check-ins near the venue
+// raise the confidence in its computed status when they agree and lower it when they don't.
+export function useSunCheckIns() {
+  const store = useSunCheckInsStore()
+  const { checkIns } = storeToRefs(store)
+  const venuesStore = useVenuesStore()
+  const outbox = useOutbox()
+  const coordinates = useCoordinates()
+  const geolocation = useGeolocation()
+  const sunlightStatus = useSunlightStatus()
+
+  // Read the check-ins saved by earlier sessions once, dropping the expired ones.
+  function ensureLoaded(): void {
+    if (store.isLoaded) return
+    store.isLoaded = true
+
+    let saved: unknown
+    try {
+      saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    } catch {
+      saved = []
+    }
+
+    const parsed = sunCheckInsSchema.safeParse(saved)
+    if (!parsed.success) {
+      console.warn('[useSunCheckIns] Ignoring invalid saved check-ins', parsed.error)
+      return
+    }
+    const now = Date.now()
+    checkIns.value = parsed.data.filter((checkIn) => now - checkIn.checkedInAt < CHECK_IN_WINDOW_MS)
+  }
+
+  function persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(checkIns.value))
+    } catch (e) {
+      console.warn('[useSunCheckIns] Failed to persist check-ins', e)
+    }
+  }
+
+  // Whether a datetime is close enough to now for users on site to check its status.
+  function isCheckInTime(datetime: Date, now = Date.now()): boolean {
+    return Math.abs(datetime.getTime() - now) <= CHECK_IN_TIME_TOLERANCE_MS
+  }
+
+  // Recent check-ins for a venue, from the API and from this device, newest first.
+  function getRecentCheckIns(venue: Venue, now = Date.now()): SunCheckIn[] {
+    ensureLoaded()
+    const ownCheckIns = checkIns.value.filter((checkIn) => checkIn.venueId === venue.id)
+    // The API may already list the user's own check-ins
+    const byId = new Map([...(venue.sunCheckIns ?? []), ...ownCheckIns].map((checkIn) => [checkIn.id, checkIn]))
+
+    return [...byId.values()]
+      .filter((checkIn) => now - checkIn.checkedInAt < CHECK_IN_WINDOW_MS)
+      .toSorted((a, b) => b.checkedInAt - a.checkedInAt)
+  }
+
+  // Whether the user may check in at the venue again.
+  function canCheckIn(venueId: string, now = Date.now()): boolean {
+    ensureLoaded()
+    return !checkIns.value.some((checkIn) =>
+      checkIn.venueId === venueId && now - checkIn.checkedInAt < CHECK_IN_COOLDOWN_MS)
+  }
+
+  // How much a check-in counts (0–1): less as it ages and as the user was further away.
+  function getCheckInWeight(checkIn: SunCheckIn, now: number): number {
+    const recency = Math.max(0, 1 - (now - checkIn.checkedInAt) / CHECK_IN_WINDOW_MS)
+    if (checkIn.distanceMeters === null) return recency * UNKNOWN_DISTANCE_WEIGHT
+
+    const proximity = Math.min(1, Math.max(0,
+      (FAR_DISTANCE_M - checkIn.distanceMeters) / (FAR_DISTANCE_M - NEAR_DISTANCE_M)))
+    return recency * proximity
+  }
+
+  // Blend the computed confidence with the share of weighted check-ins agreeing with
+  // the status. The more evidence, the more the check-ins decide. Night and unknown
+  // statuses are left as they are.
+  function adjustForCheckIns(
+    status: SunlightStatusInfo,
+    recentCheckIns: SunCheckIn[],
+    now = Date.now()
+  ): SunlightStatusInfo {
+    if (status.status === SunlightStatus.NIGHT || status.status === SunlightStatus.UNKNOWN) return status
+
+    const isSunny = sunlightStatus.isSunny(status)
+    let agreeing = 0
+    let total = 0
+    recentCheckIns.forEach((checkIn) => {
+      const weight = getCheckInWeight(checkIn, now)
+      total += weight
+      if ((checkIn.reportedStatus === SunlightStatus.SUNNY) === isSunny) agreeing += weight
+    })
+    if (total === 0) return status
+
+    const strength = Math.min(1, total / FULL_EVIDENCE_WEIGHT)
+    const confidence = status.confidence * (1 - strength) + (agreeing / total) * strength
+    return sunlightStatus.create(status.status, confidence, status.reason)
+  }
+
+  // Adjust the status of the venue in the store again, now with the user's new check-in.
+  // Venues whose status was not adjusted for check-ins, being for another time than
+  // about now, are left as they are.
+  function readjustStoredVenue(venueId: string): void {
+    const storedVenue = venuesStore.venues.find((venueItem) => venueItem.id === venueId)
+    if (!storedVenue?.modelSunlightStatus) return
+
+    venuesStore.addVenue({
+      ...storedVenue,
+      sunlightStatus: adjustForCheckIns(storedVenue.modelSunlightStatus, getRecentCheckIns(storedVenue))
+    })
+  }
+
+  // Confirm (agrees) or dispute the venue's current status. The distance to the venue is
+  // taken from the user's location when available. Null when the server rejects the check-in.
+  async function checkIn(venue: Venue, agrees: boolean): Promise<SunCheckIn | null> {
+    ensureLoaded()
+    // The status the model computed, so earlier check-ins do not decide what this one reports
+    const modelStatus = venue.modelSunlightStatus ?? venue.sunlightStatus
+    const isSunny = modelStatus ? sunlightStatus.isSunny(modelStatus) : false
+
+    const { data: position } = await attempt(() => geolocation.getCurrentPosition())
+    const distanceMeters = position
+      ? Math.round(coordinates.calculateDistance(
+        { latitude: position.coords.latitude, longitude: position.coords.longitude },
+        venue.coordinates
+      ))
+      : null
+
+    const newCheckIn: SunCheckIn = {
+      id: crypto.randomUUID(),
+      venueId: venue.id,
+      reportedStatus: isSunny === agrees ? SunlightStatus.SUNNY : SunlightStatus.SHADED,
+      checkedInAt: Date.now(),
+      distanceMeters
+    }
+
+    const item = await outbox.enqueue(
+      'sun-check-in',
+      venue.name,
+      `/api/venues/${encodeURIComponent(venue.id)}/check-ins`,
+      {
+        checkIn: {
+          id: newCheckIn.id,
+          reportedStatus: newCheckIn.reportedStatus === SunlightStatus.SUNNY ? 'sunny' : 'shaded',
+          checkedInAt: new Date(newCheckIn.checkedInAt).toISOString(),
+          distanceMeters
+        }
+      }
+    )
+    if (item.status === 'failed') {
+      outbox.discard(item.id)
+      return null
+    }
+
+    checkIns.value = [...checkIns.value, newCheckIn]
+    persist()
+    readjustStoredVenue(venue.id)
+    return newCheckIn
+  }
+
+  return {
+    isCheckInTime,
+    getRecentCheckIns,
+    canCheckIn,
+    adjustForCheckIns,
+    checkIn
+  }
+}
@@ -0,0 +1,181 @@
+import type {
+  BoundingBox,
+  BuildingFootprint,
+  Coordinates,
+  SunHeatmapGrid,
+  SunHeatmapMetric,
+  SunPosition
+} from '@/shared/types'
+import { useHorizonStore } from '@/stores/horizon'
+import { useWeatherStore } from '@/stores/weather'
+import { useHorizonProfile } from './useHorizonProfile'
+import { useShadowCasting } from './useShadowCasting'
+import { useSunInfo } from './useSunInfo'
+import { useSunlightStatus } from './useSunlightStatus'
+import { useWeather } from './useWeather'
+
+// Target number of cells; the grid keeps the aspect ratio of the bounds.
+const TARGET_CELLS = 400
+const MAX_CELLS_PER_SIDE = 32
+
+const NEXT_HOURS = 2
+const NEXT_HOURS_STEP_MINUTES = 15
+const DAY_STEP_MINUTES = 30
+
+// Grids kept per composable instance, enough to pan back and forth or replay a short time-lapse
+const MAX_CACHED_GRIDS = 8
+
+const NO_BUILDINGS: BuildingFootprint[] = []
+
+type TimeSample = { datetime: Date; position: SunPosition; clearSky: number }
+
+// Split the bounds into rows × columns cells of roughly equal ground size.
+function getGridSize(bounds: BoundingBox): { rows: number; columns: number } {
+  const midLatitude = (bounds.north + bounds.south) / 2
+  const width = (bounds.east - bounds.west) * Math.cos((midLatitude * Math.PI) / 180)
+  const height = bounds.north - bounds.south
+  const aspect = width > 0 && height > 0 ? width / height : 1
+
+  const rows = Math.round(Math.sqrt(TARGET_CELLS / aspect))
+  const columns = Math.round(rows * aspect)
+  return {
+    rows: Math.min(Math.max(rows, 1), MAX_CELLS_PER_SIDE),
+    columns: Math.min(Math.max(columns, 1), MAX_CELLS_PER_SIDE)
+  }
+}
+
+function getCellCenter(bounds: BoundingBox, rows: number, columns: number, row: number, column: number): Coordinates {
+  return {
+    latitude: bounds.north - ((row + 0.5) * (bounds.north - bounds.south)) / rows,
+    longitude: bounds.west + ((column + 0.5) * (bounds.east - bounds.west)) / columns
+  }
+}
+
+// useSunHeatmap composable
+// Samples sun exposure over the visible map so open squares and streets show up,
+// not only the venues we already know about. Each cell centre is checked against the
+// building shadows and the terrain horizon at a series of moments, weighted by the
+// forecast clear sky.
+export function useSunHeatmap() {
+  const { getSunPosition, getSunTimes } = useSunInfo()
+  const { isPointInShadow } = useShadowCasting()
+  const { getHorizonAltitude } = useHorizonProfile()
+  const { adjustForWeather } = useWeather()
+  const { createSunny, isOvercast } = useSunlightStatus()
+  const weatherStore = useWeatherStore()
+  const horizonStore = useHorizonStore()
+
+  // Built grids by view and sampling period, valid for the buildings, forecast and terrain
+  // they were built with. Any of those changing clears the cache.
+  const cache = new Map<string, SunHeatmapGrid>()
+  let cacheInputs: unknown[] = []
+
+  function getCachedGrid(key: string, inputs: unknown[]): SunHeatmapGrid | undefined {
+    if (inputs.some((input, index) => input !== cacheInputs[index])) {
+      cache.clear()
+      cacheInputs = inputs
+    }
+    return cache.get(key)
+  }
+
+  function cacheGrid(key: string, grid: SunHeatmapGrid): void {
+    const oldestKey = cache.keys().next().value
+    if (cache.size >= MAX_CACHED_GRIDS && oldestKey !== undefined) cache.delete(oldestKey)
+    cache.set(key, grid)
+  }
+
+  // Moments to sample and the length of the period they cover. The next-hours metric
+  // starts at the sampling step the given time falls in, so the grid stays the same within
+  // a step; the day metric runs from sunrise to sunset.
+  function getSamplingPeriod(
+    center: Coordinates,
+    datetime: Date,
+    metric: SunHeatmapMetric
+  ): { start: Date; end: Date; stepMinutes: number } {
+    if (metric === 'next-hours') {
+      const stepMs = NEXT_HOURS_STEP_MINUTES * 60 * 1000
+      const start = new Date(Math.floor(datetime.getTime() / stepMs) * stepMs)
+      return {
+        start,
+        end: new Date(start.getTime() + NEXT_HOURS * 60 * 60 * 1000),
+        stepMinutes: NEXT_HOURS_STEP_MINUTES
+      }
+    }
+    const { sunrise, sunset } = getSunTimes(center, datetime)
+    return { start: sunrise, end: sunset, stepMinutes: DAY_STEP_MINUTES }
+  }
+
+  // The sun's direction barely changes across a map view, so each moment uses the
+  // position at the centre of the bounds for every cell.
+  function getTimeSamples(center: Coordinates, start: Date, end: Date, stepMinutes: number): TimeSample[] {
+    const stepMs = stepMinutes * 60 * 1000
+    const samples: TimeSample[] = []
+    for (let time = start.getTime() + stepMs / 2; time < end.getTime(); time += stepMs) {
+      const datetime = new Date(time)
+      const weather = adjustForWeather(createSunny(1), datetime)
+      samples.push({
+        datetime,
+        position: getSunPosition(center, datetime),
+        clearSky: isOvercast(weather) ? 0 : weather.confidence
+      })
+    }
+    return samples
+  }
+
+  // Share (0–1) of the time samples during which a point is in direct sun.
+  function getExposure(point: Coordinates, samples: TimeSample[], buildings: BuildingFootprint[]): number {
+    if (samples.length === 0) return 0
+    let exposure = 0
+    for (const { position, clearSky } of samples) {
+      if (clearSky === 0 || position.altitude <= 0) continue
+      if (position.altitude <= getHorizonAltitude(point, position)) continue
+      if (!isPointInShadow(point, buildings, position)) exposure += clearSky
+    }
+    return exposure / samples.length
+  }
+
+  // Build the heatmap grid for the bounds at the given time, or reuse the one built for
+  // the same view and sampling period.
+  function buildHeatmap(
+    bounds: BoundingBox,
+    datetime: Date,
+    metric: SunHeatmapMetric,
+    buildings: BuildingFootprint[] = NO_BUILDINGS
+  ): SunHeatmapGrid {
+    const center: Coordinates = {
+      latitude: (bounds.north + bounds.south) / 2,
+      longitude: (bounds.east + bounds.west) / 2
+    }
+    const { start, end, stepMinutes } = getSamplingPeriod(center, datetime, metric)
+
+    const key = [bounds.south, bounds.west, bounds.north, bounds.east, metric, start.getTime()].join('|')
+    const cached = getCachedGrid(key, [buildings, weatherStore.forecast, horizonStore.demTile])
+    if (cached) return cached
+
+    const { rows, columns } = getGridSize(bounds)
+    const samples = getTimeSamples(center, start, end, stepMinutes)
+
+    const values: number[] = []
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        values.push(getExposure(getCellCenter(bounds, rows, columns, row, column), samples, buildings))
+      }
+    }
+
+    const grid: SunHeatmapGrid = {
+      metric,
+      bounds,
+      rows,
+      columns,
+      values,
+      // Polar day and night have no sunrise or sunset, which leaves the period empty
+      periodHours: Math.max(end.getTime() - start.getTime(), 0) / (60 * 60 * 1000) || 0
+    }
+    cacheGrid(key, grid)
+    return grid
+  }
+
+  return {
+    buildHeatmap
+  }
+}
@@ -3,6 +3,7 @@ import { storeToRefs } from 'pinia'
 import type { Coordinates, SunPosition } from '@/shared/types'
 import { useSunInfoStore } from '@/stores/sunInfo'
 import { useCoordinates } from './useCoordinates'
+import { useHorizonProfile } from './useHorizonProfile'
 
 // --- Sun position utilities ---
 
@@ -38,14 +39,12 @@ function getSunTimes(coordinates: Coordinates, date: Date) {
     sunrise: times.sunrise,
     sunset: times.sunset,
     solarNoon: times.solarNoon,
-    goldenHour: times.goldenHour
+    goldenHour: times.goldenHour,
+    dawn: times.dawn,
+    dusk: times.dusk
   }
 }
 
-function isDaytime(coordinates: Coordinates, datetime: Date): boolean {
-  return isAboveHorizon(getSunPosition(coordinates, datetime))
-}
-
 // --- Composable ---
 
 // useSunInfo composable
@@ -54,6 +53,14 @@ export function useSunInfo() {
   const store = useSunInfoStore()
   const { sunInfo, selectedDateTime, currentLocation } = storeToRefs(store)
   const coordinates = useCoordinates()
+  const horizon = useHorizonProfile()
+
+  // Daytime means the sun is above the effective horizon, so a sun hidden behind
+  // hills counts as set even though it is still above 0°.
+  function isDaytime(coords: Coordinates, datetime: Date): boolean {
+    const position = getSunPosition(coords, datetime)
+    return position.altitude > horizon.getHorizonAltitude(coords, position)
+  }
 
   function updateSunInfo(latitude: number, longitude: number, date?: Date): void {
     try {
@@ -95,6 +102,8 @@ export function useSunInfo() {
     currentLocation,
     updateSunInfo,
     setDateTime,
+    getSunPosition,
+    getSunTimes,
     isDaytime
   }
 }
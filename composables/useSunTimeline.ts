@@ -0,0 +1,159 @@
+import { SunlightStatus } from '@/shared/enums'
+import type {
+  BuildingFootprint,
+  Coordinates,
+  SunlightInterval,
+  TimeWindow,
+  Venue
+} from '@/shared/types'
+import { useHorizonProfile } from './useHorizonProfile'
+import { useOpeningHours } from './useOpeningHours'
+import { useShadowCasting } from './useShadowCasting'
+import { useSunInfo } from './useSunInfo'
+import { useWeather } from './useWeather'
+
+const DEFAULT_STEP_MINUTES = 5
+
+function isValidDate(date: Date): boolean {
+  return !Number.isNaN(date.getTime())
+}
+
+function isSunnyStatus(status: SunlightStatus): boolean {
+  return status === SunlightStatus.SUNNY || status === SunlightStatus.PARTIALLY_SUNNY
+}
+
+// Move the night/day boundaries onto the exact sunrise and sunset times so the
+// timeline is not off by up to one sampling step at either end.
+function snapToSunTimes(intervals: SunlightInterval[], sunrise: Date, sunset: Date): void {
+  for (let i = 1; i < intervals.length; i++) {
+    const previous = intervals[i - 1]!
+    const current = intervals[i]!
+    const isDawn = previous.status === SunlightStatus.NIGHT && current.status !== SunlightStatus.NIGHT
+    const isDusk = previous.status !== SunlightStatus.NIGHT && current.status === SunlightStatus.NIGHT
+    const boundary = isDawn ? sunrise : isDusk ? sunset : null
+
+    if (
+      boundary &&
+      isValidDate(boundary) &&
+      boundary > previous.start &&
+      boundary < current.end
+    ) {
+      previous.end = boundary
+      current.start = boundary
+    }
+  }
+}
+
+// useSunTimeline composable
+// Samples a location across a whole day and groups the results into sunlight intervals,
+// so the UI can say "sunny from 14:10 until 17:45" instead of only describing one moment.
+export function useSunTimeline() {
+  const { getSunPosition, getSunTimes } = useSunInfo()
+  const { computeSunlightStatus } = useShadowCasting()
+  const { isOpenAt } = useOpeningHours()
+  const { adjustForWeather } = useWeather()
+  const { getHorizonAltitude } = useHorizonProfile()
+
+  // Without building footprints the shadows are unknown, so daylight is UNKNOWN rather than
+  // assumed sunny. Online the store never has footprints; only downloaded regions do.
+  function getStatusAt(
+    coordinates: Coordinates,
+    buildings: BuildingFootprint[],
+    datetime: Date,
+    terrace?: Coordinates[]
+  ): SunlightStatus {
+    const position = getSunPosition(coordinates, datetime)
+    if (buildings.length === 0) {
+      return position.altitude > 0 ? SunlightStatus.UNKNOWN : SunlightStatus.NIGHT
+    }
+    return adjustForWeather(
+      computeSunlightStatus(coordinates, buildings, position, getHorizonAltitude(coordinates, position), terrace),
+      datetime
+    ).status
+  }
+
+  // Build the sunlight intervals covering the local calendar day of `date`.
+  // Without building data the daylight is a single UNKNOWN interval from sunrise to sunset.
+  // Pass the venue's terrace polygon to sample the whole terrace rather than its point.
+  function getDayTimeline(
+    coordinates: Coordinates,
+    date: Date,
+    buildings: BuildingFootprint[] = [],
+    terrace?: Coordinates[],
+    stepMinutes: number = DEFAULT_STEP_MINUTES
+  ): SunlightInterval[] {
+    const dayStart = new Date(date)
+    dayStart.setHours(0, 0, 0, 0)
+    const dayEnd = new Date(dayStart)
+    dayEnd.setDate(dayEnd.getDate() + 1)
+
+    const stepMs = stepMinutes * 60 * 1000
+    const intervals: SunlightInterval[] = []
+
+    for (let time = dayStart.getTime(); time < dayEnd.getTime(); time += stepMs) {
+      const start = new Date(time)
+      const end = new Date(Math.min(time + stepMs, dayEnd.getTime()))
+      const status = getStatusAt(coordinates, buildings, start, terrace)
+
+      const last = intervals.at(-1)
+      if (last?.status === status) {
+        last.end = end
+      } else {
+        intervals.push({ status, start, end })
+      }
+    }
+
+    const { sunrise, sunset } = getSunTimes(coordinates, date)
+    snapToSunTimes(intervals, sunrise, sunset)
+
+    return intervals
+  }
+
+  // Return only the intervals with direct or partial sunlight.
+  function getSunnyWindows(intervals: SunlightInterval[]): SunlightInterval[] {
+    return intervals.filter((interval) => isSunnyStatus(interval.status))
+  }
+
+  // Sub-intervals of the window during which the venue is sunny and not known to be closed.
+  // Each sample is checked against both the sun and the opening hours, so the result is
+  // split wherever either of them changes. Without building data nothing is known to be sunny.
+  function getOpenSunnyIntervals(
+    venue: Venue,
+    window: TimeWindow,
+    buildings: BuildingFootprint[] = [],
+    stepMinutes: number = DEFAULT_STEP_MINUTES
+  ): SunlightInterval[] {
+    const stepMs = stepMinutes * 60 * 1000
+    const windowEnd = window.end.getTime()
+    const intervals: SunlightInterval[] = []
+
+    for (let time = window.start.getTime(); time < windowEnd; time += stepMs) {
+      const start = new Date(time)
+      const end = new Date(Math.min(time + stepMs, windowEnd))
+      const status = getStatusAt(venue.coordinates, buildings, start, venue.terrace)
+      if (!isSunnyStatus(status)) continue
+      if (isOpenAt(venue.openingHours, start, { coordinates: venue.coordinates }) === false) continue
+
+      const last = intervals.at(-1)
+      if (last?.status === status && last.end.getTime() === time) {
+        last.end = end
+      } else {
+        intervals.push({ status, start, end })
+      }
+    }
+
+    return intervals
+  }
+
+  // Find the interval that contains the given moment.
+  function getIntervalAt(intervals: SunlightInterval[], datetime: Date): SunlightInterval | null {
+    return intervals.find((interval) => interval.start <= datetime && datetime < interval.end) ?? null
+  }
+
+  return {
+    getDayTimeline,
+    getSunnyWindows,
+    getOpenSunnyIntervals,
+    getIntervalAt
+  }
+}
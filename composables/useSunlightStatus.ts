@@ -1,6 +1,9 @@
 import { SunlightStatus } from '@/shared/enums'
 import type { SunlightStatusInfo } from '@/shared/types'
 
+// Cloud cover (0–1) from which direct sunlight is unlikely and sunny statuses become overcast.
+const OVERCAST_CLOUD_COVER = 0.85
+
 // useSunlightStatus composable
 // Provides utility functions for creating and checking sunlight status values.
 export function useSunlightStatus() {
@@ -43,6 +46,14 @@ export function useSunlightStatus() {
     return create(SunlightStatus.NIGHT, 1, 'Sun is below the horizon')
   }
 
+  // Create an overcast status object (the sun is up but hidden by clouds).
+  function createOvercast(
+    confidence: number = 1,
+    reason: string = 'sunlight.description.overcast'
+  ): SunlightStatusInfo {
+    return create(SunlightStatus.OVERCAST, confidence, reason)
+  }
+
   // Create an unknown status object.
   function createUnknown(reason?: string): SunlightStatusInfo {
     return create(
@@ -65,6 +76,20 @@ export function useSunlightStatus() {
     return status.status === SunlightStatus.SHADED
   }
 
+  // Return true if the status is overcast.
+  function isOvercast(status: SunlightStatusInfo): boolean {
+    return status.status === SunlightStatus.OVERCAST
+  }
+
+  // Adjust a geometric status for the forecast cloud cover (0–1). Sunny statuses lose
+  // confidence in proportion to the cloud cover and become overcast under heavy cloud;
+  // shade and night are not affected.
+  function applyCloudCover(status: SunlightStatusInfo, cloudCover: number): SunlightStatusInfo {
+    if (!isSunny(status)) return status
+    if (cloudCover >= OVERCAST_CLOUD_COVER) return createOvercast(cloudCover)
+    return create(status.status, status.confidence * (1 - cloudCover), status.reason)
+  }
+
   // Return true if the status is night.
   function isNight(status: SunlightStatusInfo): boolean {
     return status.status === SunlightStatus.NIGHT
@@ -76,9 +101,12 @@ export function useSunlightStatus() {
     createShaded,
     createPartiallySunny,
     createNight,
+    createOvercast,
     createUnknown,
+    applyCloudCover,
     isSunny,
     isShaded,
+    isOvercast,
     isNight
   }
 }
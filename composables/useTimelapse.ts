@@ -0,0 +1,87 @@
+import { onScopeDispose, ref } from 'vue'
+
+const FRAME_INTERVAL_MS = 200
+
+// Simulated minutes that pass per real second of playback.
+export const PLAYBACK_SPEEDS = [30, 60, 120] as const
+export type PlaybackSpeed = (typeof PLAYBACK_SPEEDS)[number]
+
+type TimelapseOptions = {
+  // Daylight range to play through, or null while sun times are not known yet.
+  getRange: () => { start: Date; end: Date } | null
+  // Current selected time, used as the starting point when it lies inside the range.
+  getCurrent: () => Date
+  // Called for every frame with the new time.
+  onFrame: (datetime: Date) => void
+}
+
+// useTimelapse composable
+// Animates a datetime from sunrise to sunset at a chosen speed. It only drives the
+// clock: what happens on each frame is left to the onFrame callback.
+export function useTimelapse(options: TimelapseOptions) {
+  const isPlaying = ref(false)
+  const speed = ref<PlaybackSpeed>(PLAYBACK_SPEEDS[1])
+
+  let frameTimer: ReturnType<typeof setInterval> | null = null
+  let current: Date | null = null
+
+  function tick(): void {
+    const range = options.getRange()
+    if (!range || !current) {
+      pause()
+      return
+    }
+
+    const stepMs = (speed.value * 60 * 1000 * FRAME_INTERVAL_MS) / 1000
+    const next = new Date(Math.min(current.getTime() + stepMs, range.end.getTime()))
+    current = next
+    options.onFrame(next)
+
+    if (next.getTime() >= range.end.getTime()) pause()
+  }
+
+  // Start playback from the current time, or from sunrise if the current time is outside daylight.
+  function play(): void {
+    const range = options.getRange()
+    if (!range || isPlaying.value) return
+
+    const selected = options.getCurrent()
+    const isInsideRange = selected >= range.start && selected < range.end
+    current = isInsideRange ? selected : range.start
+    if (!isInsideRange) options.onFrame(current)
+
+    isPlaying.value = true
+    frameTimer = setInterval(tick, FRAME_INTERVAL_MS)
+  }
+
+  function pause(): void {
+    if (frameTimer) {
+      clearInterval(frameTimer)
+      frameTimer = null
+    }
+    isPlaying.value = false
+  }
+
+  function toggle(): void {
+    if (isPlaying.value) {
+      pause()
+    } else {
+      play()
+    }
+  }
+
+  function setSpeed(newSpeed: PlaybackSpeed): void {
+    speed.value = newSpeed
+  }
+
+  onScopeDispose(pause)
+
+  return {
+    isPlaying,
+    speed,
+    play,
+    pause,
+    toggle,
+    setSpeed
+  }
+}
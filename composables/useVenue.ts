@@ -4,7 +4,7 @@ import { useSunlightStatus } from './useSunlightStatus'
 // useVenue composable
 // Provides utility functions for working with individual venues.
 export function useVenue() {
-  const { isSunny: isSunlightSunny } = useSunlightStatus()
+  const { isSunny: isSunlightSunny, isOvercast: isSunlightOvercast } = useSunlightStatus()
 
   // Create a venue object, throwing if required fields are missing.
   function create(props: Venue): Venue {
@@ -22,6 +22,11 @@ export function useVenue() {
     return venue.sunlightStatus ? isSunlightSunny(venue.sunlightStatus) : false
   }
 
+  // Return true if the venue is in daylight but under heavy cloud.
+  function isOvercast(venue: Venue): boolean {
+    return venue.sunlightStatus ? isSunlightOvercast(venue.sunlightStatus) : false
+  }
+
   // Return true if the venue has outdoor seating.
   function hasOutdoorSeating(venue: Venue): boolean {
     return venue.outdoor_seating === true
@@ -35,6 +40,7 @@ export function useVenue() {
   return {
     create,
     isSunny,
+    isOvercast,
     hasOutdoorSeating,
     withSunlightStatus
   }
@@ -0,0 +1,94 @@
+import { storeToRefs } from 'pinia'
+import type { VenueReportInput } from '@/shared/schemas/venue.schema'
+import { venueReportHistorySchema } from '@/shared/schemas/venue-report.schema'
+import type { OutboxItem, Venue, VenueReportRecord } from '@/shared/types'
+import { useVenueReportsStore } from '@/stores/venueReports'
+import { useOutbox } from './useOutbox'
+
+const STORAGE_KEY = 'sunbar_venue_reports'
+// Oldest reports are dropped past this many
+const MAX_HISTORY = 100
+
+// useVenueReports composable
+// Reports about existing venues: wrong location, closed for good, no terrace or
+// wrong sunlight status. Reports go through the outbox, so they survive being
+// offline, and each one is kept in a local history the user can look back on.
+export function useVenueReports() {
+  const store = useVenueReportsStore()
+  const { reports } = storeToRefs(store)
+  const outbox = useOutbox()
+
+  // Read the history saved by earlier sessions, once.
+  function ensureLoaded(): void {
+    if (store.isLoaded) return
+    store.isLoaded = true
+
+    let saved: unknown
+    try {
+      saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    } catch {
+      saved = []
+    }
+
+    const parsed = venueReportHistorySchema.safeParse(saved)
+    if (!parsed.success) {
+      console.warn('[useVenueReports] Ignoring an invalid report history', parsed.error)
+      return
+    }
+    reports.value = parsed.data
+  }
+
+  function persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(reports.value))
+    } catch (e) {
+      console.warn('[useVenueReports] Failed to persist the report history', e)
+    }
+  }
+
+  // The user's reports about a venue, newest first. The history is kept in the order it was made.
+  function getReports(venueId: string): VenueReportRecord[] {
+    ensureLoaded()
+    return reports.value.filter((report) => report.venueId === venueId).toReversed()
+  }
+
+  // Delivery status of a report, while the outbox still lists it.
+  function getStatus(report: VenueReportRecord): OutboxItem['status'] | null {
+    return outbox.items.value.find((item) => item.id === report.id)?.status ?? null
+  }
+
+  // Send a report through the outbox. A report the server rejects is dropped
+  // from the outbox and left out of the history; the caller tells the user.
+  async function submit(venue: Venue, report: VenueReportInput): Promise<OutboxItem> {
+    ensureLoaded()
+
+    const item = await outbox.enqueue(
+      'report-venue',
+      venue.name,
+      `/api/venues/${encodeURIComponent(venue.id)}/reports`,
+      { report }
+    )
+    if (item.status === 'failed') {
+      outbox.discard(item.id)
+      return item
+    }
+
+    const record: VenueReportRecord = {
+      id: item.id,
+      venueId: venue.id,
+      venueName: venue.name,
+      issue: report.issue,
+      createdAt: item.createdAt
+    }
+    reports.value = [...reports.value, record].slice(-MAX_HISTORY)
+    persist()
+    return item
+  }
+
+  return {
+    reports,
+    getReports,
+    getStatus,
+    submit
+  }
+}
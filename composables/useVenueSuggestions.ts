@@ -0,0 +1,110 @@
+import type { z } from 'zod'
+import type { CreateVenueInput } from '@/shared/schemas/venue.schema'
+import { overpassPlacesSchema } from '@/shared/schemas/overpass.schema'
+import type { Coordinates } from '@/shared/types'
+import { useCoordinates } from './useCoordinates'
+import { useNominatimSearch } from './useNominatimSearch'
+import { OVERPASS_URL } from './useOverpassBuildings'
+
+// POIs further from the pin than this are not offered
+const NEARBY_RADIUS_M = 60
+const MAX_PLACES = 5
+
+// OSM amenity values that map onto the venue types of the create form
+const AMENITY_TO_VENUE_TYPE: Record<string, CreateVenueInput['venueType']> = {
+  bar: 'bar',
+  biergarten: 'bar',
+  pub: 'pub',
+  cafe: 'cafe',
+  restaurant: 'restaurant',
+  nightclub: 'nightclub'
+}
+
+export type VenueAddress = NonNullable<CreateVenueInput['address']>;
+
+// A named OSM POI near the pin, offered as a starting point for the form.
+export type PlaceSuggestion = {
+  id: string;
+  name: string;
+  venueType: CreateVenueInput['venueType'];
+  coordinates: Coordinates;
+  distanceMeters: number;
+};
+
+// useVenueSuggestions composable
+// Fills in what OpenStreetMap already knows about a dropped pin: the structured
+// address from the server's reverse geocoding and the named bars, cafés and
+// restaurants around it from Overpass, looked up like the buildings in useOverpassBuildings.
+export function useVenueSuggestions() {
+  const coordinates = useCoordinates()
+  const nominatim = useNominatimSearch()
+
+  // Form address fields from a Nominatim address. Null when none is known.
+  function toVenueAddress(address: Record<string, string>): VenueAddress | null {
+    const road = address.road ?? address.pedestrian ?? address.square
+    const venueAddress: VenueAddress = {
+      street: road ? [road, address.house_number].filter(Boolean).join(' ') : undefined,
+      city: address.city ?? address.town ?? address.village,
+      postalCode: address.postcode,
+      country: address.country
+    }
+    return Object.values(venueAddress).some(Boolean) ? venueAddress : null
+  }
+
+  // Named POIs of a known venue type, closest first.
+  function toPlaceSuggestions(
+    response: z.infer<typeof overpassPlacesSchema>,
+    location: Coordinates
+  ): PlaceSuggestion[] {
+    return response.elements
+      .flatMap((element) => {
+        const point = element.center ?? (element.lat !== undefined && element.lon !== undefined
+          ? { lat: element.lat, lon: element.lon }
+          : null)
+        const name = element.tags?.name
+        const venueType = AMENITY_TO_VENUE_TYPE[element.tags?.amenity ?? '']
+        if (!point || !name || !venueType) return []
+
+        const placeCoordinates = { latitude: point.lat, longitude: point.lon }
+        return [{
+          id: `${element.type}/${element.id}`,
+          name,
+          venueType,
+          coordinates: placeCoordinates,
+          distanceMeters: coordinates.calculateDistance(location, placeCoordinates)
+        }]
+      })
+      .toSorted((a, b) => a.distanceMeters - b.distanceMeters)
+      .slice(0, MAX_PLACES)
+  }
+
+  // The form address of the pin. Null when none is known or the lookup fails.
+  async function lookupAddress(location: Coordinates, language: string, signal?: AbortSignal): Promise<VenueAddress | null> {
+    const result = await nominatim.reverseGeocode(location.latitude, location.longitude, {
+      addressDetails: true,
+      language,
+      signal
+    })
+    return result?.details ? toVenueAddress(result.details) : null
+  }
+
+  async function findNearbyPlaces(location: Coordinates, signal?: AbortSignal): Promise<PlaceSuggestion[]> {
+    const amenities = Object.keys(AMENITY_TO_VENUE_TYPE).join('|')
+    const around = `around:${NEARBY_RADIUS_M},${location.latitude},${location.longitude}`
+    const query = `[out:json][timeout:25];nwr["amenity"~"^(${amenities})$"]["name"](${around});out center tags;`
+
+    const response = await $fetch<unknown>(OVERPASS_URL, {
+      method: 'POST',
+      body: new URLSearchParams({ data: query }),
+      signal
+    })
+    return toPlaceSuggestions(overpassPlacesSchema.parse(response), location)
+  }
+
+  return {
+    toVenueAddress,
+    toPlaceSuggestions,
+    lookupAddress,
+    findNearbyPlaces
+  }
+}
@@ -3,24 +3,45 @@ import {
   NominatimAmenity,
   NominatimLeisure,
   NominatimTourism,
+  SunlightStatus,
   VenueErrorCode
 } from '@/shared/enums'
 import type {
     ApiResponse,
     VenueResponse,
     BoundingBox,
+    BuildingFootprint,
+    MapTile,
     SearchResult,
+    SunlightStatusInfo,
+    TimeWindow,
     Venue,
     VenueFilters,
-    VenueType
+    VenueType,
+    VenueWindowMatch
 } from '@/shared/types'
-import { BBOX_CACHE_TTL_MS, useVenuesStore } from '@/stores/venues'
+import { useVenuesStore } from '@/stores/venues'
+import { attempt } from '@/utils/attempt'
 import { useCoordinates } from './useCoordinates'
+import { useHorizonProfile } from './useHorizonProfile'
+import type { LatestRequestContext } from './useLatestRequest'
+import { useMapTiles } from './useMapTiles'
+import { useOfflineRegions } from './offline/useOfflineRegions'
+import { useShadowCasting } from './useShadowCasting'
+import { useSunCheckIns } from './useSunCheckIns'
 import { useSunInfo } from './useSunInfo'
 import { useSunlightStatus } from './useSunlightStatus'
+import { useSunTimeline } from './useSunTimeline'
 import { useVenue } from './useVenue'
+import { useWeather } from './useWeather'
+import { useVenueCache } from './venue-cache/useVenueCache'
+import { useWeatherProvider } from './weather/useWeatherProvider'
 
-const MAX_BBOX_DEGREES = 0.05
+// Zoom 13 tiles are under 0.05° per side, the largest area the venues API accepts
+const VENUE_TILE_ZOOM = 13
+// About a city district, a larger viewport is rejected with BBOX_TOO_LARGE
+const MAX_VIEWPORT_TILES = 16
+const CACHE_SLOT_MS = 15 * 60 * 1000
 
 const AMENITY_TO_VENUE_TYPE: Partial<Record<NominatimAmenity, VenueType>> = {
   [NominatimAmenity.Bar]: 'bar',
@@ -117,7 +138,7 @@ function apiVenueToDomain(
         break
       case 'partially_sunny':
         status = sunlightStatusUtil.createPartiallySunny(
-          0.7,
+          apiVenue.sunlitFraction ?? 0.7,
           'sunlight.description.partialShadow'
         )
         break
@@ -138,17 +159,18 @@ function apiVenueToDomain(
     priceRange: apiVenue.priceRange,
     description: apiVenue.description,
     socialMedia: apiVenue.socialMedia,
-    sunlightStatus: status
+    sunlightStatus: status,
+    terrace: apiVenue.terrace?.map((point) => coordinatesUtil.create(point.latitude, point.longitude)),
+    sunCheckIns: apiVenue.sunCheckIns?.map((checkIn) => ({
+      id: checkIn.id,
+      venueId: apiVenue.id,
+      reportedStatus: checkIn.reportedStatus === 'sunny' ? SunlightStatus.SUNNY : SunlightStatus.SHADED,
+      checkedInAt: new Date(checkIn.checkedInAt).getTime(),
+      distanceMeters: checkIn.distanceMeters
+    }))
   })
 }
 
-function isBboxTooLarge(bbox: BoundingBox): boolean {
-  return (
-    bbox.north - bbox.south > MAX_BBOX_DEGREES ||
-    bbox.east - bbox.west > MAX_BBOX_DEGREES
-  )
-}
-
 function classifyFetchError(e: Error): VenueErrorCode {
   const err = e as Error & {
     statusCode?: number;
@@ -184,6 +206,15 @@ export function useVenues() {
   const sunlightStatus = useSunlightStatus()
   const sunInfo = useSunInfo()
   const venue = useVenue()
+  const shadowCasting = useShadowCasting()
+  const sunTimeline = useSunTimeline()
+  const weather = useWeather()
+  const sunCheckIns = useSunCheckIns()
+  const weatherProvider = useWeatherProvider()
+  const horizon = useHorizonProfile()
+  const offlineRegions = useOfflineRegions()
+  const venueCache = useVenueCache()
+  const mapTiles = useMapTiles()
 
   const { public: { apiBaseUrl } } = useRuntimeConfig()
   console.info('[useVenues] API base URL:', apiBaseUrl)
@@ -194,89 +225,239 @@ export function useVenues() {
     loading,
     error,
     lastBbox,
+    buildings,
     filters,
     sunnyVenues,
     shadedVenues,
     filteredVenues
   } = storeToRefs(store)
 
-  function buildCacheKey(bbox: BoundingBox, datetime?: Date): string {
-    const slot = Math.floor((datetime?.getTime() ?? Date.now()) / (15 * 60 * 1000))
-    return `${bbox.south.toFixed(3)},${bbox.west.toFixed(3)},${bbox.north.toFixed(3)},${bbox.east.toFixed(3)}_${slot}`
+  // Index of the 15-minute time slot a datetime falls into. Requests within the same slot share a cache entry.
+  function getCacheSlot(datetime?: Date): number {
+    return Math.floor((datetime?.getTime() ?? Date.now()) / CACHE_SLOT_MS)
   }
 
-  function persistCacheToStorage(): void {
-    if (!import.meta.client) return
-    import('@tauri-apps/api/core').then(({ isTauri }) => {
-      if (!isTauri()) return
-      try {
-        const entries = Object.entries(store.bboxCache)
-        const cache = entries.length > 20
-          ? Object.fromEntries(entries.toSorted(([, a], [, b]) => b.fetchedAt - a.fetchedAt).slice(0, 20))
-          : store.bboxCache
-        localStorage.setItem('sunbar_bbox_cache', JSON.stringify(cache))
-      } catch {
-        // Ignore quota errors or serialization issues
-      }
-    }).catch(() => {})
+  // Set a venue's status after the forecast cloud cover at the datetime and, when the
+  // datetime is about now, the recent check-ins of users on site. The status before the
+  // check-ins is kept, so new ones can be applied to it later.
+  function withConditionsAt(venueItem: Venue, status: SunlightStatusInfo, datetime: Date): Venue {
+    const adjusted = weather.adjustForWeather(status, datetime)
+    if (!sunCheckIns.isCheckInTime(datetime)) {
+      return { ...venue.withSunlightStatus(venueItem, adjusted), modelSunlightStatus: undefined }
+    }
+    return {
+      ...venue.withSunlightStatus(venueItem, sunCheckIns.adjustForCheckIns(adjusted, sunCheckIns.getRecentCheckIns(venueItem))),
+      modelSunlightStatus: adjusted
+    }
+  }
+
+  // Adjust the status of each venue for local conditions the server does not know about:
+  // terrain hiding a low sun, the forecast cloud cover and the check-ins.
+  // Applied when venues enter the store, so the venue cache keeps the unadjusted statuses.
+  function withLocalConditions(venueList: Venue[], datetime: Date): Venue[] {
+    return venueList.map((venueItem) => {
+      if (!venueItem.sunlightStatus) return venueItem
+
+      const position = sunInfo.getSunPosition(venueItem.coordinates, datetime)
+      const status = horizon.isBehindTerrain(venueItem.coordinates, position)
+        ? sunlightStatus.createShaded(1, 'sunlight.description.behindTerrain')
+        : venueItem.sunlightStatus
+      return withConditionsAt(venueItem, status, datetime)
+    })
+  }
+
+  // Put venues from the server or the venue cache in the store. They carry the server's
+  // statuses, so the footprints of an earlier offline load, from another area, no longer apply.
+  function setServerVenues(venueList: Venue[], datetime: Date): void {
+    store.buildings = []
+    store.venues = withLocalConditions(venueList, datetime)
+  }
+
+  // Load the venues of a downloaded region and compute their sunlight from its buildings.
+  // False when no offline region covers the bounding box.
+  async function loadOfflineVenues(
+    bbox: BoundingBox,
+    statusDate: Date,
+    request: LatestRequestContext
+  ): Promise<boolean> {
+    const offlineData = await offlineRegions.getOfflineData(bbox)
+    if (!offlineData) return false
+    // A newer request owns the store now, so there is nothing left to do for this one
+    if (!request.isCurrent()) return true
+
+    store.venues = offlineData.venues.map((apiVenue) =>
+      apiVenueToDomain(apiVenue, coordinates, sunlightStatus, venue)
+    )
+    applyLocalSunlight(offlineData.buildings, statusDate)
+    store.lastBbox = bbox
+    store.error = null
+    store.loading = false
+    return true
+  }
+
+  // Fetch the venues of one tile and cache them.
+  async function fetchTileVenues(
+    tile: MapTile,
+    cacheSlot: number,
+    signal: AbortSignal,
+    datetime?: Date
+  ): Promise<{ venues: Venue[]; error: null } | { venues: null; error: Error }> {
+    const tileBounds = mapTiles.getTileBounds(tile)
+    const { data, error: fetchError } = await attempt(async () => {
+      const params = new URLSearchParams({
+        south: tileBounds.south.toString(),
+        west: tileBounds.west.toString(),
+        north: tileBounds.north.toString(),
+        east: tileBounds.east.toString(),
+        ...(datetime && { datetime: datetime.toISOString() })
+      })
+
+      return $fetch<ApiResponse>(`${apiUrl('/api/venues')}?${params}`, { signal })
+    })
+    if (fetchError) return { venues: null, error: fetchError }
+
+    const mappedVenues = data.venues.map((apiVenue) =>
+      apiVenueToDomain(apiVenue, coordinates, sunlightStatus, venue)
+    )
+    await venueCache.save(tileBounds, cacheSlot, mappedVenues, data.sunPosition)
+    return { venues: mappedVenues, error: null }
+  }
+
+  // Venues of several tiles inside the bounding box, without the duplicates of
+  // venues sitting on a shared tile edge.
+  function mergeTileVenues(tileVenues: Venue[][], bbox: BoundingBox): Venue[] {
+    const venuesById = new Map<string, Venue>()
+    tileVenues.flat()
+      .filter((venueItem) => coordinates.isInsideBounds(venueItem.coordinates, bbox))
+      .forEach((venueItem) => venuesById.set(venueItem.id, venueItem))
+    return [...venuesById.values()]
   }
 
-  // Fetch venues within a bounding box, returning the cached result if it is still fresh.
+  // Fetch venues within a bounding box. The box is split into fixed slippy-map tiles,
+  // each fetched and cached on its own, so panning only requests the tiles not seen yet.
+  // Without a connection, venues come from the downloaded offline regions.
+  // Only the newest fetch may update the store: an identical fetch in flight is joined,
+  // any other is aborted, and responses arriving after a newer fetch started are dropped.
   async function fetchVenuesByBoundingBox(
     bbox: BoundingBox,
     datetime?: Date
   ): Promise<VenueErrorCode | null> {
-    if (isBboxTooLarge(bbox)) {
+    const requestKey = `${bbox.south},${bbox.west},${bbox.north},${bbox.east}_${datetime?.getTime() ?? 'now'}`
+    return store.venueRequests.run(requestKey, (request) => loadVenues(bbox, request, datetime))
+  }
+
+  // One fetch of fetchVenuesByBoundingBox, checking after every await that it is still the newest.
+  async function loadVenues(
+    bbox: BoundingBox,
+    request: LatestRequestContext,
+    datetime?: Date
+  ): Promise<VenueErrorCode | null> {
+    const tiles = mapTiles.getTilesInBounds(bbox, VENUE_TILE_ZOOM)
+    if (tiles.length > MAX_VIEWPORT_TILES) {
       store.error = VenueErrorCode.BBOX_TOO_LARGE
+      store.loading = false
       return VenueErrorCode.BBOX_TOO_LARGE
     }
 
-    const cacheKey = buildCacheKey(bbox, datetime)
-    const cached = store.bboxCache[cacheKey]
-    if (cached && Date.now() - cached.fetchedAt < BBOX_CACHE_TTL_MS) {
-      store.venues = cached.venues
+    const statusDate = datetime ?? new Date()
+    await weather.loadForecast(
+      weatherProvider,
+      coordinates.create((bbox.north + bbox.south) / 2, (bbox.east + bbox.west) / 2),
+      statusDate
+    )
+    if (!request.isCurrent()) return null
+
+    if (import.meta.client && !navigator.onLine && await loadOfflineVenues(bbox, statusDate, request)) return null
+
+    const cacheSlot = getCacheSlot(datetime)
+    const cachedTiles = await Promise.all(
+      tiles.map((tile) => venueCache.lookup(mapTiles.getTileBounds(tile), cacheSlot))
+    )
+    const cachedVenues = cachedTiles.flatMap((cached) => (cached?.isComplete ? [cached.venues] : []))
+    const missingTiles = tiles.filter((_, i) => !cachedTiles[i]?.isComplete)
+    if (!request.isCurrent()) return null
+
+    if (missingTiles.length === 0) {
+      setServerVenues(mergeTileVenues(cachedVenues, bbox), statusDate)
       store.lastBbox = bbox
+      store.error = null
+      // An older fetch may have been aborted while loading
+      store.loading = false
       return null
     }
 
     store.loading = true
     store.error = null
+    // Show the cached tiles while the rest loads
+    if (cachedVenues.length > 0) {
+      setServerVenues(mergeTileVenues(cachedVenues, bbox), statusDate)
+    }
 
-    const { data, error: fetchError } = await attempt(async () => {
-      const params = new URLSearchParams({
-        south: bbox.south.toString(),
-        west: bbox.west.toString(),
-        north: bbox.north.toString(),
-        east: bbox.east.toString(),
-        ...(datetime && { datetime: datetime.toISOString() })
-      })
+    const results = await Promise.all(
+      missingTiles.map((tile) => fetchTileVenues(tile, cacheSlot, request.signal, datetime))
+    )
+    if (!request.isCurrent()) return null
 
-      return $fetch<ApiResponse>(`${apiUrl('/api/venues')}?${params}`)
-    })
+    const fetchedVenues = results.flatMap((result) => (result.venues ? [result.venues] : []))
+    const fetchError = results.find((result) => result.error)?.error
 
     if (fetchError) {
       const errorCode = classifyFetchError(fetchError)
+      if (errorCode === VenueErrorCode.NETWORK && await loadOfflineVenues(bbox, statusDate, request)) return null
+      if (!request.isCurrent()) return null
+
+      // Keep the tiles that did load
       store.error = errorCode
-      store.venues = []
+      setServerVenues(mergeTileVenues([...cachedVenues, ...fetchedVenues], bbox), statusDate)
       store.loading = false
 
       return errorCode
     }
 
-    const mappedVenues = data.venues.map((apiVenue) =>
-      apiVenueToDomain(apiVenue, coordinates, sunlightStatus, venue)
-    )
-
-    store.venues = mappedVenues
+    setServerVenues(mergeTileVenues([...cachedVenues, ...fetchedVenues], bbox), statusDate)
     store.lastBbox = bbox
-    store.bboxCache[cacheKey] = { venues: mappedVenues, sunPosition: data.sunPosition, fetchedAt: Date.now() }
     store.loading = false
 
-    persistCacheToStorage()
-
     return null
   }
 
+  // Recompute the sunlight status of every loaded venue from a local set of building
+  // footprints, replacing the classification that came from the server.
+  function applyLocalSunlight(buildings: BuildingFootprint[], datetime: Date): void {
+    store.buildings = buildings
+    store.venues = store.venues.map((venueItem) => {
+      const position = sunInfo.getSunPosition(venueItem.coordinates, datetime)
+      const horizonAltitude = horizon.getHorizonAltitude(venueItem.coordinates, position)
+      const status = shadowCasting.computeSunlightStatus(
+        venueItem.coordinates,
+        buildings,
+        position,
+        horizonAltitude,
+        venueItem.terrace
+      )
+      return withConditionsAt(venueItem, status, datetime)
+    })
+  }
+
+  // Loaded venues inside the bounds that are open and sunny at some point of the window,
+  // with the matching sub-intervals. Venues with the most matching time come first.
+  // Only a downloaded region has the building footprints to tell, so online there are no matches.
+  function findOpenAndSunnyVenues(bounds: BoundingBox, window: TimeWindow): VenueWindowMatch[] {
+    if (store.buildings.length === 0) return []
+
+    const totalMs = (intervals: VenueWindowMatch['intervals']) =>
+      intervals.reduce((sum, interval) => sum + interval.end.getTime() - interval.start.getTime(), 0)
+
+    return store.venues
+      .filter((venueItem) => coordinates.isInsideBounds(venueItem.coordinates, bounds))
+      .map((venueItem) => ({
+        venue: venueItem,
+        intervals: sunTimeline.getOpenSunnyIntervals(venueItem, window, store.buildings)
+      }))
+      .filter((match) => match.intervals.length > 0)
+      .toSorted((a, b) => totalMs(b.intervals) - totalMs(a.intervals))
+  }
+
   // Update the active venue filters.
   function setFilters(newFilters: Partial<VenueFilters>): void {
     store.filters = { ...store.filters, ...newFilters }
@@ -319,6 +500,12 @@ export function useVenues() {
           1,
           'sunlight.description.directSunlight'
         )
+      } else if (sunInfo.getSunPosition(coords, datetime).altitude > 0) {
+        // The sun is up but hidden behind the surrounding terrain
+        sunlightStatusInfo = sunlightStatus.createShaded(
+          1,
+          'sunlight.description.behindTerrain'
+        )
       } else {
         // If sun is below horizon, it's night
         sunlightStatusInfo = sunlightStatus.createNight()
@@ -341,6 +528,7 @@ export function useVenues() {
     loading,
     error,
     lastBbox,
+    buildings,
     filters,
 
     // Computed
@@ -350,6 +538,9 @@ export function useVenues() {
 
     // Actions
     fetchVenuesByBoundingBox,
+    getCacheSlot,
+    applyLocalSunlight,
+    findOpenAndSunnyVenues,
     setFilters,
     addVenue,
     removeVenue,
@@ -0,0 +1,63 @@
+import type { Coordinates, SunlightStatusInfo } from '@/shared/types'
+import { useWeatherStore } from '@/stores/weather'
+import { attempt } from '@/utils/attempt'
+import { useSunlightStatus } from './useSunlightStatus'
+import type { IWeatherProvider } from './weather/IWeatherProvider'
+
+const MS_PER_HOUR = 60 * 60 * 1000
+
+function buildForecastKey(coordinates: Coordinates, date: Date): string {
+  return `${coordinates.latitude.toFixed(2)},${coordinates.longitude.toFixed(2)}_${date.toDateString()}`
+}
+
+// useWeather composable
+// Loads the cloud cover forecast for the viewed area and applies it to the purely
+// geometric sunlight statuses, so a terrace in full sun under thick cloud is not shown as sunny.
+export function useWeather() {
+  const store = useWeatherStore()
+  const { applyCloudCover } = useSunlightStatus()
+
+  // Load the forecast for an area and day unless it is already loaded.
+  // Without a provider, or when the provider fails, statuses are left as they are.
+  async function loadForecast(
+    provider: IWeatherProvider | null,
+    coordinates: Coordinates,
+    date: Date
+  ): Promise<void> {
+    if (!provider) return
+
+    const key = buildForecastKey(coordinates, date)
+    if (store.forecastKey === key) return
+
+    const { data, error } = await attempt(() => provider.getHourlyCloudCover(coordinates, date))
+    if (error) {
+      console.warn('[useWeather] Failed to load forecast', error)
+      store.forecast = []
+      store.forecastKey = null
+      return
+    }
+
+    store.forecast = data
+    store.forecastKey = key
+  }
+
+  // Cloud cover for the forecast hour containing the datetime, or null if it is not covered.
+  function getCloudCoverAt(datetime: Date): number | null {
+    const entry = store.forecast.find(
+      (hour) => hour.time <= datetime && datetime.getTime() < hour.time.getTime() + MS_PER_HOUR
+    )
+    return entry?.cloudCover ?? null
+  }
+
+  // Apply the forecast cloud cover at the datetime to a sunlight status.
+  function adjustForWeather(status: SunlightStatusInfo, datetime: Date): SunlightStatusInfo {
+    const cloudCover = getCloudCoverAt(datetime)
+    return cloudCover === null ? status : applyCloudCover(status, cloudCover)
+  }
+
+  return {
+    loadForecast,
+    getCloudCoverAt,
+    adjustForWeather
+  }
+}
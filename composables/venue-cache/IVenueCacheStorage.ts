@@ -0,0 +1,37 @@
+import type { ApiResponse, BoundingBox, Venue } from '@/shared/types'
+
+// Metadata of one cached venues response, small enough to keep every entry in
+// memory for the spatial lookup.
+export type VenueCacheEntry = {
+  key: string;
+  bbox: BoundingBox;
+  // 15-minute time slot the sunlight statuses were computed for
+  slot: number;
+  fetchedAt: number;
+  lastAccessedAt: number;
+  sizeBytes: number;
+};
+
+export type VenueCacheRecord = {
+  key: string;
+  venues: Venue[];
+  sunPosition: ApiResponse['sunPosition'];
+};
+
+// IVenueCacheStorage
+// Abstracts where the venue cache is persisted from the lookup and eviction
+// logic in useVenueCache. Entries and records are stored separately so the
+// venues are only read when an entry matches.
+export interface IVenueCacheStorage {
+  // Metadata of every stored entry.
+  loadEntries(): Promise<VenueCacheEntry[]>
+
+  readRecord(key: string): Promise<VenueCacheRecord | null>
+
+  write(entry: VenueCacheEntry, record: VenueCacheRecord): Promise<void>
+
+  // Persist updated metadata, such as the last access time.
+  updateEntry(entry: VenueCacheEntry): Promise<void>
+
+  remove(keys: string[]): Promise<void>
+}
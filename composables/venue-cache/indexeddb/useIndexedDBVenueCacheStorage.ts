@@ -0,0 +1,94 @@
+import type { IVenueCacheStorage, VenueCacheEntry, VenueCacheRecord } from '../IVenueCacheStorage'
+
+const DB_NAME = 'sunbar-venue-cache'
+const DB_VERSION = 1
+const ENTRIES_STORE = 'entries'
+const RECORDS_STORE = 'records'
+// Where earlier versions of the Tauri app kept up to 20 responses
+const LEGACY_STORAGE_KEY = 'sunbar_bbox_cache'
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// useIndexedDBVenueCacheStorage — IVenueCacheStorage implementation
+// Persists the venue cache in IndexedDB, which browsers and the Tauri web views
+// all provide. Unlike localStorage it stores structured data without serialising
+// the whole cache on every write, and its quota allows megabytes of venues.
+export function useIndexedDBVenueCacheStorage(): IVenueCacheStorage {
+  let database: Promise<IDBDatabase> | null = null
+
+  function openDatabase(): Promise<IDBDatabase> {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ENTRIES_STORE, { keyPath: 'key' })
+        request.result.createObjectStore(RECORDS_STORE, { keyPath: 'key' })
+        localStorage.removeItem(LEGACY_STORAGE_KEY)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        // Let the next call retry, e.g. after the user left private browsing
+        database = null
+        reject(request.error)
+      }
+    })
+    return database
+  }
+
+  async function loadEntries(): Promise<VenueCacheEntry[]> {
+    const db = await openDatabase()
+    return requestToPromise(db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll())
+  }
+
+  async function readRecord(key: string): Promise<VenueCacheRecord | null> {
+    const db = await openDatabase()
+    const record = await requestToPromise(db.transaction(RECORDS_STORE).objectStore(RECORDS_STORE).get(key))
+    return (record as VenueCacheRecord | undefined) ?? null
+  }
+
+  async function write(entry: VenueCacheEntry, record: VenueCacheRecord): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction([ENTRIES_STORE, RECORDS_STORE], 'readwrite')
+    transaction.objectStore(ENTRIES_STORE).put(entry)
+    transaction.objectStore(RECORDS_STORE).put(record)
+    await transactionToPromise(transaction)
+  }
+
+  async function updateEntry(entry: VenueCacheEntry): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(ENTRIES_STORE, 'readwrite')
+    transaction.objectStore(ENTRIES_STORE).put(entry)
+    await transactionToPromise(transaction)
+  }
+
+  async function remove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return
+    const db = await openDatabase()
+    const transaction = db.transaction([ENTRIES_STORE, RECORDS_STORE], 'readwrite')
+    keys.forEach((key) => {
+      transaction.objectStore(ENTRIES_STORE).delete(key)
+      transaction.objectStore(RECORDS_STORE).delete(key)
+    })
+    await transactionToPromise(transaction)
+  }
+
+  return {
+    loadEntries,
+    readRecord,
+    write,
+    updateEntry,
+    remove
+  }
+}
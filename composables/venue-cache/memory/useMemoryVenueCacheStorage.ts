@@ -0,0 +1,41 @@
+import type { IVenueCacheStorage, VenueCacheEntry, VenueCacheRecord } from '../IVenueCacheStorage'
+
+// useMemoryVenueCacheStorage — IVenueCacheStorage implementation
+// Keeps the cache in memory for the lifetime of the page. Used where IndexedDB
+// is unavailable, such as on the server.
+export function useMemoryVenueCacheStorage(): IVenueCacheStorage {
+  const entries = new Map<string, VenueCacheEntry>()
+  const records = new Map<string, VenueCacheRecord>()
+
+  async function loadEntries(): Promise<VenueCacheEntry[]> {
+    return [...entries.values()]
+  }
+
+  async function readRecord(key: string): Promise<VenueCacheRecord | null> {
+    return records.get(key) ?? null
+  }
+
+  async function write(entry: VenueCacheEntry, record: VenueCacheRecord): Promise<void> {
+    entries.set(entry.key, entry)
+    records.set(record.key, record)
+  }
+
+  async function updateEntry(entry: VenueCacheEntry): Promise<void> {
+    if (entries.has(entry.key)) entries.set(entry.key, entry)
+  }
+
+  async function remove(keys: string[]): Promise<void> {
+    keys.forEach((key) => {
+      entries.delete(key)
+      records.delete(key)
+    })
+  }
+
+  return {
+    loadEntries,
+    readRecord,
+    write,
+    updateEntry,
+    remove
+  }
+}
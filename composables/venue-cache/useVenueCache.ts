@@ -0,0 +1,193 @@
+import type { ApiResponse, BoundingBox, Venue } from '@/shared/types'
+import { useVenuesStore } from '@/stores/venues'
+import { attempt } from '@/utils/attempt'
+import { useCoordinates } from '../useCoordinates'
+import type { IVenueCacheStorage, VenueCacheEntry, VenueCacheRecord } from './IVenueCacheStorage'
+import { useVenueCacheStorage } from './useVenueCacheStorage'
+
+export const VENUE_CACHE_TTL_MS = 5 * 60 * 1000
+export const VENUE_CACHE_MAX_BYTES = 10 * 1024 * 1024
+
+export type VenueCacheHit = {
+  // Cached venues inside the requested bounding box
+  venues: Venue[];
+  sunPosition: ApiResponse['sunPosition'];
+  // Whether the cached entries cover the whole bounding box
+  isComplete: boolean;
+};
+
+function overlaps(a: BoundingBox, b: BoundingBox): boolean {
+  return a.south < b.north && b.south < a.north && a.west < b.east && b.west < a.east
+}
+
+function contains(outer: BoundingBox, inner: BoundingBox): boolean {
+  return (
+    outer.south <= inner.south && outer.north >= inner.north &&
+    outer.west <= inner.west && outer.east >= inner.east
+  )
+}
+
+// Whether the union of the boxes covers the bounding box. The box is split along
+// every edge of the other boxes, and each piece must lie inside one of them.
+function isCovered(bbox: BoundingBox, boxes: BoundingBox[]): boolean {
+  const edges = (low: number, high: number, values: number[]) =>
+    [...new Set([low, high, ...values.filter((value) => value > low && value < high)])].toSorted((a, b) => a - b)
+  const latitudes = edges(bbox.south, bbox.north, boxes.flatMap((box) => [box.south, box.north]))
+  const longitudes = edges(bbox.west, bbox.east, boxes.flatMap((box) => [box.west, box.east]))
+
+  return latitudes.slice(1).every((north, i) => {
+    const latitude = (latitudes[i]! + north) / 2
+    return longitudes.slice(1).every((east, j) => {
+      const longitude = (longitudes[j]! + east) / 2
+      return boxes.some((box) =>
+        latitude >= box.south && latitude <= box.north && longitude >= box.west && longitude <= box.east)
+    })
+  })
+}
+
+// useVenueCache composable
+// Persistent cache of venues responses, looked up by area instead of by exact
+// bounding box: a request overlapping earlier ones is answered from them, fully
+// or in part. Entries stop answering lookups after VENUE_CACHE_TTL_MS but are kept
+// for findVenues until, least recently used first, they are evicted once the cache
+// grows past maxBytes.
+export function useVenueCache(
+  storage: IVenueCacheStorage = useVenueCacheStorage(),
+  maxBytes = VENUE_CACHE_MAX_BYTES
+) {
+  const store = useVenuesStore()
+  const coordinates = useCoordinates()
+
+  async function loadEntries(): Promise<void> {
+    const { data, error } = await attempt(() => storage.loadEntries())
+    if (error) {
+      console.warn('[useVenueCache] Failed to load the venue cache', error)
+      return
+    }
+    data.forEach((entry) => {
+      store.cacheEntries[entry.key] ??= entry
+    })
+  }
+
+  // Read the entry index from storage once per session. Callers arriving while it is
+  // being read wait for it rather than seeing an empty cache.
+  async function ensureLoaded(): Promise<void> {
+    store.cacheLoad.promise ??= loadEntries()
+    await store.cacheLoad.promise
+  }
+
+  function forgetEntries(keys: string[]): void {
+    store.cacheEntries = Object.fromEntries(
+      Object.entries(store.cacheEntries).filter(([key]) => !keys.includes(key))
+    )
+  }
+
+  function isFresh(entry: VenueCacheEntry, now: number): boolean {
+    return now - entry.fetchedAt < VENUE_CACHE_TTL_MS
+  }
+
+  async function readRecord(entry: VenueCacheEntry): Promise<VenueCacheRecord | null> {
+    const { data, error } = await attempt(() => storage.readRecord(entry.key))
+    if (error) console.warn('[useVenueCache] Failed to read a cache entry', error)
+    // An entry without its record was evicted elsewhere, e.g. by another tab
+    if (!data) forgetEntries([entry.key])
+    return data
+  }
+
+  // Cached venues for the bounding box and time slot. Null when no fresh entry overlaps it.
+  async function lookup(bbox: BoundingBox, slot: number): Promise<VenueCacheHit | null> {
+    await ensureLoaded()
+    const now = Date.now()
+
+    const matches = Object.values(store.cacheEntries).filter((entry) =>
+      entry.slot === slot && isFresh(entry, now) && overlaps(entry.bbox, bbox))
+    const found = (await Promise.all(matches.map(async (entry) => ({ entry, record: await readRecord(entry) }))))
+      .filter((match): match is { entry: VenueCacheEntry; record: VenueCacheRecord } => match.record !== null)
+    if (found.length === 0) return null
+
+    const venuesById = new Map<string, Venue>()
+    found.forEach(({ entry, record }) => {
+      record.venues
+        .filter((venueItem) => coordinates.isInsideBounds(venueItem.coordinates, bbox))
+        .forEach((venueItem) => venuesById.set(venueItem.id, venueItem))
+
+      const touched = { ...entry, lastAccessedAt: now }
+      store.cacheEntries[entry.key] = touched
+      storage.updateEntry(touched).catch((e) => console.warn('[useVenueCache] Failed to update a cache entry', e))
+    })
+
+    return {
+      venues: [...venuesById.values()],
+      sunPosition: found[0]!.record.sunPosition,
+      isComplete: isCovered(bbox, found.map(({ entry }) => entry.bbox))
+    }
+  }
+
+  // Cached venues inside the bounding box from the entries of any time slot, expired
+  // ones included, for uses where the sunlight status does not matter.
+  async function findVenues(bbox: BoundingBox): Promise<Venue[]> {
+    await ensureLoaded()
+
+    const matches = Object.values(store.cacheEntries).filter((entry) => overlaps(entry.bbox, bbox))
+    const records = await Promise.all(matches.map((entry) => readRecord(entry)))
+
+    const venuesById = new Map<string, Venue>()
+    records.forEach((record) => {
+      record?.venues
+        .filter((venueItem) => coordinates.isInsideBounds(venueItem.coordinates, bbox))
+        .forEach((venueItem) => venuesById.set(venueItem.id, venueItem))
+    })
+    return [...venuesById.values()]
+  }
+
+  // Store a response, evicting the entries it makes redundant, then the least
+  // recently used ones until the cache fits in maxBytes.
+  async function save(
+    bbox: BoundingBox,
+    slot: number,
+    venues: Venue[],
+    sunPosition: ApiResponse['sunPosition']
+  ): Promise<void> {
+    await ensureLoaded()
+    const now = Date.now()
+
+    const key = `${slot}_${bbox.south},${bbox.west},${bbox.north},${bbox.east}`
+    const record: VenueCacheRecord = { key, venues, sunPosition }
+    const entry: VenueCacheEntry = {
+      key,
+      bbox,
+      slot,
+      fetchedAt: now,
+      lastAccessedAt: now,
+      sizeBytes: JSON.stringify(record).length
+    }
+    if (entry.sizeBytes > maxBytes) return
+
+    const others = Object.values(store.cacheEntries).filter((other) => other.key !== key)
+    const isRedundant = (other: VenueCacheEntry) => other.slot === slot && contains(bbox, other.bbox)
+    const evicted = others.filter(isRedundant)
+    let totalBytes = entry.sizeBytes
+    others
+      .filter((other) => !isRedundant(other))
+      .toSorted((a, b) => b.lastAccessedAt - a.lastAccessedAt)
+      .forEach((other) => {
+        totalBytes += other.sizeBytes
+        if (totalBytes > maxBytes) evicted.push(other)
+      })
+
+    forgetEntries(evicted.map((other) => other.key))
+    store.cacheEntries[key] = entry
+
+    const { error } = await attempt(async () => {
+      await storage.remove(evicted.map((other) => other.key))
+      await storage.write(entry, record)
+    })
+    if (error) console.warn('[useVenueCache] Failed to persist the venue cache', error)
+  }
+
+  return {
+    lookup,
+    findVenues,
+    save
+  }
+}
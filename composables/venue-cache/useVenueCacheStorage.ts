@@ -0,0 +1,18 @@
+import type { IVenueCacheStorage } from './IVenueCacheStorage'
+import { useIndexedDBVenueCacheStorage } from './indexeddb/useIndexedDBVenueCacheStorage'
+import { useMemoryVenueCacheStorage } from './memory/useMemoryVenueCacheStorage'
+
+let clientStorage: IVenueCacheStorage | null = null
+
+// useVenueCacheStorage — factory composable
+// IndexedDB on the client, in browsers and in the Tauri app alike, and memory where
+// it is missing. The client instance is shared so every useVenueCache sees the same data.
+export function useVenueCacheStorage(): IVenueCacheStorage {
+  // A module-level instance would be shared between server requests
+  if (import.meta.server) return useMemoryVenueCacheStorage()
+
+  clientStorage ??= typeof indexedDB === 'undefined'
+    ? useMemoryVenueCacheStorage()
+    : useIndexedDBVenueCacheStorage()
+  return clientStorage
+}
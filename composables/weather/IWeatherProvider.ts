@@ -0,0 +1,9 @@
+import type { CloudCoverForecast, Coordinates } from '@/shared/types'
+
+// IWeatherProvider
+// Abstracts the forecast service from the sunlight logic. Every weather
+// source (the local mock, a real forecast API, …) must satisfy this interface.
+export interface IWeatherProvider {
+  // Hourly cloud cover for the local calendar day of `date` at the given location.
+  getHourlyCloudCover(coordinates: Coordinates, date: Date): Promise<CloudCoverForecast[]>
+}
@@ -0,0 +1,37 @@
+import type { CloudCoverForecast, Coordinates } from '@/shared/types'
+import type { IWeatherProvider } from '../IWeatherProvider'
+
+// Small deterministic hash so the same place and day always get the same weather.
+function hashSeed(text: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return (hash >>> 0) / 0xffffffff
+}
+
+// useMockWeatherProvider — IWeatherProvider implementation
+// Generates plausible cloud cover locally without any network access: a base
+// level per day and ~10 km area, with clouds building up in the afternoon.
+export function useMockWeatherProvider(): IWeatherProvider {
+  async function getHourlyCloudCover(coordinates: Coordinates, date: Date): Promise<CloudCoverForecast[]> {
+    const dayStart = new Date(date)
+    dayStart.setHours(0, 0, 0, 0)
+
+    const area = `${coordinates.latitude.toFixed(1)},${coordinates.longitude.toFixed(1)}`
+    const baseCover = hashSeed(`${area}_${dayStart.toDateString()}`)
+
+    return Array.from({ length: 24 }, (_, hour) => {
+      const time = new Date(dayStart)
+      time.setHours(hour)
+      const afternoonBuildUp = 0.25 * Math.sin(((hour - 9) / 12) * Math.PI)
+      const jitter = (hashSeed(`${area}_${time.toISOString()}`) - 0.5) * 0.2
+      return { time, cloudCover: Math.max(0, Math.min(1, baseCover + afternoonBuildUp + jitter)) }
+    })
+  }
+
+  return {
+    getHourlyCloudCover
+  }
+}
@@ -0,0 +1,21 @@
+import type { IWeatherProvider } from './IWeatherProvider'
+import { useMockWeatherProvider } from './mock/useMockWeatherProvider'
+
+const WEATHER_PROVIDERS: Record<string, () => IWeatherProvider> = {
+  mock: useMockWeatherProvider
+}
+
+// useWeatherProvider — factory composable
+// Selects the IWeatherProvider named by runtimeConfig.public.weatherProvider.
+// Returns null when no provider is configured, which disables weather adjustments.
+export function useWeatherProvider(): IWeatherProvider | null {
+  const { public: { weatherProvider } } = useRuntimeConfig()
+  if (!weatherProvider) return null
+
+  const createProvider = WEATHER_PROVIDERS[weatherProvider]
+  if (!createProvider) {
+    console.warn(`[useWeatherProvider] Unknown weather provider "${weatherProvider}"`)
+    return null
+  }
+  return createProvider()
+}
@@ -74,7 +74,11 @@ export default defineNuxtConfig({
   runtimeConfig: {
     public: {
       // Overridden at runtime by NUXT_PUBLIC_API_BASE_URL env var
-      apiBaseUrl: ''
+      apiBaseUrl: '',
+      // Cloud cover forecast source, off unless NUXT_PUBLIC_WEATHER_PROVIDER names one
+      weatherProvider: '',
+      // Elevation grid used for terrain horizons; overridden by NUXT_PUBLIC_DEM_TILE_URL
+      demTileUrl: ''
     }
   },
 
@@ -0,0 +1,10 @@
+import { isTauri } from '@tauri-apps/api/core'
+import { useOfflineRegions } from '@/composables/offline/useOfflineRegions'
+
+// Load the list of downloaded regions before the map mounts, since the engine
+// choice and the MapLibre tile source depend on it.
+export default defineNuxtPlugin(async () => {
+  if (!isTauri()) return
+
+  await useOfflineRegions().refreshRegions()
+})
@@ -0,0 +1,14 @@
+import { useOutbox } from '@/composables/useOutbox'
+
+// How often the outbox checks for contributions whose retry time has come
+const RETRY_CHECK_INTERVAL_MS = 15 * 1000
+
+export default defineNuxtPlugin(() => {
+  const outbox = useOutbox()
+  outbox.restore()
+  outbox.processQueue()
+
+  window.addEventListener('online', () => outbox.processQueue())
+  window.addEventListener('storage', (event) => outbox.handleStorageEvent(event))
+  setInterval(() => outbox.processQueue(), RETRY_CHECK_INTERVAL_MS)
+})
@@ -4,5 +4,6 @@ export enum SunlightStatus {
   PARTIALLY_SUNNY = 'PARTIALLY_SUNNY',
   SHADED = 'SHADED',
   NIGHT = 'NIGHT',
+  OVERCAST = 'OVERCAST',
   UNKNOWN = 'UNKNOWN',
 }
@@ -0,0 +1,19 @@
+import { z } from 'zod'
+
+// DEM tile schema, used to validate elevation grids loaded at runtime.
+export const demTileSchema = z
+  .object({
+    south: z.number().min(-90).max(90),
+    west: z.number().min(-180).max(180),
+    north: z.number().min(-90).max(90),
+    east: z.number().min(-180).max(180),
+    rows: z.number().int().min(2),
+    columns: z.number().int().min(2),
+    heights: z.array(z.number())
+  })
+  .refine((tile) => tile.north > tile.south && tile.east > tile.west, {
+    message: 'DEM tile bounds are inverted'
+  })
+  .refine((tile) => tile.heights.length === tile.rows * tile.columns, {
+    message: 'DEM tile heights do not match rows × columns'
+  })
@@ -0,0 +1,65 @@
+import { z } from 'zod'
+
+const boundsSchema = z.object({
+  south: z.number().min(-90).max(90),
+  west: z.number().min(-180).max(180),
+  north: z.number().min(-90).max(90),
+  east: z.number().min(-180).max(180)
+})
+
+// Offline region manifest schema, used to validate the manifests read back from disk.
+export const offlineRegionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  bounds: boundsSchema,
+  minZoom: z.number().int().min(0),
+  maxZoom: z.number().int().min(0),
+  tileCount: z.number().int().min(0),
+  venueCount: z.number().int().min(0),
+  buildingCount: z.number().int().min(0),
+  sizeBytes: z.number().min(0),
+  downloadedAt: z.string()
+})
+
+const coordinatesSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180)
+})
+
+// Venues file of an offline region, in the shape the venues endpoint returns them.
+export const offlineVenuesSchema = z.array(z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.string(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  address: z.string().optional(),
+  outdoor_seating: z.boolean().optional(),
+  phone: z.string().optional(),
+  website: z.string().optional(),
+  openingHours: z.string().optional(),
+  rating: z.number().optional(),
+  priceRange: z.string().optional(),
+  description: z.string().optional(),
+  socialMedia: z.object({
+    facebook: z.string().optional(),
+    instagram: z.string().optional(),
+    twitter: z.string().optional()
+  }).optional(),
+  sunlightStatus: z.enum(['sunny', 'shaded', 'partially_sunny']).optional(),
+  terrace: z.array(coordinatesSchema).optional(),
+  sunlitFraction: z.number().min(0).max(1).optional(),
+  sunCheckIns: z.array(z.object({
+    id: z.string(),
+    reportedStatus: z.enum(['sunny', 'shaded']),
+    checkedInAt: z.string(),
+    distanceMeters: z.number().nullable()
+  })).optional()
+}))
+
+// Buildings file of an offline region.
+export const offlineBuildingsSchema = z.array(z.object({
+  id: z.string(),
+  footprint: z.array(coordinatesSchema),
+  height: z.number().min(0)
+}))
@@ -0,0 +1,18 @@
+import { z } from 'zod'
+
+// Outbox item schema, used to validate the queue restored from localStorage.
+export const outboxItemSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(['create-venue', 'report-venue', 'sun-check-in']),
+  label: z.string(),
+  path: z.string().startsWith('/'),
+  body: z.record(z.string(), z.unknown()),
+  status: z.enum(['pending', 'sending', 'sent', 'failed']),
+  attempts: z.number().int().min(0),
+  createdAt: z.number(),
+  nextAttemptAt: z.number(),
+  sentAt: z.number().optional(),
+  lastError: z.string().optional()
+})
+
+export const outboxSchema = z.array(outboxItemSchema)
@@ -0,0 +1,29 @@
+import { z } from 'zod'
+
+// Overpass API response schema for `way["building"]` queries run with `out geom`.
+// Only the fields used to build footprints are checked; other elements pass through.
+export const overpassBuildingsSchema = z.object({
+  elements: z.array(
+    z.object({
+      type: z.string(),
+      id: z.number(),
+      tags: z.record(z.string(), z.string()).optional(),
+      geometry: z.array(z.object({ lat: z.number(), lon: z.number() })).optional()
+    })
+  )
+})
+
+// Overpass API response schema for named POI queries run with `out center tags`.
+// Nodes carry lat/lon, ways and relations a center.
+export const overpassPlacesSchema = z.object({
+  elements: z.array(
+    z.object({
+      type: z.string(),
+      id: z.number(),
+      lat: z.number().optional(),
+      lon: z.number().optional(),
+      center: z.object({ lat: z.number(), lon: z.number() }).optional(),
+      tags: z.record(z.string(), z.string()).optional()
+    })
+  )
+})
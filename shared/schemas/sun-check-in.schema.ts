@@ -0,0 +1,13 @@
+import { z } from 'zod'
+import { SunlightStatus } from '../enums/sunlight-status-type'
+
+// Check-in schema, used to validate the check-ins restored from localStorage.
+export const sunCheckInSchema = z.object({
+  id: z.string().min(1),
+  venueId: z.string().min(1),
+  reportedStatus: z.enum([SunlightStatus.SUNNY, SunlightStatus.SHADED]),
+  checkedInAt: z.number(),
+  distanceMeters: z.number().min(0).nullable()
+})
+
+export const sunCheckInsSchema = z.array(sunCheckInSchema)
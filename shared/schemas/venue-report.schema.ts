@@ -0,0 +1,12 @@
+import { z } from 'zod'
+
+// Report history schema, used to validate the history restored from localStorage.
+export const venueReportRecordSchema = z.object({
+  id: z.string().min(1),
+  venueId: z.string().min(1),
+  venueName: z.string(),
+  issue: z.enum(['wrong-location', 'closed-permanently', 'no-terrace', 'wrong-sunlight']),
+  createdAt: z.number()
+})
+
+export const venueReportHistorySchema = z.array(venueReportRecordSchema)
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { SunlightStatus } from '../enums/sunlight-status-type'
 
 // Venue creation schema with Zod validation.
 export const createVenueSchema = z.object({
@@ -49,6 +50,18 @@ export const createVenueSchema = z.object({
   openingHours: z
     .string()
     .max(200, 'venueForm.validation.openingHoursMax')
+    .optional(),
+
+  // Corners of the terrace outline, in drawing order. The ring is closed implicitly.
+  terrace: z
+    .array(
+      z.object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180)
+      })
+    )
+    .min(3, 'venueForm.validation.terraceMin')
+    .max(50, 'venueForm.validation.terraceMax')
     .optional()
 })
 
@@ -65,3 +78,39 @@ export const createVenueDefaults: CreateVenueInput = {
   website: '',
   openingHours: ''
 }
+
+const reportCommentSchema = z
+  .string()
+  .max(500, 'venueReport.validation.commentMax')
+  .optional()
+
+// Report schema for an existing venue, one variant per issue. Fields shared with
+// venue creation reuse the createVenueSchema rules.
+export const venueReportSchema = z.discriminatedUnion('issue', [
+  z.object({
+    issue: z.literal('wrong-location'),
+    latitude: createVenueSchema.shape.latitude,
+    longitude: createVenueSchema.shape.longitude,
+    comment: reportCommentSchema
+  }),
+  z.object({
+    issue: z.literal('closed-permanently'),
+    comment: reportCommentSchema
+  }),
+  z.object({
+    issue: z.literal('no-terrace'),
+    comment: reportCommentSchema
+  }),
+  z.object({
+    issue: z.literal('wrong-sunlight'),
+    // What the user saw at the venue, at the time shown in the app
+    observedStatus: z.enum([SunlightStatus.SUNNY, SunlightStatus.PARTIALLY_SUNNY, SunlightStatus.SHADED], {
+      message: 'venueReport.validation.observedStatusRequired'
+    }),
+    observedAt: z.iso.datetime(),
+    comment: reportCommentSchema
+  })
+])
+
+export type VenueReportInput = z.infer<typeof venueReportSchema>;
+export type VenueReportIssue = VenueReportInput['issue'];
@@ -21,6 +21,16 @@ export type VenueResponse = {
     twitter?: string;
   };
   sunlightStatus?: 'sunny' | 'shaded' | 'partially_sunny';
+  terrace?: Array<{ latitude: number; longitude: number }>;
+  // Share (0–1) of the terrace polygon in direct sunlight, when the venue has one.
+  sunlitFraction?: number;
+  // Recent "is it sunny here?" check-ins by users on site
+  sunCheckIns?: Array<{
+    id: string;
+    reportedStatus: 'sunny' | 'shaded';
+    checkedInAt: string;
+    distanceMeters: number | null;
+  }>;
 };
 
 // API response shape for the venues endpoint.
@@ -0,0 +1,8 @@
+import type { Coordinates } from './coordinates'
+
+// BuildingFootprint — the ground outline of a building together with its height, used for shadow casting.
+export type BuildingFootprint = {
+  id: string
+  footprint: Coordinates[] // outer ring, closed or open
+  height: number // in meters above ground
+}
@@ -2,4 +2,5 @@
 export type VenueFilters = {
   onlySunny: boolean;
   onlyWithOutdoorSeating: boolean;
+  onlyOpen: boolean;
 };
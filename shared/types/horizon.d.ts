@@ -0,0 +1,16 @@
+// DemTile — a regular grid of ground elevations covering a bounding box.
+export type DemTile = {
+  south: number
+  west: number
+  north: number
+  east: number
+  rows: number
+  columns: number
+  heights: number[] // meters above sea level, row-major starting at the north-west corner
+}
+
+// HorizonProfile — how high the terrain rises above a location in every direction.
+export type HorizonProfile = {
+  binDegrees: number
+  elevations: number[] // obstruction altitude in radians per azimuth bin, clockwise from north
+}
@@ -1,12 +1,24 @@
 export type * from './api'
 export type * from './bounding-box'
+export type * from './building'
 export type * from './coordinates'
 export type * from './filters'
 export type * from './geolocation'
+export type * from './horizon'
 export type * from './map'
+export type * from './offline-region'
+export type * from './opening-hours'
+export type * from './outbox'
+export type * from './sun-check-in'
+export type * from './sun-heatmap'
 export type * from './sun-position'
+export type * from './sun-timeline'
 export type * from './sunlight-status'
+export type * from './time-slot-score'
 export type * from './venue'
+export type * from './venue-report'
 export type * from './venue-type'
+export type * from './weather'
 export type * from './search'
+export type * from './solar-radiation'
 export type * from './scene-base-map'
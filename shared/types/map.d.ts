@@ -4,3 +4,16 @@ export type MapRef = {
   closePopups: () => void;
   setUserLocation: (lat: number, lng: number) => void;
 };
+
+// MapEngine — the rendering engines an IMapGateway can be backed by.
+export type MapEngine = 'maplibre' | 'arcgis' | 'raster';
+
+// MapEnginePreference — the engine the user asked for, or 'auto' to let the policy decide.
+export type MapEnginePreference = MapEngine | 'auto';
+
+// MapTile — a slippy-map tile (the z/x/y scheme of OpenStreetMap and most tile servers).
+export type MapTile = {
+  z: number;
+  x: number;
+  y: number;
+};
@@ -0,0 +1,33 @@
+import type { BoundingBox } from './bounding-box'
+import type { BuildingFootprint } from './building'
+import type { VenueResponse } from './api'
+
+// OfflineRegion — an area whose map tiles, venues and buildings are stored on disk
+// by the Tauri app so it keeps working without a connection.
+export type OfflineRegion = {
+  id: string
+  name: string
+  bounds: BoundingBox
+  minZoom: number
+  maxZoom: number
+  tileCount: number
+  venueCount: number
+  buildingCount: number
+  sizeBytes: number
+  downloadedAt: string // ISO timestamp
+}
+
+// OfflineRegionData — the venues and buildings of a downloaded region, loaded from disk.
+export type OfflineRegionData = {
+  venues: VenueResponse[]
+  buildings: BuildingFootprint[]
+}
+
+export type OfflineDownloadPhase = 'style' | 'tiles' | 'venues' | 'buildings'
+
+// OfflineDownloadProgress — how far a region download has got, per phase.
+export type OfflineDownloadProgress = {
+  phase: OfflineDownloadPhase
+  done: number
+  total: number
+}
@@ -0,0 +1,34 @@
+// Types for parsed OSM opening_hours values.
+// https://wiki.openstreetmap.org/wiki/Key:opening_hours/specification
+
+export type SunEvent = 'dawn' | 'sunrise' | 'sunset' | 'dusk'
+
+// A point in the day: a fixed clock time or a sun event with an optional offset.
+export type OpeningHoursTimePoint =
+  | { minutes: number }
+  | { event: SunEvent; offset: number } // offset in minutes
+
+export type OpeningHoursTimeSpan = {
+  from: OpeningHoursTimePoint
+  to: OpeningHoursTimePoint | null // null for an open end ("18:00+")
+}
+
+export type OpeningHoursWeekdayRange = {
+  from: number // Date.getDay() index, 0 = Sunday
+  to: number
+  nth: number[] | null // e.g. [1, -1] for "Mo[1,-1]"
+}
+
+export type OpeningHoursRuleState = 'open' | 'closed' | 'unknown'
+
+// How a rule combines with the ones before it: ";" overrides, "," adds, "||" is a fallback.
+export type OpeningHoursRuleSeparator = 'normal' | 'additional' | 'fallback'
+
+export type OpeningHoursRule = {
+  separator: OpeningHoursRuleSeparator
+  months: number[] | null // Date.getMonth() indices, null = every month
+  weekdays: OpeningHoursWeekdayRange[] | null // null = every day
+  publicHoliday: boolean
+  spans: OpeningHoursTimeSpan[] | null // null = the whole day
+  state: OpeningHoursRuleState
+}
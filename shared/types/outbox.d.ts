@@ -0,0 +1,26 @@
+// OutboxKind — the contributions the outbox can hold.
+export type OutboxKind = 'create-venue' | 'report-venue' | 'sun-check-in';
+
+// OutboxStatus — where a contribution is in its delivery.
+//   pending: waiting for its next attempt
+//   sending: a request is in flight
+//   sent:    the server accepted it
+//   failed:  rejected by the server or out of attempts, needs the user to retry or discard it
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+// OutboxItem — a contribution request kept until the server accepts it.
+export type OutboxItem = {
+  id: string;
+  kind: OutboxKind;
+  // Shown in the outbox list, e.g. the venue name
+  label: string;
+  // API path and JSON body of the POST request
+  path: string;
+  body: Record<string, unknown>;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  sentAt?: number;
+  lastError?: string;
+};
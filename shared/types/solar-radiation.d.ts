@@ -0,0 +1,9 @@
+// UvLevel — WHO exposure category for a UV index value.
+export type UvLevel = 'low' | 'moderate' | 'high' | 'veryHigh' | 'extreme'
+
+// SolarRadiationEstimate — clear-sky sun strength at a place and time.
+export type SolarRadiationEstimate = {
+  irradiance: number // global horizontal irradiance in W/m²
+  uvIndex: number
+  uvLevel: UvLevel
+}
@@ -0,0 +1,11 @@
+import type { SunlightStatus } from '../enums/sunlight-status-type'
+
+// SunCheckIn — a user on site saying whether a venue is in the sun right now.
+export type SunCheckIn = {
+  id: string;
+  venueId: string;
+  reportedStatus: SunlightStatus.SUNNY | SunlightStatus.SHADED;
+  checkedInAt: number;
+  // Distance between the user and the venue, null when the location was not available
+  distanceMeters: number | null;
+};
@@ -0,0 +1,15 @@
+import type { BoundingBox } from './bounding-box'
+
+// SunHeatmapMetric — what a heatmap cell measures: the share of the next few hours
+// in sun, or the share of today's daylight in sun.
+export type SunHeatmapMetric = 'next-hours' | 'day-hours'
+
+// SunHeatmapGrid — sun exposure sampled on a regular grid over a bounding box.
+export type SunHeatmapGrid = {
+  metric: SunHeatmapMetric
+  bounds: BoundingBox
+  rows: number
+  columns: number
+  values: number[] // share (0–1) of the period in sun, row-major starting at the north-west cell
+  periodHours: number // length of the sampled period, so value × periodHours gives sun hours
+}
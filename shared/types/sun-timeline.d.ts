@@ -0,0 +1,21 @@
+import type { SunlightStatus } from '../enums/sunlight-status-type'
+import type { Venue } from './venue'
+
+// SunlightInterval — a stretch of time during which a location keeps the same sunlight status.
+export type SunlightInterval = {
+  status: SunlightStatus
+  start: Date
+  end: Date
+}
+
+// TimeWindow — a stretch of time the user wants to plan for, such as 13:00–16:00.
+export type TimeWindow = {
+  start: Date
+  end: Date
+}
+
+// VenueWindowMatch — a venue together with the parts of a time window when it is open and sunny.
+export type VenueWindowMatch = {
+  venue: Venue
+  intervals: SunlightInterval[]
+}
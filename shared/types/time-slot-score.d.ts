@@ -0,0 +1,10 @@
+import type { SunlightStatus } from '../enums/sunlight-status-type'
+
+// TimeSlotScore — expected sunlight for a stretch of time, used to recommend when to visit.
+export type TimeSlotScore = {
+  start: Date
+  end: Date
+  status: SunlightStatus
+  score: number // 0-1, sunlight weighted by confidence
+  isOpen: boolean | null // null when the opening hours are unknown
+}
@@ -0,0 +1,11 @@
+import type { VenueReportIssue } from '../schemas/venue.schema'
+
+// VenueReportRecord — a report the user made about a venue, kept in their local history.
+export type VenueReportRecord = {
+  // Id of the outbox item that delivers the report
+  id: string;
+  venueId: string;
+  venueName: string;
+  issue: VenueReportIssue;
+  createdAt: number;
+};
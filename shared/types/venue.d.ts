@@ -1,4 +1,5 @@
 import type { Coordinates } from './coordinates'
+import type { SunCheckIn } from './sun-check-in'
 import type { SunlightStatusInfo } from './sunlight-status'
 import type { VenueType } from './venue-type'
 
@@ -22,4 +23,11 @@ export type Venue = {
     twitter?: string
   }
   sunlightStatus?: SunlightStatusInfo
+  // sunlightStatus before the check-ins adjusted it; only set when they did
+  modelSunlightStatus?: SunlightStatusInfo
+  // Recent check-ins by users on site, which raise or lower the confidence in sunlightStatus
+  sunCheckIns?: SunCheckIn[]
+  // Outline of the outdoor seating area, when known. Sunlight is then computed
+  // over the whole polygon instead of around `coordinates`.
+  terrace?: Coordinates[]
 }
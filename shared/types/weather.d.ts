@@ -0,0 +1,5 @@
+// CloudCoverForecast — forecast cloud cover for the hour starting at `time`.
+export type CloudCoverForecast = {
+  time: Date
+  cloudCover: number // fraction of the sky covered, 0–1
+}
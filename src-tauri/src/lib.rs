@@ -1,3 +1,5 @@
+mod offline;
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
   tauri::Builder::default()
@@ -13,6 +15,12 @@ pub fn run() {
     })
     .plugin(tauri_plugin_geolocation::init())
     .plugin(tauri_plugin_os::init())
+    .invoke_handler(tauri::generate_handler![
+      offline::offline_write,
+      offline::offline_read,
+      offline::offline_list,
+      offline::offline_delete
+    ])
     .run(tauri::generate_context!())
     .expect("error while running tauri application");
 }
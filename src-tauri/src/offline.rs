@@ -0,0 +1,103 @@
+// Offline regions: map tiles, venues and buildings the app downloaded for use
+// without a connection. Every region lives in its own directory under
+// <app data>/offline/<region id>/, next to a manifest.json describing it.
+use std::fs;
+use std::path::PathBuf;
+
+use tauri::ipc::{InvokeBody, Request, Response};
+use tauri::{AppHandle, Manager};
+
+const OFFLINE_DIR: &str = "offline";
+const MANIFEST_FILE: &str = "manifest.json";
+
+fn offline_root(app: &AppHandle) -> Result<PathBuf, String> {
+  app
+    .path()
+    .app_data_dir()
+    .map(|dir| dir.join(OFFLINE_DIR))
+    .map_err(|e| e.to_string())
+}
+
+// Region ids and resource keys come from the web view, so they are restricted to
+// plain file names that cannot step outside the offline directory.
+fn check_segment(segment: &str) -> Result<&str, String> {
+  let is_safe = !segment.is_empty()
+    && !segment.starts_with('.')
+    && segment
+      .chars()
+      .all(|c| c.is_ascii_alphanumeric() || matches!(c, '-' | '_' | '.'));
+  if is_safe {
+    Ok(segment)
+  } else {
+    Err(format!("invalid path segment: {segment}"))
+  }
+}
+
+fn header<'a>(request: &'a Request<'_>, name: &str) -> Result<&'a str, String> {
+  request
+    .headers()
+    .get(name)
+    .and_then(|value| value.to_str().ok())
+    .ok_or_else(|| format!("missing {name} header"))
+}
+
+// Store one resource of a region. The bytes travel as the raw request body and the
+// region and key as headers, so tiles are not serialised to JSON number arrays.
+#[tauri::command]
+pub async fn offline_write(app: AppHandle, request: Request<'_>) -> Result<(), String> {
+  let region = check_segment(header(&request, "x-region")?)?;
+  let key = check_segment(header(&request, "x-key")?)?;
+  let InvokeBody::Raw(data) = request.body() else {
+    return Err("expected a binary body".into());
+  };
+
+  let dir = offline_root(&app)?.join(region);
+  fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+  fs::write(dir.join(key), data).map_err(|e| e.to_string())
+}
+
+// Read a resource from the given region, or from the first region that has it.
+#[tauri::command]
+pub async fn offline_read(app: AppHandle, key: String, region: Option<String>) -> Result<Response, String> {
+  let key = check_segment(&key)?;
+  let root = offline_root(&app)?;
+
+  let regions = match region {
+    Some(region) => vec![root.join(check_segment(&region)?)],
+    None => fs::read_dir(&root)
+      .map(|entries| entries.filter_map(|entry| entry.ok().map(|entry| entry.path())).collect())
+      .unwrap_or_default(),
+  };
+
+  regions
+    .iter()
+    .find_map(|dir| fs::read(dir.join(key)).ok())
+    .map(Response::new)
+    .ok_or_else(|| format!("not found: {key}"))
+}
+
+// Manifests of every region whose download completed. The manifest is written last,
+// so a region without one is an interrupted download and is left out.
+#[tauri::command]
+pub async fn offline_list(app: AppHandle) -> Result<Vec<serde_json::Value>, String> {
+  let Ok(entries) = fs::read_dir(offline_root(&app)?) else {
+    return Ok(Vec::new());
+  };
+
+  Ok(
+    entries
+      .filter_map(|entry| entry.ok())
+      .filter_map(|entry| fs::read(entry.path().join(MANIFEST_FILE)).ok())
+      .filter_map(|bytes| serde_json::from_slice(&bytes).ok())
+      .collect(),
+  )
+}
+
+#[tauri::command]
+pub async fn offline_delete(app: AppHandle, region: String) -> Result<(), String> {
+  let dir = offline_root(&app)?.join(check_segment(&region)?);
+  if dir.exists() {
+    fs::remove_dir_all(dir).map_err(|e| e.to_string())?;
+  }
+  Ok(())
+}
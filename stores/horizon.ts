@@ -0,0 +1,18 @@
+import { defineStore } from 'pinia'
+import { markRaw, shallowRef } from 'vue'
+import type { DemTile, HorizonProfile } from '@/shared/types'
+
+// Horizon store
+// Holds the loaded elevation tile and the horizon profiles built from it.
+// Business logic lives in the useHorizonProfile composable.
+export const useHorizonStore = defineStore('horizon', () => {
+  const demTile = shallowRef<DemTile | null>(null)
+  // Profiles are derived data filled in lazily while statuses are computed, so the
+  // cache is kept out of reactivity to avoid re-triggering the computeds that read it.
+  const profiles = markRaw(new Map<string, HorizonProfile>())
+
+  return {
+    demTile,
+    profiles
+  }
+})
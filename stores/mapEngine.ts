@@ -0,0 +1,35 @@
+import { defineStore, skipHydrate } from 'pinia'
+import type { MapEngine, MapEnginePreference } from '@/shared/types'
+
+// The engine choice is read once when the map is created, so it is kept in a
+// cookie and applied by reloading the app.
+export const useMapEngineStore = defineStore('mapEngine', () => {
+  const preferenceCookie = useCookie<MapEnginePreference>('map_engine', {
+    maxAge: 60 * 60 * 24 * 365, // 1 year
+    sameSite: 'strict',
+    default: () => 'auto'
+  })
+
+  const preference = computed(() => preferenceCookie.value)
+  // Engine useMapGateway picked for this page load, null until the map is set up
+  const activeEngine = ref<MapEngine | null>(null)
+
+  function setActiveEngine(engine: MapEngine) {
+    activeEngine.value = engine
+  }
+
+  async function setPreference(value: MapEnginePreference) {
+    if (value === preferenceCookie.value) return
+    preferenceCookie.value = value
+    // Let the cookie be written before the page goes away
+    await nextTick()
+    reloadNuxtApp()
+  }
+
+  return {
+    preference,
+    activeEngine: skipHydrate(activeEngine),
+    setPreference,
+    setActiveEngine
+  }
+})
@@ -1,5 +1,5 @@
 import { defineStore } from 'pinia'
-import { ref } from 'vue'
+import { computed, ref } from 'vue'
 import type { BoundingBox, Venue } from '@/shared/types'
 
 const DEFAULT_CENTER: [number, number] = [41.39, 2.1] // Barcelona
@@ -16,6 +16,17 @@ export const useMapExplorerStore = defineStore('mapExplorer', () => {
   const selectedVenueId = ref<string | null>(null)
   const selectedVenue = ref<Venue | null>(null)
   const showVenueDetail = ref(false)
+  // Fetch venues whenever the map settles instead of waiting for the search button
+  const autoRefreshCookie = useCookie<boolean>('venues_auto_refresh', {
+    maxAge: 60 * 60 * 24 * 365, // 1 year
+    sameSite: 'strict',
+    default: () => false
+  })
+  const isAutoRefreshEnabled = computed(() => autoRefreshCookie.value)
+
+  function setAutoRefreshEnabled(enabled: boolean) {
+    autoRefreshCookie.value = enabled
+  }
 
   return {
     initialized,
@@ -24,6 +35,8 @@ export const useMapExplorerStore = defineStore('mapExplorer', () => {
     currentBounds,
     selectedVenueId,
     selectedVenue,
-    showVenueDetail
+    showVenueDetail,
+    isAutoRefreshEnabled,
+    setAutoRefreshEnabled
   }
 })
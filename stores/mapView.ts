@@ -1,5 +1,6 @@
 import { defineStore, skipHydrate } from 'pinia'
 import { ref } from 'vue'
+import type { SunHeatmapMetric } from '@/shared/types'
 
 export type MapViewMode = '2d' | '3d';
 
@@ -30,9 +31,24 @@ function checkWebGL2Support(): boolean {
   }
 }
 
+// Any WebGL context at all is enough for MapLibre; without one only raster maps can be drawn.
+function checkWebGLSupport(): boolean {
+  try {
+    const canvas = document.createElement('canvas')
+    return !!(canvas.getContext('webgl2') ?? canvas.getContext('webgl'))
+  } catch {
+    return false
+  }
+}
+
 export const useMapViewStore = defineStore('mapView', () => {
   const is3dSupported = ref(import.meta.client ? checkWebGL2Support() : false)
+  const isWebGLSupported = ref(import.meta.client ? checkWebGLSupport() : false)
   const viewMode = ref<MapViewMode>('2d')
+  // Sun exposure heatmap drawn over the map, or null when it is hidden.
+  const heatmapMetric = ref<SunHeatmapMetric | null>(null)
+  // Overlapping venue markers are grouped into clusters unless the user turns it off.
+  const isClusteringEnabled = ref(true)
 
   function setViewMode(mode: MapViewMode) {
     if (mode === '3d' && !is3dSupported.value) return
@@ -44,10 +60,23 @@ export const useMapViewStore = defineStore('mapView', () => {
     viewMode.value = viewMode.value === '2d' ? '3d' : '2d'
   }
 
+  function setHeatmapMetric(metric: SunHeatmapMetric | null) {
+    heatmapMetric.value = metric
+  }
+
+  function setClusteringEnabled(enabled: boolean) {
+    isClusteringEnabled.value = enabled
+  }
+
   return {
     viewMode,
+    heatmapMetric,
+    isClusteringEnabled,
     is3dSupported: skipHydrate(is3dSupported),
+    isWebGLSupported: skipHydrate(isWebGLSupported),
     setViewMode,
+    setHeatmapMetric,
+    setClusteringEnabled,
     toggle
   }
 })
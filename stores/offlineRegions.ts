@@ -0,0 +1,28 @@
+import { defineStore } from 'pinia'
+import { markRaw, ref } from 'vue'
+import type { OfflineDownloadProgress, OfflineRegion, OfflineRegionData } from '@/shared/types'
+
+// Offline regions store
+// Holds the regions downloaded for offline use and the state of a running download.
+// Business logic lives in the useOfflineRegions composable.
+export const useOfflineRegionsStore = defineStore('offlineRegions', () => {
+  const regions = ref<OfflineRegion[]>([])
+  const progress = ref<OfflineDownloadProgress | null>(null)
+  const error = ref<string | null>(null)
+  const isDialogVisible = ref(false)
+  // Venues and buildings read from disk, by region id. Large and immutable, so kept out of reactivity.
+  const loadedData = markRaw(new Map<string, OfflineRegionData>())
+
+  function openDialog() {
+    isDialogVisible.value = true
+  }
+
+  return {
+    regions,
+    progress,
+    error,
+    isDialogVisible,
+    loadedData,
+    openDialog
+  }
+})
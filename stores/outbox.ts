@@ -0,0 +1,22 @@
+import { defineStore } from 'pinia'
+import { computed, markRaw, ref } from 'vue'
+import type { OutboxItem } from '@/shared/types'
+
+// Outbox store
+// Holds the contributions waiting to be sent, or recently sent, to the API.
+// Business logic lives in the useOutbox composable.
+export const useOutboxStore = defineStore('outbox', () => {
+  const items = ref<OutboxItem[]>([])
+  const isProcessing = ref(false)
+  // Items this tab has a request in flight for
+  const sendingIds = markRaw(new Set<string>())
+
+  const unsentCount = computed(() => items.value.filter((item) => item.status !== 'sent').length)
+
+  return {
+    items,
+    isProcessing,
+    sendingIds,
+    unsentCount
+  }
+})
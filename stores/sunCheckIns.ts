@@ -0,0 +1,16 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { SunCheckIn } from '@/shared/types'
+
+// Sun check-ins store
+// Holds the check-ins the user made on this device.
+// Business logic lives in the useSunCheckIns composable.
+export const useSunCheckInsStore = defineStore('sunCheckIns', () => {
+  const checkIns = ref<SunCheckIn[]>([])
+  const isLoaded = ref(false)
+
+  return {
+    checkIns,
+    isLoaded
+  }
+})
@@ -0,0 +1,16 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { VenueReportRecord } from '@/shared/types'
+
+// Venue reports store
+// Holds the user's history of reports about existing venues.
+// Business logic lives in the useVenueReports composable.
+export const useVenueReportsStore = defineStore('venueReports', () => {
+  const reports = ref<VenueReportRecord[]>([])
+  const isLoaded = ref(false)
+
+  return {
+    reports,
+    isLoaded
+  }
+})
@@ -1,30 +1,36 @@
 import { defineStore } from 'pinia'
-import { computed, ref } from 'vue'
+import { computed, markRaw, ref } from 'vue'
+import { useLatestRequest } from '@/composables/useLatestRequest'
+import { useOpeningHours } from '@/composables/useOpeningHours'
 import { useVenue } from '@/composables/useVenue'
-import type { ApiResponse, BoundingBox, Venue, VenueFilters } from '@/shared/types'
-
-export type BboxCacheEntry = {
-  venues: Venue[]
-  sunPosition: ApiResponse['sunPosition']
-  fetchedAt: number
-}
-
-export const BBOX_CACHE_TTL_MS = 5 * 60 * 1000
+import type { VenueCacheEntry } from '@/composables/venue-cache/IVenueCacheStorage'
+import type { VenueErrorCode } from '@/shared/enums'
+import type { BoundingBox, BuildingFootprint, Venue, VenueFilters } from '@/shared/types'
+import { useSunInfoStore } from './sunInfo'
 
 // Venues store
 // Holds shared venue state across the app.
 // Business logic lives in the useVenues composable.
 export const useVenuesStore = defineStore('venues', () => {
   const venue = useVenue()
+  const sunInfoStore = useSunInfoStore()
+  const { isOpenAt } = useOpeningHours()
 
   const venues = ref<Venue[]>([])
   const loading = ref(false)
   const error = ref<string | null>(null)
   const lastBbox = ref<BoundingBox | null>(null)
-  const bboxCache = ref<Record<string, BboxCacheEntry>>({})
+  // Index of the persisted venue cache, see useVenueCache
+  const cacheEntries = ref<Record<string, VenueCacheEntry>>({})
+  // Read of the persisted cache index, shared so concurrent lookups wait for the same one
+  const cacheLoad = markRaw<{ promise: Promise<void> | null }>({ promise: null })
+  // Venue fetches in flight, shared so a newer fetch from any component supersedes older ones
+  const venueRequests = markRaw(useLatestRequest<VenueErrorCode | null>())
+  const buildings = ref<BuildingFootprint[]>([])
   const filters = ref<VenueFilters>({
     onlySunny: false,
-    onlyWithOutdoorSeating: false
+    onlyWithOutdoorSeating: false,
+    onlyOpen: false
   })
 
   // Computed values for convenience
@@ -45,6 +51,16 @@ export const useVenuesStore = defineStore('venues', () => {
       result = result.filter((venueItem) => venue.hasOutdoorSeating(venueItem))
     }
 
+    // Most venues have no opening hours, so only hide the ones known to be closed.
+    if (filters.value.onlyOpen) {
+      result = result.filter(
+        (venueItem) =>
+          isOpenAt(venueItem.openingHours, sunInfoStore.selectedDateTime, {
+            coordinates: venueItem.coordinates
+          }) !== false
+      )
+    }
+
     return result
   })
 
@@ -71,7 +87,10 @@ export const useVenuesStore = defineStore('venues', () => {
     loading,
     error,
     lastBbox,
-    bboxCache,
+    cacheEntries,
+    cacheLoad,
+    venueRequests,
+    buildings,
     filters,
     sunnyVenues,
     shadedVenues,
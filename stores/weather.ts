@@ -0,0 +1,17 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { CloudCoverForecast } from '@/shared/types'
+
+// Weather store
+// Holds the cloud cover forecast for the area being viewed.
+// Business logic lives in the useWeather composable.
+export const useWeatherStore = defineStore('weather', () => {
+  const forecast = ref<CloudCoverForecast[]>([])
+  // Area and day the forecast was loaded for, to avoid reloading it on every search.
+  const forecastKey = ref<string | null>(null)
+
+  return {
+    forecast,
+    forecastKey
+  }
+})
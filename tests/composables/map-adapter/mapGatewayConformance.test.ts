@@ -0,0 +1,555 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import type { IMapGateway, MapCallbacks } from '@/composables/map-adapter/IMapGateway'
+import { useArcGISMapGateway } from '@/composables/map-adapter/arcgis/useArcGISMapGateway'
+import { useMapLibreMapGateway } from '@/composables/map-adapter/maplibre/useMapLibreMapGateway'
+import { useRasterMapGateway } from '@/composables/map-adapter/raster/useRasterMapGateway'
+import { useRasterViewport } from '@/composables/map-adapter/raster/useRasterViewport'
+import { SunlightStatus } from '@/shared/enums'
+import type { Venue } from '@/shared/types'
+
+type Handler = (payload?: unknown) => void;
+
+// The WebGL engines are replaced by small in-memory fakes that record what the
+// gateways draw, so the same suite can check each IMapGateway implementation.
+// The raster gateway draws plain DOM and runs as is.
+const engines = await vi.hoisted(async () => {
+  const { ref } = await import('vue')
+
+  class FakeSource {
+    data: { features: { properties: Record<string, unknown> }[] } = { features: [] }
+    options: Record<string, unknown> = {}
+
+    setData(data: FakeSource['data']) {
+      this.data = data
+    }
+
+    setClusterOptions(options: Record<string, unknown>) {
+      this.options = options
+    }
+
+    async getClusterExpansionZoom() {
+      return 17
+    }
+  }
+
+  const maplibre = {
+    map: null as FakeMaplibreMap | null,
+    markers: new Set<FakeMarker>()
+  }
+
+  class FakeMaplibreMap {
+    center: [number, number]
+    zoom: number
+    sources = new Map<string, FakeSource>()
+    handlers: { event: string; layer?: string; handler: Handler }[] = []
+
+    constructor(options: { center: [number, number]; zoom: number }) {
+      this.center = options.center
+      this.zoom = options.zoom
+      maplibre.map = this
+    }
+
+    on(event: string, layerOrHandler: string | Handler, handler?: Handler) {
+      const entry = typeof layerOrHandler === 'string'
+        ? { event, layer: layerOrHandler, handler: handler! }
+        : { event, handler: layerOrHandler }
+      this.handlers.push(entry)
+      // The style is available straight away
+      if (event === 'load') entry.handler()
+    }
+
+    fire(event: string, layer?: string, payload?: unknown) {
+      this.handlers
+        .filter((entry) => entry.event === event && entry.layer === layer)
+        .forEach((entry) => entry.handler(payload))
+    }
+
+    addSource(id: string) {
+      this.sources.set(id, new FakeSource())
+    }
+
+    getSource(id: string) {
+      return this.sources.get(id)
+    }
+
+    addLayer() {}
+    addImage() {}
+    easeTo() {}
+
+    getBounds() {
+      const [lng, lat] = this.center
+      return {
+        getSouth: () => lat - 0.01,
+        getWest: () => lng - 0.01,
+        getNorth: () => lat + 0.01,
+        getEast: () => lng + 0.01
+      }
+    }
+
+    getZoom() {
+      return this.zoom
+    }
+
+    flyTo(options: { center: [number, number]; zoom: number }) {
+      this.center = options.center
+      this.zoom = options.zoom
+      this.fire('moveend')
+    }
+
+    setCenter(center: [number, number]) {
+      this.center = center
+    }
+
+    setZoom(zoom: number) {
+      this.zoom = zoom
+    }
+
+    getCanvas() {
+      return { style: {} }
+    }
+
+    querySourceFeatures() {
+      return []
+    }
+
+    isSourceLoaded() {
+      return true
+    }
+
+    remove() {
+      if (maplibre.map === this) maplibre.map = null
+    }
+  }
+
+  class FakeMarker {
+    setLngLat() {
+      return this
+    }
+
+    addTo() {
+      maplibre.markers.add(this)
+      return this
+    }
+
+    remove() {
+      maplibre.markers.delete(this)
+    }
+  }
+
+  type FakeGraphic = { attributes?: Record<string, unknown> };
+
+  class FakeCollection {
+    items: FakeGraphic[] = []
+
+    get length() {
+      return this.items.length
+    }
+
+    forEach(callback: (graphic: FakeGraphic) => void) {
+      this.items.forEach(callback)
+    }
+
+    filter(predicate: (graphic: FakeGraphic) => boolean) {
+      const filtered = new FakeCollection()
+      filtered.items = this.items.filter(predicate)
+      return filtered
+    }
+
+    toArray() {
+      return [...this.items]
+    }
+
+    add(graphic: FakeGraphic, index = this.items.length) {
+      this.items.splice(index, 0, graphic)
+    }
+
+    addMany(graphics: FakeGraphic[], index = this.items.length) {
+      this.items.splice(index, 0, ...graphics)
+    }
+  }
+
+  class FakeGraphicsLayer {
+    graphics = new FakeCollection()
+
+    add(graphic: FakeGraphic) {
+      this.graphics.add(graphic)
+    }
+
+    addMany(graphics: FakeGraphic[]) {
+      this.graphics.addMany(graphics)
+    }
+
+    remove(graphic: FakeGraphic) {
+      this.graphics.items = this.graphics.items.filter((item) => item !== graphic)
+    }
+
+    removeMany(graphics: FakeGraphic[]) {
+      this.graphics.items = this.graphics.items.filter((item) => !graphics.includes(item))
+    }
+  }
+
+  // Stands in for the geometry, graphic and symbol classes: keeps its properties as given
+  const FakeArcGISObject = vi.fn((properties: Record<string, unknown>) => ({ ...properties }))
+
+  const arcgis = {
+    views: [] as ReturnType<typeof createArcGISView>[]
+  }
+
+  // Mirrors the surface of useMapView / useSceneView
+  function createArcGISView() {
+    const isLoading = ref(true)
+    let view: { zoom: number; extent: Record<string, number> } | null = null
+    let layer: FakeGraphicsLayer | null = null
+    let center: [number, number] | null = null
+    const state = {
+      callbacks: null as (MapCallbacks & { onClusterClick: (clusterId: string) => void }) | null,
+      getLayer: () => layer
+    }
+
+    function setCenter(next: [number, number]) {
+      center = next
+      if (view) {
+        view.extent = { xmin: next[1] - 0.01, ymin: next[0] - 0.01, xmax: next[1] + 0.01, ymax: next[0] + 0.01 }
+      }
+    }
+
+    const composable = {
+      isLoading,
+      state,
+      async initialize(
+        _container: HTMLDivElement,
+        initialCenter: [number, number],
+        zoom: number,
+        _modules: unknown,
+        callbacks: typeof state.callbacks
+      ) {
+        layer = new FakeGraphicsLayer()
+        view = { zoom, extent: {} }
+        setCenter(initialCenter)
+        state.callbacks = callbacks
+        isLoading.value = false
+      },
+      // The real views report the new extent once goTo() settles
+      flyTo(latitude: number, longitude: number, zoom?: number) {
+        if (!view) return
+        setCenter([latitude, longitude])
+        if (zoom !== undefined) view.zoom = zoom
+        state.callbacks?.onBoundsChanged({ south: 0, west: 0, north: 0, east: 0 })
+      },
+      goToCenter() {},
+      closePopups() {},
+      getView: () => view,
+      getVenueGraphicsLayer: () => layer,
+      getCenter: () => (view ? center : null),
+      setCenter,
+      setZoom(zoom: number) {
+        if (view) view.zoom = zoom
+      },
+      setLightingDate() {},
+      cleanup() {
+        view = null
+        layer = null
+        state.callbacks = null
+      }
+    }
+    arcgis.views.push(composable)
+    return composable
+  }
+
+  return {
+    maplibre,
+    arcgis,
+    FakeMaplibreMap,
+    FakeMarker,
+    FakeArcGISObject,
+    createArcGISView
+  }
+})
+
+vi.mock('maplibre-gl', () => ({
+  Map: engines.FakeMaplibreMap,
+  Marker: engines.FakeMarker
+}))
+
+vi.mock('maplibre-gl/dist/maplibre-gl.css', () => ({}))
+
+vi.mock('@/composables/map-adapter/arcgis/useArcGISModules', () => ({
+  useArcGISModules: () => ({
+    loadModules: async () => ({
+      Graphic: engines.FakeArcGISObject,
+      Point: engines.FakeArcGISObject,
+      Polygon: engines.FakeArcGISObject,
+      SimpleMarkerSymbol: engines.FakeArcGISObject,
+      SimpleFillSymbol: engines.FakeArcGISObject,
+      PictureMarkerSymbol: engines.FakeArcGISObject,
+      webMercatorToGeographic: (extent: unknown) => extent
+    })
+  })
+}))
+
+vi.mock('@/composables/map-adapter/arcgis/useMapView', () => ({
+  useMapView: engines.createArcGISView
+}))
+
+vi.mock('@/composables/map-adapter/arcgis/useSceneView', () => ({
+  useSceneView: engines.createArcGISView
+}))
+
+// Marker images are SVG data URLs; happy-dom never finishes decoding them
+vi.stubGlobal('Image', class {
+  src = ''
+
+  decode() {
+    return Promise.resolve()
+  }
+})
+
+// What the suite needs to observe on an engine, independent of its API.
+type EngineHarness = {
+  name: string;
+  createGateway: () => IMapGateway;
+  renderedVenueIds: () => string[];
+  clickVenue: (venueId: string) => void;
+  moveMap: (center: [number, number]) => void;
+  hasUserLocation: () => boolean;
+};
+
+const CENTER: [number, number] = [41.39, 2.17]
+const ZOOM = 14
+
+const rasterViewport = useRasterViewport('')
+let rasterCenter = CENTER
+
+// The 2D view is the first one each ArcGIS gateway creates
+const arcGISView = () => engines.arcgis.views.at(-2)!
+
+const harnesses: EngineHarness[] = [
+  {
+    name: 'MapLibre',
+    createGateway: useMapLibreMapGateway,
+    renderedVenueIds: () =>
+      (engines.maplibre.map?.getSource('venues')?.data.features ?? []).map((feature) => feature.properties.id as string),
+    clickVenue: (venueId) =>
+      engines.maplibre.map!.fire('click', 'venues-markers', { features: [{ properties: { id: venueId } }] }),
+    moveMap: (center) => {
+      engines.maplibre.map!.setCenter([center[1], center[0]])
+      engines.maplibre.map!.fire('moveend')
+    },
+    hasUserLocation: () => engines.maplibre.markers.size > 0
+  },
+  {
+    name: 'ArcGIS',
+    createGateway: useArcGISMapGateway,
+    renderedVenueIds: () =>
+      (arcGISView().state.getLayer()?.graphics.toArray() ?? [])
+        .map((graphic) => graphic.attributes?.id as string | undefined)
+        .filter((id): id is string => !!id),
+    clickVenue: (venueId) => arcGISView().state.callbacks!.onVenueClick(venueId),
+    moveMap: (center) => {
+      arcGISView().setCenter(center)
+      arcGISView().state.callbacks!.onBoundsChanged({ south: 0, west: 0, north: 0, east: 0 })
+    },
+    hasUserLocation: () =>
+      !!arcGISView().state.getLayer()?.graphics.toArray()
+        .some((graphic) => graphic.attributes?.type === 'user-location')
+  },
+  {
+    name: 'raster',
+    createGateway: () => {
+      rasterCenter = CENTER
+      return useRasterMapGateway()
+    },
+    renderedVenueIds: () =>
+      [...document.querySelectorAll<HTMLElement>('.raster-map [data-venue-id]')].map((el) => el.dataset.venueId!),
+    clickVenue: (venueId) =>
+      document.querySelector<HTMLElement>(`.raster-map [data-venue-id="${venueId}"]`)!.click(),
+    // Drag the map by the pixel distance between the current and the new center
+    moveMap: (center) => {
+      const root = document.querySelector<HTMLElement>('.raster-map')!
+      root.setPointerCapture = () => {}
+      const from = rasterViewport.project({ latitude: rasterCenter[0], longitude: rasterCenter[1] }, ZOOM)
+      const to = rasterViewport.project({ latitude: center[0], longitude: center[1] }, ZOOM)
+      root.dispatchEvent(new PointerEvent('pointerdown', { clientX: 0, clientY: 0, buttons: 1 }))
+      root.dispatchEvent(new PointerEvent('pointermove', { clientX: from.x - to.x, clientY: from.y - to.y, buttons: 1 }))
+      root.dispatchEvent(new PointerEvent('pointerup'))
+      rasterCenter = center
+    },
+    hasUserLocation: () => !!document.querySelector('.raster-map [data-user-location]')
+  }
+]
+
+const GATEWAY_METHODS: (keyof IMapGateway)[] = [
+  'initialize',
+  'cleanup',
+  'flyTo',
+  'setCenter',
+  'setZoom',
+  'closePopups',
+  'updateVenueMarkers',
+  'setDraftTerrace',
+  'setClustering',
+  'setSunHeatmap',
+  'setUserLocation',
+  'clearUserLocation',
+  'setLightingDate'
+]
+
+// Venues a couple of kilometres apart so neither engine groups them into clusters
+function createVenue(id: string, offset: number): Venue {
+  return {
+    id,
+    name: `Venue ${id}`,
+    type: 'bar',
+    coordinates: { latitude: CENTER[0] + offset * 0.02, longitude: CENTER[1] + offset * 0.02 },
+    sunlightStatus: { status: SunlightStatus.SUNNY, confidence: 1 }
+  }
+}
+
+describe.each(harnesses)('IMapGateway conformance: $name', (harness) => {
+  let gateway: IMapGateway
+  let callbacks: { onBoundsChanged: ReturnType<typeof vi.fn>; onVenueClick: ReturnType<typeof vi.fn> }
+  let container: HTMLDivElement
+
+  async function initialize(): Promise<void> {
+    await gateway.initialize(container, CENTER, ZOOM, callbacks)
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    engines.maplibre.map = null
+    engines.maplibre.markers.clear()
+    engines.arcgis.views = []
+    callbacks = { onBoundsChanged: vi.fn(), onVenueClick: vi.fn() }
+    // happy-dom does no layout, so the container is given a fixed size
+    container = document.createElement('div')
+    Object.defineProperty(container, 'clientWidth', { value: 800 })
+    Object.defineProperty(container, 'clientHeight', { value: 600 })
+    document.body.appendChild(container)
+    gateway = harness.createGateway()
+  })
+
+  afterEach(() => {
+    gateway.cleanup()
+    container.remove()
+    vi.useRealTimers()
+  })
+
+  it('should implement every IMapGateway method', () => {
+    for (const method of GATEWAY_METHODS) {
+      expect(gateway[method], method).toBeTypeOf('function')
+    }
+  })
+
+  it('should report loading until the map is initialised', async () => {
+    expect(gateway.isLoading.value).toBe(true)
+    await initialize()
+    expect(gateway.isLoading.value).toBe(false)
+  })
+
+  it('should emit the initial bounds around the center once ready', async () => {
+    await initialize()
+
+    expect(callbacks.onBoundsChanged).toHaveBeenCalledTimes(1)
+    const bounds = callbacks.onBoundsChanged.mock.calls[0]![0]
+    expect(bounds.south).toBeLessThan(CENTER[0])
+    expect(bounds.north).toBeGreaterThan(CENTER[0])
+    expect(bounds.west).toBeLessThan(CENTER[1])
+    expect(bounds.east).toBeGreaterThan(CENTER[1])
+  })
+
+  it('should debounce bounds updates while the map moves', async () => {
+    await initialize()
+    vi.useFakeTimers()
+    callbacks.onBoundsChanged.mockClear()
+
+    harness.moveMap([41.4, 2.18])
+    harness.moveMap([41.5, 2.19])
+    expect(callbacks.onBoundsChanged).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(500)
+    expect(callbacks.onBoundsChanged).toHaveBeenCalledTimes(1)
+    const bounds = callbacks.onBoundsChanged.mock.calls[0]![0]
+    expect(bounds.south).toBeLessThan(41.5)
+    expect(bounds.north).toBeGreaterThan(41.5)
+  })
+
+  it('should accept every call before initialise and draw stored venues once ready', async () => {
+    const venues = [createVenue('a', 0), createVenue('b', 1)]
+
+    expect(() => {
+      gateway.updateVenueMarkers(venues)
+      gateway.setDraftTerrace(null)
+      gateway.setClustering(true)
+      gateway.setSunHeatmap(null)
+      gateway.setUserLocation(CENTER[0], CENTER[1])
+      gateway.clearUserLocation()
+      gateway.flyTo(CENTER[0], CENTER[1], 15)
+      gateway.setCenter(CENTER)
+      gateway.setZoom(15)
+      gateway.closePopups()
+      gateway.setLightingDate(new Date())
+    }).not.toThrow()
+
+    await initialize()
+    expect(harness.renderedVenueIds().sort()).toEqual(['a', 'b'])
+  })
+
+  it('should replace the rendered venues on every update', async () => {
+    await initialize()
+
+    gateway.updateVenueMarkers([createVenue('a', 0), createVenue('b', 1)])
+    expect(harness.renderedVenueIds().sort()).toEqual(['a', 'b'])
+
+    gateway.updateVenueMarkers([createVenue('c', 2)])
+    expect(harness.renderedVenueIds()).toEqual(['c'])
+
+    gateway.updateVenueMarkers([])
+    expect(harness.renderedVenueIds()).toEqual([])
+  })
+
+  it('should report venue clicks by id', async () => {
+    await initialize()
+    gateway.updateVenueMarkers([createVenue('a', 0)])
+
+    harness.clickVenue('a')
+    expect(callbacks.onVenueClick).toHaveBeenCalledWith('a')
+  })
+
+  it('should fly to latitude and longitude in that order and report the new bounds', async () => {
+    await initialize()
+    vi.useFakeTimers()
+    callbacks.onBoundsChanged.mockClear()
+
+    gateway.flyTo(48.85, 2.35, 15)
+    vi.advanceTimersByTime(500)
+
+    const bounds = callbacks.onBoundsChanged.mock.calls.at(-1)![0]
+    expect(bounds.south).toBeLessThan(48.85)
+    expect(bounds.north).toBeGreaterThan(48.85)
+    expect(bounds.west).toBeLessThan(2.35)
+    expect(bounds.east).toBeGreaterThan(2.35)
+  })
+
+  it('should place, move and clear the user location pin', async () => {
+    await initialize()
+
+    gateway.setUserLocation(41.4, 2.18)
+    gateway.setUserLocation(41.41, 2.19)
+    expect(harness.hasUserLocation()).toBe(true)
+
+    gateway.clearUserLocation()
+    expect(harness.hasUserLocation()).toBe(false)
+  })
+
+  it('should tolerate repeated cleanup and calls afterwards', async () => {
+    await initialize()
+
+    expect(() => {
+      gateway.cleanup()
+      gateway.cleanup()
+      gateway.flyTo(CENTER[0], CENTER[1])
+      gateway.updateVenueMarkers([createVenue('a', 0)])
+    }).not.toThrow()
+  })
+})
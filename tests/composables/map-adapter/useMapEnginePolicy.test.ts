@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { useMapEnginePolicy, type MapEngineContext } from '@/composables/map-adapter/useMapEnginePolicy'
+
+const { parseEngine, selectEngine } = useMapEnginePolicy()
+
+function createContext(overrides: Partial<MapEngineContext> = {}): MapEngineContext {
+  return {
+    isTauri: false,
+    platform: null,
+    isWebGLSupported: true,
+    isWebGL2Supported: true,
+    preference: 'auto',
+    isOnline: true,
+    hasOfflineRegions: false,
+    queryOverride: undefined,
+    ...overrides
+  }
+}
+
+describe('useMapEnginePolicy Composable', () => {
+  describe('parseEngine', () => {
+    it('should accept known engine names', () => {
+      expect(parseEngine('maplibre')).toBe('maplibre')
+      expect(parseEngine('arcgis')).toBe('arcgis')
+      expect(parseEngine('raster')).toBe('raster')
+    })
+
+    it('should use the first value of a repeated query parameter', () => {
+      expect(parseEngine(['arcgis', 'maplibre'])).toBe('arcgis')
+    })
+
+    it('should reject unknown values', () => {
+      expect(parseEngine('leaflet')).toBeNull()
+      expect(parseEngine('auto')).toBeNull()
+      expect(parseEngine(undefined)).toBeNull()
+    })
+  })
+
+  describe('selectEngine', () => {
+    it('should default to MapLibre even with full WebGL2 support', () => {
+      expect(selectEngine(createContext())).toEqual({ engine: 'maplibre', reason: 'default' })
+    })
+
+    it('should use MapLibre when WebGL2 render targets are unavailable', () => {
+      expect(selectEngine(createContext({ isWebGL2Supported: false })).engine).toBe('maplibre')
+    })
+
+    it('should fall back to raster tiles when WebGL is unavailable', () => {
+      const noWebGL = { isWebGLSupported: false, isWebGL2Supported: false }
+      expect(selectEngine(createContext(noWebGL))).toEqual({ engine: 'raster', reason: 'capability' })
+      expect(selectEngine(createContext({ ...noWebGL, preference: 'arcgis' })).engine).toBe('raster')
+      expect(selectEngine(createContext({ ...noWebGL, preference: 'maplibre' })).engine).toBe('raster')
+    })
+
+    it('should honour the user preference over the default', () => {
+      expect(selectEngine(createContext({ preference: 'maplibre' }))).toEqual({ engine: 'maplibre', reason: 'preference' })
+      expect(selectEngine(createContext({ preference: 'arcgis' }))).toEqual({ engine: 'arcgis', reason: 'preference' })
+    })
+
+    it('should switch to MapLibre when offline with downloaded regions', () => {
+      const offline = { isOnline: false, hasOfflineRegions: true }
+      expect(selectEngine(createContext({ ...offline, preference: 'arcgis' }))).toEqual({ engine: 'maplibre', reason: 'offline' })
+      expect(selectEngine(createContext({ ...offline, queryOverride: 'arcgis' })).engine).toBe('arcgis')
+      expect(selectEngine(createContext({ ...offline, hasOfflineRegions: false, preference: 'arcgis' })).engine).toBe('arcgis')
+      expect(selectEngine(createContext({ ...offline, isWebGLSupported: false })).engine).toBe('raster')
+    })
+
+    it('should ignore a preference the device cannot render', () => {
+      const selection = selectEngine(createContext({ preference: 'arcgis', isWebGL2Supported: false }))
+      expect(selection).toEqual({ engine: 'maplibre', reason: 'default' })
+    })
+
+    it('should keep the mobile apps on MapLibre instead of a stored ArcGIS preference', () => {
+      const android = { isTauri: true, platform: 'android', preference: 'arcgis' as const }
+      expect(selectEngine(createContext(android))).toEqual({ engine: 'maplibre', reason: 'platform' })
+      expect(selectEngine(createContext({ ...android, platform: 'ios' }))).toEqual({ engine: 'maplibre', reason: 'platform' })
+      expect(selectEngine(createContext({ ...android, preference: 'raster' }))).toEqual({ engine: 'raster', reason: 'preference' })
+      expect(selectEngine(createContext({ ...android, queryOverride: 'arcgis' }))).toEqual({ engine: 'arcgis', reason: 'query' })
+      expect(selectEngine(createContext({ ...android, isWebGLSupported: false, isWebGL2Supported: false })).engine).toBe('raster')
+    })
+
+    it('should honour an ArcGIS preference in the desktop app', () => {
+      const selection = selectEngine(createContext({ isTauri: true, platform: 'windows', preference: 'arcgis' }))
+      expect(selection).toEqual({ engine: 'arcgis', reason: 'preference' })
+    })
+
+    it('should allow forcing the raster fallback on capable devices', () => {
+      expect(selectEngine(createContext({ preference: 'raster' }))).toEqual({ engine: 'raster', reason: 'preference' })
+      expect(selectEngine(createContext({ queryOverride: 'raster' }))).toEqual({ engine: 'raster', reason: 'query' })
+    })
+
+    it('should let the query override win over the preference', () => {
+      const selection = selectEngine(createContext({ preference: 'arcgis', queryOverride: 'maplibre' }))
+      expect(selection).toEqual({ engine: 'maplibre', reason: 'query' })
+    })
+
+    it('should ignore invalid or unsupported query overrides', () => {
+      expect(selectEngine(createContext({ queryOverride: 'leaflet', preference: 'maplibre' })).reason).toBe('preference')
+      expect(selectEngine(createContext({ queryOverride: 'arcgis', isWebGL2Supported: false })).engine).toBe('maplibre')
+    })
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { RASTER_MAX_ZOOM, RASTER_MIN_ZOOM, useRasterViewport, type RasterViewport } from '@/composables/map-adapter/raster/useRasterViewport'
+
+const { clampZoom, project, unproject, toScreen, fromScreen, pan, getBounds, getVisibleTiles } =
+  useRasterViewport('https://tiles.example/{z}/{x}/{y}.png')
+
+const viewport: RasterViewport = {
+  center: { latitude: 41.39, longitude: 2.17 },
+  zoom: 14,
+  width: 800,
+  height: 600
+}
+
+describe('useRasterViewport Composable', () => {
+  describe('project / unproject', () => {
+    it('should place the origin at the centre of the world map', () => {
+      expect(project({ latitude: 0, longitude: 0 }, 0)).toEqual({ x: 128, y: 128 })
+    })
+
+    it('should round-trip coordinates', () => {
+      const point = project(viewport.center, 14)
+      const coordinates = unproject(point, 14)
+      expect(coordinates.latitude).toBeCloseTo(41.39, 8)
+      expect(coordinates.longitude).toBeCloseTo(2.17, 8)
+    })
+  })
+
+  describe('toScreen / fromScreen', () => {
+    it('should draw the center in the middle of the viewport', () => {
+      const { x, y } = toScreen(viewport.center, viewport)
+      expect(x).toBeCloseTo(400, 6)
+      expect(y).toBeCloseTo(300, 6)
+    })
+
+    it('should put north up and east right', () => {
+      const northEast = toScreen({ latitude: 41.4, longitude: 2.18 }, viewport)
+      expect(northEast.x).toBeGreaterThan(400)
+      expect(northEast.y).toBeLessThan(300)
+    })
+
+    it('should invert toScreen', () => {
+      const coordinates = fromScreen({ x: 123, y: 456 }, viewport)
+      const { x, y } = toScreen(coordinates, viewport)
+      expect(x).toBeCloseTo(123, 6)
+      expect(y).toBeCloseTo(456, 6)
+    })
+  })
+
+  describe('pan', () => {
+    it('should move the center against the drag direction', () => {
+      const center = pan(viewport, 100, 0)
+      expect(center.longitude).toBeLessThan(2.17)
+      expect(center.latitude).toBeCloseTo(41.39, 8)
+    })
+  })
+
+  describe('getBounds', () => {
+    it('should surround the center', () => {
+      const bounds = getBounds(viewport)
+      expect(bounds.south).toBeLessThan(41.39)
+      expect(bounds.north).toBeGreaterThan(41.39)
+      expect(bounds.west).toBeLessThan(2.17)
+      expect(bounds.east).toBeGreaterThan(2.17)
+    })
+  })
+
+  describe('getVisibleTiles', () => {
+    it('should cover the whole viewport with tiles', () => {
+      const tiles = getVisibleTiles(viewport)
+      const minLeft = Math.min(...tiles.map((tile) => tile.left))
+      const minTop = Math.min(...tiles.map((tile) => tile.top))
+      const maxRight = Math.max(...tiles.map((tile) => tile.left + 256))
+      const maxBottom = Math.max(...tiles.map((tile) => tile.top + 256))
+      expect(minLeft).toBeLessThanOrEqual(0)
+      expect(minTop).toBeLessThanOrEqual(0)
+      expect(maxRight).toBeGreaterThanOrEqual(800)
+      expect(maxBottom).toBeGreaterThanOrEqual(600)
+    })
+
+    it('should fill in the tile URL template', () => {
+      const tiles = getVisibleTiles({ ...viewport, center: { latitude: -10, longitude: 10 }, zoom: 2, width: 1, height: 1 })
+      expect(tiles.map((tile) => tile.url)).toEqual(['https://tiles.example/2/2/2.png'])
+    })
+
+    it('should wrap tiles across the antimeridian', () => {
+      const tiles = getVisibleTiles({ ...viewport, center: { latitude: -10, longitude: 180 }, zoom: 2, width: 200, height: 1 })
+      expect(tiles.map((tile) => tile.url)).toEqual(['https://tiles.example/2/3/2.png', 'https://tiles.example/2/0/2.png'])
+    })
+  })
+
+  describe('clampZoom', () => {
+    it('should round to whole zoom levels within the tile range', () => {
+      expect(clampZoom(14.4)).toBe(14)
+      expect(clampZoom(0)).toBe(RASTER_MIN_ZOOM)
+      expect(clampZoom(25)).toBe(RASTER_MAX_ZOOM)
+    })
+  })
+})
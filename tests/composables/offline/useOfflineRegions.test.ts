@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useOfflineRegions } from '@/composables/offline/useOfflineRegions'
+import { useOfflineRegionsStore } from '@/stores/offlineRegions'
+import type { OfflineRegion, VenueResponse } from '@/shared/types'
+
+vi.stubGlobal('useRuntimeConfig', () => ({ public: { apiBaseUrl: '' } }))
+
+const barcelona = { south: 41.37, west: 2.15, north: 41.41, east: 2.19 }
+
+function createRegion(overrides: Partial<OfflineRegion> = {}): OfflineRegion {
+  return {
+    id: 'region-1',
+    name: 'Barcelona',
+    bounds: barcelona,
+    minZoom: 10,
+    maxZoom: 14,
+    tileCount: 100,
+    venueCount: 2,
+    buildingCount: 2,
+    sizeBytes: 1000,
+    downloadedAt: '2026-06-21T12:00:00.000Z',
+    ...overrides
+  }
+}
+
+function createVenue(id: string, latitude: number, longitude: number): VenueResponse {
+  return { id, name: id, type: 'bar', latitude, longitude }
+}
+
+let offlineRegions: ReturnType<typeof useOfflineRegions>
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+  offlineRegions = useOfflineRegions()
+})
+
+describe('useOfflineRegions Composable', () => {
+  describe('getAreaAround', () => {
+    it('should build a square of the radius around the center', () => {
+      const area = offlineRegions.getAreaAround({ latitude: 0, longitude: 0 }, 1113.2)
+
+      expect(area.north).toBeCloseTo(0.01)
+      expect(area.south).toBeCloseTo(-0.01)
+      expect(area.east).toBeCloseTo(0.01)
+      expect(area.west).toBeCloseTo(-0.01)
+    })
+
+    it('should widen the longitude span away from the equator', () => {
+      const area = offlineRegions.getAreaAround({ latitude: 60, longitude: 0 }, 1113.2)
+
+      expect(area.east).toBeCloseTo(0.02)
+    })
+  })
+
+  describe('splitIntoCells', () => {
+    it('should cover the bounds with cells no larger than the size', () => {
+      const cells = offlineRegions.splitIntoCells({ south: 0, west: 0, north: 0.1, east: 0.12 }, 0.05)
+
+      expect(cells).toHaveLength(6)
+      cells.forEach((cell) => {
+        expect(cell.north - cell.south).toBeLessThanOrEqual(0.05)
+        expect(cell.east - cell.west).toBeLessThanOrEqual(0.05)
+      })
+      expect(cells[0]).toMatchObject({ south: 0, west: 0 })
+      expect(cells.at(-1)!.north).toBeCloseTo(0.1)
+      expect(cells.at(-1)!.east).toBeCloseTo(0.12)
+    })
+
+    it('should keep small bounds as a single cell', () => {
+      const bounds = { south: 0, west: 0, north: 0.01, east: 0.01 }
+      expect(offlineRegions.splitIntoCells(bounds, 0.05)).toEqual([bounds])
+    })
+  })
+
+  describe('getTiles', () => {
+    it('should return the single world tile at zoom 0', () => {
+      expect(offlineRegions.getTiles(barcelona, 0, 0)).toEqual([{ z: 0, x: 0, y: 0 }])
+    })
+
+    it('should return the tiles of every zoom level in the range', () => {
+      const tiles = offlineRegions.getTiles(barcelona, 10, 12)
+
+      expect(tiles.some((tile) => tile.z === 10 && tile.x === 518 && tile.y === 382)).toBe(true)
+      expect(new Set(tiles.map((tile) => tile.z))).toEqual(new Set([10, 11, 12]))
+      expect(offlineRegions.estimateTileCount(barcelona)).toBeGreaterThan(tiles.length)
+    })
+  })
+
+  describe('getOfflineData', () => {
+    it('should return null when no region covers the bounding box', async () => {
+      expect(await offlineRegions.getOfflineData(barcelona)).toBeNull()
+    })
+
+    it('should return the venues inside the bounding box and the buildings around it', async () => {
+      const store = useOfflineRegionsStore()
+      store.regions = [createRegion()]
+      store.loadedData.set('region-1', {
+        venues: [createVenue('inside', 41.39, 2.17), createVenue('outside', 41.40, 2.185)],
+        buildings: [
+          { id: 'near', footprint: [{ latitude: 41.3955, longitude: 2.17 }], height: 20 },
+          { id: 'far', footprint: [{ latitude: 41.405, longitude: 2.17 }], height: 20 }
+        ]
+      })
+
+      const data = await offlineRegions.getOfflineData({ south: 41.385, west: 2.165, north: 41.395, east: 2.175 })
+
+      expect(data!.venues.map((venue) => venue.id)).toEqual(['inside'])
+      expect(data!.buildings.map((building) => building.id)).toEqual(['near'])
+    })
+  })
+})
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useBestTime } from '@/composables/useBestTime'
+import { SunlightStatus } from '@/shared/enums'
+import type { BuildingFootprint, Venue } from '@/shared/types'
+import { useSunInfoStore } from '@/stores/sunInfo'
+import { useVenuesStore } from '@/stores/venues'
+
+const summerDay = new Date('2024-06-21T12:00:00Z')
+
+function createVenue(overrides: Partial<Venue> = {}): Venue {
+  return {
+    id: '1',
+    name: 'Terrace Bar',
+    type: 'bar',
+    coordinates: { latitude: 41.39, longitude: 2.17 },
+    ...overrides
+  }
+}
+
+// A low building far from every venue, so slots can be ranked without anything being shaded
+const distantBuilding: BuildingFootprint = {
+  id: 'distant',
+  height: 3,
+  footprint: [
+    { latitude: 41.5, longitude: 2.3 },
+    { latitude: 41.5, longitude: 2.3001 },
+    { latitude: 41.5001, longitude: 2.3001 },
+    { latitude: 41.5001, longitude: 2.3 }
+  ]
+}
+
+let bestTime: ReturnType<typeof useBestTime>
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+  useSunInfoStore().selectedDateTime = summerDay
+  useVenuesStore().buildings = [distantBuilding]
+  bestTime = useBestTime()
+})
+
+describe('useBestTime Composable', () => {
+  describe('scoreVenueSlots', () => {
+    it('should cover daylight in 30 minute slots', () => {
+      const slots = bestTime.scoreVenueSlots(createVenue(), summerDay)
+
+      expect(slots.length).toBeGreaterThan(25)
+      expect(slots[0]!.end.getTime() - slots[0]!.start.getTime()).toBe(30 * 60 * 1000)
+    })
+
+    it('should zero out slots when the venue is closed', () => {
+      const venue = createVenue({ openingHours: 'Mo-Su 18:00-23:00' })
+      const slots = bestTime.scoreVenueSlots(venue, summerDay)
+      const morning = slots.find((slot) => slot.start.getHours() === 8)
+
+      expect(morning?.isOpen).toBe(false)
+      expect(morning?.score).toBe(0)
+    })
+
+    it('should reuse the venue status for the slot containing the selected time', () => {
+      const venue = createVenue({
+        sunlightStatus: { status: SunlightStatus.SHADED, confidence: 1 }
+      })
+      const slots = bestTime.scoreVenueSlots(venue, summerDay)
+      const selectedSlot = slots.find((slot) => slot.start <= summerDay && summerDay < slot.end)
+
+      expect(selectedSlot?.status).toBe(SunlightStatus.SHADED)
+      expect(selectedSlot?.score).toBe(0)
+    })
+
+    it('should leave the other slots unknown without building footprints', () => {
+      useVenuesStore().buildings = []
+      const venue = createVenue({
+        sunlightStatus: { status: SunlightStatus.SUNNY, confidence: 1 }
+      })
+      const slots = bestTime.scoreVenueSlots(venue, summerDay)
+      const otherSlots = slots.filter((slot) => !(slot.start <= summerDay && summerDay < slot.end))
+
+      expect(otherSlots.every((slot) => slot.status === SunlightStatus.UNKNOWN && slot.score === 0)).toBe(true)
+    })
+  })
+
+  describe('getBestVenueSlot', () => {
+    it('should return the earliest fully sunny slot while open', () => {
+      const venue = createVenue({ openingHours: 'Mo-Su 13:00-20:00' })
+      const best = bestTime.getBestVenueSlot(venue, summerDay)
+
+      expect(best?.isOpen).toBe(true)
+      expect(best?.score).toBe(1)
+      expect(best?.start.getHours()).toBe(13)
+    })
+
+    it('should return null when the venue is never open in daylight', () => {
+      const venue = createVenue({ openingHours: 'Mo-Su 23:00-23:59' })
+      expect(bestTime.getBestVenueSlot(venue, summerDay)).toBeNull()
+    })
+
+    it('should return null without building footprints', () => {
+      useVenuesStore().buildings = []
+      expect(bestTime.getBestVenueSlot(createVenue(), summerDay)).toBeNull()
+    })
+  })
+
+  describe('rankAreaSlots', () => {
+    it('should average venue scores inside the bounds', () => {
+      useVenuesStore().venues = [
+        createVenue({ id: '1' }),
+        createVenue({ id: '2', openingHours: 'Mo-Su 18:00-23:00' }),
+        createVenue({ id: 'outside', coordinates: { latitude: 40, longitude: 2.17 } })
+      ]
+
+      const slots = bestTime.rankAreaSlots(
+        { south: 41.38, west: 2.16, north: 41.4, east: 2.18 },
+        summerDay
+      )
+
+      expect(slots[0]!.score).toBe(1)
+      expect(slots[0]!.status).toBe(SunlightStatus.SUNNY)
+      expect(slots.at(-1)!.score).toBe(0.5)
+      expect(slots.at(-1)!.status).toBe(SunlightStatus.PARTIALLY_SUNNY)
+    })
+
+    it('should match the slots of venues with different sunrises by their start time', () => {
+      const west = createVenue({ id: 'west' })
+      const east = createVenue({ id: 'east', coordinates: { latitude: 41.39, longitude: 8 } })
+      useVenuesStore().venues = [west, east]
+
+      const slots = bestTime.rankAreaSlots({ south: 41.38, west: 2.16, north: 41.4, east: 8.1 }, summerDay)
+
+      const starts = [west, east].flatMap((venue) => bestTime.scoreVenueSlots(venue, summerDay)
+        .filter((slot) => slot.score > 0)
+        .map((slot) => slot.start.getTime()))
+      expect(slots).toHaveLength(new Set(starts).size)
+      expect(Math.min(...slots.map((slot) => slot.start.getTime()))).toBe(Math.min(...starts))
+    })
+
+    it('should return no slots for an empty area', () => {
+      expect(
+        bestTime.rankAreaSlots({ south: 0, west: 0, north: 1, east: 1 }, summerDay)
+      ).toEqual([])
+    })
+  })
+})
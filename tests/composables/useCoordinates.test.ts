@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest'
 import { useCoordinates } from '@/composables/useCoordinates'
 
-const { create, toArray, toLatLng, areEqual, calculateDistance } =
+const { create, toArray, toLatLng, areEqual, calculateDistance, isInsideBounds } =
   useCoordinates()
 
 describe('useCoordinates Composable', () => {
@@ -75,4 +75,16 @@ describe('useCoordinates Composable', () => {
       expect(calculateDistance(coords, coords)).toBe(0)
     })
   })
+  describe('isInsideBounds', () => {
+    const bounds = { south: 41.38, west: 2.16, north: 41.4, east: 2.18 }
+
+    it('should include points inside the box and on its edges', () => {
+      expect(isInsideBounds(create(41.39, 2.17), bounds)).toBe(true)
+      expect(isInsideBounds(create(41.38, 2.18), bounds)).toBe(true)
+    })
+
+    it('should exclude points outside the box', () => {
+      expect(isInsideBounds(create(41.41, 2.17), bounds)).toBe(false)
+    })
+  })
 })
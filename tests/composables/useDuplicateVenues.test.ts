@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useDuplicateVenues } from '@/composables/useDuplicateVenues'
+import { useVenueCache } from '@/composables/venue-cache/useVenueCache'
+import { useVenuesStore } from '@/stores/venues'
+import type { Venue } from '@/shared/types'
+
+const sunPosition = { azimuth: 180, altitude: 45, isDaytime: true }
+const location = { latitude: 41.3851, longitude: 2.1734 }
+
+function createVenue(id: string, name: string, metersNorth: number): Venue {
+  return {
+    id,
+    name,
+    type: 'bar',
+    coordinates: { latitude: location.latitude + metersNorth / 111_320, longitude: location.longitude }
+  }
+}
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+})
+
+describe('useDuplicateVenues Composable', () => {
+  describe('getNameSimilarity', () => {
+    it('should ignore case, accents, punctuation and generic words', () => {
+      const { getNameSimilarity } = useDuplicateVenues()
+      expect(getNameSimilarity('Bar Pepe', 'PEPE')).toBe(1)
+      expect(getNameSimilarity('Cafè de l\'Òpera', 'Cafe Opera')).toBe(1)
+    })
+
+    it('should score slightly different spellings as similar', () => {
+      const { getNameSimilarity } = useDuplicateVenues()
+      expect(getNameSimilarity('La Cervecería Catalana', 'Cerveceria Catalana BCN')).toBeGreaterThan(0.8)
+    })
+
+    it('should score different names as dissimilar', () => {
+      const { getNameSimilarity } = useDuplicateVenues()
+      expect(getNameSimilarity('Bar Pepe', 'Bar Marina')).toBeLessThan(0.5)
+    })
+
+    it('should compare names made only of generic words as they are', () => {
+      const { getNameSimilarity } = useDuplicateVenues()
+      expect(getNameSimilarity('Bar', 'bar')).toBe(1)
+    })
+  })
+
+  describe('findDuplicates', () => {
+    it('should find nearby venues with a similar name, best match first', async () => {
+      useVenuesStore().venues = [
+        createVenue('far-pepe', 'Bar Pepe', 400),
+        createVenue('near-pepe', 'Pepe', 30),
+        createVenue('closer-pepe', 'Bar Pepe', 10),
+        createVenue('marina', 'Bar Marina', 5)
+      ]
+
+      const duplicates = await useDuplicateVenues().findDuplicates('Bar Pepe', location)
+
+      expect(duplicates.map((candidate) => candidate.venue.id)).toEqual(['closer-pepe', 'near-pepe'])
+      expect(duplicates[0]!.distanceMeters).toBeCloseTo(10, 0)
+    })
+
+    it('should find venues that are only in the venue cache', async () => {
+      const cached = createVenue('cached', 'El Xampanyet', -20)
+      await useVenueCache().save(
+        { south: 41.38, west: 2.17, north: 41.39, east: 2.18 },
+        1000,
+        [cached],
+        sunPosition
+      )
+
+      const duplicates = await useDuplicateVenues().findDuplicates('Xampanyet', location)
+
+      expect(duplicates.map((candidate) => candidate.venue.id)).toEqual(['cached'])
+    })
+
+    it('should find nothing when no nearby venue looks alike', async () => {
+      useVenuesStore().venues = [createVenue('marina', 'Bar Marina', 5)]
+
+      expect(await useDuplicateVenues().findDuplicates('Bar Pepe', location)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useHorizonProfile } from '@/composables/useHorizonProfile'
+import { useShadowCasting } from '@/composables/useShadowCasting'
+import { useSunInfo } from '@/composables/useSunInfo'
+import { SunlightStatus } from '@/shared/enums'
+import type { Coordinates, DemTile, SunPosition } from '@/shared/types'
+
+const barcelona: Coordinates = { latitude: 41.39, longitude: 2.17 }
+const RIDGE_HEIGHT = 300
+
+// Flat ground with a north–south ridge starting about 1 km west of the venue.
+function westernRidgeTile(): DemTile {
+  const rows = 41
+  const columns = 61
+  const tile = {
+    south: barcelona.latitude - 0.02,
+    west: barcelona.longitude - 0.03,
+    north: barcelona.latitude + 0.02,
+    east: barcelona.longitude + 0.03,
+    rows,
+    columns
+  }
+  const ridgeLongitude = barcelona.longitude - 0.012
+  const heights = Array.from({ length: rows * columns }, (_, index) => {
+    const longitude = tile.west + ((index % columns) / (columns - 1)) * (tile.east - tile.west)
+    return longitude <= ridgeLongitude ? RIDGE_HEIGHT : 0
+  })
+  return { ...tile, heights }
+}
+
+// Sun position towards a compass bearing in degrees; SunCalc azimuths start at south.
+function sunTowards(bearingDegrees: number, altitudeDegrees: number): SunPosition {
+  return {
+    azimuth: ((bearingDegrees - 180) * Math.PI) / 180,
+    altitude: (altitudeDegrees * Math.PI) / 180,
+    timestamp: new Date()
+  }
+}
+
+let horizon: ReturnType<typeof useHorizonProfile>
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+  horizon = useHorizonProfile()
+})
+
+describe('useHorizonProfile Composable', () => {
+  describe('getHorizonAltitude', () => {
+    it('should be 0 without a DEM tile', () => {
+      expect(horizon.getProfile(barcelona)).toBeNull()
+      expect(horizon.getHorizonAltitude(barcelona, sunTowards(270, 5))).toBe(0)
+    })
+
+    it('should rise towards the ridge and stay flat elsewhere', () => {
+      horizon.setDemTile(westernRidgeTile())
+
+      const west = (horizon.getHorizonAltitude(barcelona, sunTowards(270, 5)) * 180) / Math.PI
+      const east = horizon.getHorizonAltitude(barcelona, sunTowards(90, 5))
+
+      expect(west).toBeGreaterThan(14)
+      expect(west).toBeLessThan(20)
+      expect(east).toBe(0)
+    })
+
+    it('should return null profiles outside the tile', () => {
+      horizon.setDemTile(westernRidgeTile())
+
+      expect(horizon.getProfile({ latitude: 40, longitude: 2.17 })).toBeNull()
+    })
+  })
+
+  describe('isBehindTerrain', () => {
+    it('should hide a low evening sun behind the ridge', () => {
+      horizon.setDemTile(westernRidgeTile())
+
+      expect(horizon.isBehindTerrain(barcelona, sunTowards(285, 8))).toBe(true)
+      expect(horizon.isBehindTerrain(barcelona, sunTowards(285, 25))).toBe(false)
+      expect(horizon.isBehindTerrain(barcelona, sunTowards(285, -2))).toBe(false)
+    })
+  })
+
+  describe('effective horizon', () => {
+    it('should end the day early behind the ridge', () => {
+      const { isDaytime } = useSunInfo()
+      const eveningSun = new Date('2024-06-21T18:30:00Z')
+
+      expect(isDaytime(barcelona, eveningSun)).toBe(true)
+      horizon.setDemTile(westernRidgeTile())
+      expect(isDaytime(barcelona, eveningSun)).toBe(false)
+      expect(isDaytime(barcelona, new Date('2024-06-21T17:30:00Z'))).toBe(true)
+    })
+
+    it('should shade venues when the sun is behind terrain', () => {
+      const { computeSunlightStatus } = useShadowCasting()
+      horizon.setDemTile(westernRidgeTile())
+      const position = sunTowards(285, 8)
+
+      const status = computeSunlightStatus(barcelona, [], position, horizon.getHorizonAltitude(barcelona, position))
+
+      expect(status.status).toBe(SunlightStatus.SHADED)
+      expect(status.reason).toBe('sunlight.description.behindTerrain')
+    })
+  })
+})
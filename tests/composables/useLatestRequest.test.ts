@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest'
+import { useLatestRequest, type LatestRequestContext } from '@/composables/useLatestRequest'
+
+// A task that resolves when the test says so, recording the context it ran with.
+function createDeferredTask<T>() {
+  let resolve!: (value: T) => void
+  let context!: LatestRequestContext
+  const task = vi.fn((requestContext: LatestRequestContext) => {
+    context = requestContext
+    return new Promise<T>((done) => {
+      resolve = done
+    })
+  })
+  return { task, resolve: (value: T) => resolve(value), getContext: () => context }
+}
+
+describe('useLatestRequest Composable', () => {
+  it('should run a task and return its result', async () => {
+    const { run } = useLatestRequest<string>()
+
+    await expect(run('a', async () => 'result')).resolves.toBe('result')
+  })
+
+  it('should join an identical request already in flight', async () => {
+    const { run } = useLatestRequest<string>()
+    const first = createDeferredTask<string>()
+    const second = createDeferredTask<string>()
+
+    const firstPromise = run('a', first.task)
+    const secondPromise = run('a', second.task)
+    first.resolve('shared')
+
+    expect(second.task).not.toHaveBeenCalled()
+    await expect(firstPromise).resolves.toBe('shared')
+    await expect(secondPromise).resolves.toBe('shared')
+  })
+
+  it('should abort the request in flight when another one starts', () => {
+    const { run } = useLatestRequest<string>()
+    const first = createDeferredTask<string>()
+
+    run('a', first.task)
+    expect(first.getContext().signal.aborted).toBe(false)
+
+    run('b', createDeferredTask<string>().task)
+
+    expect(first.getContext().signal.aborted).toBe(true)
+    expect(first.getContext().isCurrent()).toBe(false)
+  })
+
+  it('should mark a late response from an older request as not current', async () => {
+    const { run } = useLatestRequest<string>()
+    const older = createDeferredTask<string>()
+    const newer = createDeferredTask<string>()
+    const applied: string[] = []
+    const applyIfCurrent = (task: ReturnType<typeof createDeferredTask<string>>) =>
+      async (context: LatestRequestContext) => {
+        const value = await task.task(context)
+        if (context.isCurrent()) applied.push(value)
+        return value
+      }
+
+    const olderPromise = run('old', applyIfCurrent(older))
+    const newerPromise = run('new', applyIfCurrent(newer))
+    newer.resolve('new')
+    await newerPromise
+    older.resolve('old')
+    await olderPromise
+
+    expect(applied).toEqual(['new'])
+  })
+
+  it('should start a new request once the identical one has finished', async () => {
+    const { run } = useLatestRequest<number>()
+    const task = vi.fn(async () => task.mock.calls.length)
+
+    await run('a', task)
+    await run('a', task)
+
+    expect(task).toHaveBeenCalledTimes(2)
+  })
+})
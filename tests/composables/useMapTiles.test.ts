@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { useMapTiles } from '@/composables/useMapTiles'
+
+const { getTilesInBounds, getTileBounds } = useMapTiles()
+
+describe('useMapTiles Composable', () => {
+  describe('getTilesInBounds', () => {
+    it('should return the single world tile at zoom 0', () => {
+      expect(getTilesInBounds({ south: -60, west: -170, north: 60, east: 170 }, 0)).toEqual([{ z: 0, x: 0, y: 0 }])
+    })
+
+    it('should return the tiles covering a city viewport', () => {
+      const tiles = getTilesInBounds({ south: 41.37, west: 2.15, north: 41.41, east: 2.19 }, 10)
+
+      expect(tiles).toEqual([{ z: 10, x: 518, y: 382 }])
+    })
+
+    it('should list the tiles row by row from the north-west', () => {
+      const tiles = getTilesInBounds({ south: -10, west: -10, north: 10, east: 10 }, 1)
+
+      expect(tiles).toEqual([
+        { z: 1, x: 0, y: 0 },
+        { z: 1, x: 1, y: 0 },
+        { z: 1, x: 0, y: 1 },
+        { z: 1, x: 1, y: 1 }
+      ])
+    })
+
+    it('should clamp bounds beyond the edges of the world', () => {
+      const tiles = getTilesInBounds({ south: -90, west: -200, north: 90, east: 200 }, 1)
+
+      expect(tiles).toHaveLength(4)
+    })
+  })
+
+  describe('getTileBounds', () => {
+    it('should return the area of a tile', () => {
+      const bounds = getTileBounds({ z: 1, x: 1, y: 0 })
+
+      expect(bounds.south).toBeCloseTo(0)
+      expect(bounds.west).toBe(0)
+      expect(bounds.north).toBeCloseTo(85.0511)
+      expect(bounds.east).toBe(180)
+    })
+
+    it('should contain the points the tile was computed from', () => {
+      const point = { latitude: 41.3874, longitude: 2.1686 }
+      const [tile] = getTilesInBounds({ south: point.latitude, west: point.longitude, north: point.latitude, east: point.longitude }, 13)
+      const bounds = getTileBounds(tile!)
+
+      expect(point.latitude).toBeGreaterThanOrEqual(bounds.south)
+      expect(point.latitude).toBeLessThanOrEqual(bounds.north)
+      expect(point.longitude).toBeGreaterThanOrEqual(bounds.west)
+      expect(point.longitude).toBeLessThanOrEqual(bounds.east)
+      expect(bounds.north - bounds.south).toBeLessThan(0.05)
+      expect(bounds.east - bounds.west).toBeLessThan(0.05)
+    })
+  })
+})
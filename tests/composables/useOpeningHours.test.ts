@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useOpeningHours } from '@/composables/useOpeningHours'
+
+// 2024-06-21 is a Friday
+const fridayAt = (time: string) => new Date(`2024-06-21T${time}:00`)
+const saturdayAt = (time: string) => new Date(`2024-06-22T${time}:00`)
+const sundayAt = (time: string) => new Date(`2024-06-23T${time}:00`)
+
+describe('useOpeningHours Composable', () => {
+  let isOpenAt: ReturnType<typeof useOpeningHours>['isOpenAt']
+  let parse: ReturnType<typeof useOpeningHours>['parse']
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    ;({ isOpenAt, parse } = useOpeningHours())
+  })
+
+  describe('isOpenAt', () => {
+    it('should return null when hours are missing', () => {
+      expect(isOpenAt(undefined, fridayAt('12:00'))).toBeNull()
+    })
+
+    it('should treat 24/7 as always open', () => {
+      expect(isOpenAt('24/7', fridayAt('03:00'))).toBe(true)
+    })
+
+    it('should match weekday ranges and time ranges', () => {
+      const hours = 'Mo-Fr 09:00-22:00; Sa 10:00-14:00'
+
+      expect(isOpenAt(hours, fridayAt('21:30'))).toBe(true)
+      expect(isOpenAt(hours, fridayAt('22:00'))).toBe(false)
+      expect(isOpenAt(hours, saturdayAt('15:00'))).toBe(false)
+    })
+
+    it('should support multiple intervals and weekday lists', () => {
+      const hours = 'Mo,We,Fr 12:00-15:00,19:00-23:00'
+
+      expect(isOpenAt(hours, fridayAt('13:00'))).toBe(true)
+      expect(isOpenAt(hours, fridayAt('17:00'))).toBe(false)
+      expect(isOpenAt(hours, fridayAt('20:00'))).toBe(true)
+      expect(isOpenAt(hours, saturdayAt('13:00'))).toBe(false)
+    })
+
+    it('should keep spans past midnight open on the next day', () => {
+      const hours = 'Fr 20:00-02:00'
+
+      expect(isOpenAt(hours, fridayAt('23:30'))).toBe(true)
+      expect(isOpenAt(hours, saturdayAt('01:30'))).toBe(true)
+      expect(isOpenAt(hours, saturdayAt('02:30'))).toBe(false)
+    })
+
+    it('should let later rules override earlier ones', () => {
+      expect(isOpenAt('Mo-Su 10:00-20:00; Su off', sundayAt('12:00'))).toBe(false)
+      expect(isOpenAt('Mo-Su 10:00-20:00; Su 12:00-14:00', sundayAt('11:00'))).toBe(false)
+      expect(isOpenAt('Mo-Su 10:00-20:00; Su off', saturdayAt('12:00'))).toBe(true)
+    })
+
+    it('should add rules separated by a comma', () => {
+      const hours = 'Mo-Fr 10:00-14:00, Fr 18:00-22:00'
+
+      expect(isOpenAt(hours, fridayAt('12:00'))).toBe(true)
+      expect(isOpenAt(hours, fridayAt('19:00'))).toBe(true)
+    })
+
+    it('should apply public holiday rules with the given holiday calendar', () => {
+      const hours = 'Mo-Fr 09:00-18:00; PH off'
+
+      expect(isOpenAt(hours, fridayAt('12:00'), { isPublicHoliday: (date) => date.getDate() === 21 })).toBe(false)
+      expect(isOpenAt(hours, fridayAt('12:00'), { isPublicHoliday: () => false })).toBe(true)
+    })
+
+    it('should be unknown without a holiday calendar only when a holiday would change the answer', () => {
+      const hours = 'Mo-Fr 09:00-18:00; PH off'
+
+      expect(isOpenAt(hours, fridayAt('12:00'))).toBeNull()
+      expect(isOpenAt(hours, fridayAt('20:00'))).toBe(false)
+    })
+
+    it('should resolve sun events, using defaults without coordinates', () => {
+      const hours = 'sunrise-sunset'
+
+      expect(isOpenAt(hours, fridayAt('05:45'))).toBe(false)
+      expect(isOpenAt(hours, fridayAt('17:45'))).toBe(true)
+      expect(isOpenAt('(sunset-01:00)-24:00', fridayAt('17:30'))).toBe(true)
+    })
+
+    it('should resolve sun events for a location', () => {
+      const barcelona = { latitude: 41.39, longitude: 2.17 }
+      const hours = 'Mo-Su sunset-24:00'
+
+      // Sunset in Barcelona on the summer solstice is around 19:30 UTC.
+      const beforeSunset = new Date('2024-06-21T18:30:00Z')
+      const afterSunset = new Date('2024-06-21T20:00:00Z')
+
+      expect(isOpenAt(hours, beforeSunset, { coordinates: barcelona })).toBe(false)
+      expect(isOpenAt(hours, afterSunset, { coordinates: barcelona })).toBe(true)
+    })
+
+    it('should return null for unknown states', () => {
+      expect(isOpenAt('Mo-Fr 10:00-20:00; Sa unknown', saturdayAt('12:00'))).toBeNull()
+    })
+
+    it('should use fallback rules only when no other rule applies', () => {
+      const hours = 'Mo-Fr 10:00-20:00 || "by appointment" closed'
+
+      expect(isOpenAt(hours, fridayAt('12:00'))).toBe(true)
+      expect(isOpenAt(hours, saturdayAt('12:00'))).toBe(false)
+    })
+
+    it('should return null for text it cannot parse', () => {
+      expect(isOpenAt('open most days', fridayAt('12:00'))).toBeNull()
+    })
+  })
+
+  describe('parse', () => {
+    it('should parse month and nth weekday selectors', () => {
+      const rules = parse('Apr-Oct: Mo[1] 10:00-18:00+')
+
+      expect(rules).toHaveLength(1)
+      expect(rules![0]!.months).toEqual([3, 4, 5, 6, 7, 8, 9])
+      expect(rules![0]!.weekdays).toEqual([{ from: 1, to: 1, nth: [1] }])
+      expect(rules![0]!.spans).toEqual([{ from: { minutes: 600 }, to: { minutes: 1080 } }])
+    })
+  })
+})
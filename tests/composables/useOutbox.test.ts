@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useOutbox } from '@/composables/useOutbox'
+
+const fetchMock = vi.fn()
+
+vi.stubGlobal('useRuntimeConfig', () => ({ public: { apiBaseUrl: 'https://api.example.com' } }))
+vi.stubGlobal('$fetch', fetchMock)
+
+function httpError(statusCode: number): Error {
+  return Object.assign(new Error(`HTTP ${statusCode}`), { statusCode })
+}
+
+// A contribution as another session or tab saved it
+const savedItem = { kind: 'create-venue', label: 'Bar', path: '/api/venues/manual-create', body: {}, attempts: 0, createdAt: 0, nextAttemptAt: 0 }
+
+function readSavedIds(): string[] {
+  return JSON.parse(localStorage.getItem('sunbar_outbox') ?? '[]').map((item: { id: string }) => item.id)
+}
+
+let outbox: ReturnType<typeof useOutbox>
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(new Date('2026-06-21T12:00:00Z'))
+  localStorage.clear()
+  fetchMock.mockReset()
+  setActivePinia(createPinia())
+  outbox = useOutbox()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('useOutbox Composable', () => {
+  describe('enqueue', () => {
+    it('should send the contribution right away', async () => {
+      fetchMock.mockResolvedValue({})
+
+      const item = await outbox.enqueue('create-venue', 'Bar Sol', '/api/venues/manual-create', { venue: { name: 'Bar Sol' } })
+
+      expect(item.status).toBe('sent')
+      expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/api/venues/manual-create', {
+        method: 'POST',
+        body: { venue: { name: 'Bar Sol' } }
+      })
+    })
+
+    it('should keep the contribution pending when the network is down', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+
+      const item = await outbox.enqueue('create-venue', 'Bar Sol', '/api/venues/manual-create', {})
+
+      expect(item).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Failed to fetch' })
+      expect(item.nextAttemptAt).toBe(Date.now() + 15_000)
+    })
+
+    it('should fail right away when the server rejects the contribution', async () => {
+      fetchMock.mockRejectedValue(httpError(422))
+
+      const item = await outbox.enqueue('create-venue', 'Bar Sol', '/api/venues/manual-create', {})
+
+      expect(item.status).toBe('failed')
+    })
+
+    it('should wait without sending while the device is offline', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+
+      const item = await outbox.enqueue('create-venue', 'Bar Sol', '/api/venues/manual-create', {})
+
+      expect(item).toMatchObject({ status: 'pending', attempts: 0 })
+      expect(fetchMock).not.toHaveBeenCalled()
+      vi.restoreAllMocks()
+    })
+  })
+
+  describe('processQueue', () => {
+    it('should retry with exponential backoff', async () => {
+      fetchMock.mockRejectedValue(httpError(503))
+      await outbox.enqueue('create-venue', 'Bar Sol', '/api/venues/manual-create', {})
+
+      // Not due yet
+      await outbox.processQueue()
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+
+      vi.advanceTimersByTime(15_000)
+      await outbox.processQueue()
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(outbox.items.value[0]!.nextAttemptAt).toBe(Date.now() + 30_000)
+
+      fetchMock.mockResolvedValue({})
+      vi.advanceTimersByTime(30_000)
+      await outbox.processQueue()
+      expect(outbox.items.value[0]).toMatchObject({ status: 'sent', attempts: 2 })
+    })
+
+    it('should give up after the last attempt', async () => {
+      fetchMock.mockRejectedValue(httpError(500))
+      await outbox.enqueue('create-venue', 'Bar Sol', '/api/venues/manual-create', {})
+
+      for (let i = 0; i < 12; i++) {
+        vi.advanceTimersByTime(10 * 60 * 1000)
+        await outbox.processQueue()
+      }
+
+      expect(outbox.items.value[0]).toMatchObject({ status: 'failed', attempts: 10 })
+    })
+
+    it('should resend a request interrupted mid-flight', async () => {
+      fetchMock.mockResolvedValue({})
+      localStorage.setItem('sunbar_outbox', JSON.stringify([{ ...savedItem, id: 'interrupted', status: 'sending' }]))
+      outbox.restore()
+
+      await outbox.processQueue()
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(outbox.items.value[0]).toMatchObject({ id: 'interrupted', status: 'sent' })
+    })
+
+    it('should not send a contribution another tab has already sent', async () => {
+      localStorage.setItem('sunbar_outbox', JSON.stringify([{ ...savedItem, id: 'shared', status: 'pending' }]))
+      outbox.restore()
+      localStorage.setItem('sunbar_outbox', JSON.stringify([{ ...savedItem, id: 'shared', status: 'sent', sentAt: Date.now() }]))
+
+      await outbox.processQueue()
+
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('should leave the sending to the tab holding the send lock', async () => {
+      localStorage.setItem('sunbar_outbox', JSON.stringify([{ ...savedItem, id: 'shared', status: 'pending' }]))
+      outbox.restore()
+      // Another tab holds the lock
+      const request = vi.fn((_name: string, _options: LockOptions, callback: (lock: Lock | null) => Promise<void>) =>
+        callback(null))
+      vi.spyOn(navigator, 'locks', 'get').mockReturnValue({ request } as unknown as LockManager)
+
+      await outbox.processQueue()
+
+      expect(request).toHaveBeenCalledWith('sunbar_outbox_send', { ifAvailable: true }, expect.any(Function))
+      expect(fetchMock).not.toHaveBeenCalled()
+      vi.restoreAllMocks()
+    })
+  })
+
+  describe('retry and discard', () => {
+    it('should send a failed contribution again on retry', async () => {
+      fetchMock.mockRejectedValueOnce(httpError(400)).mockResolvedValue({})
+      const item = await outbox.enqueue('create-venue', 'Bar Sol', '/api/venues/manual-create', {})
+
+      await outbox.retry(item.id)
+
+      expect(outbox.items.value[0]!.status).toBe('sent')
+    })
+
+    it('should remove a discarded contribution', async () => {
+      fetchMock.mockRejectedValue(httpError(400))
+      const item = await outbox.enqueue('create-venue', 'Bar Sol', '/api/venues/manual-create', {})
+
+      outbox.discard(item.id)
+
+      expect(outbox.items.value).toEqual([])
+      expect(outbox.unsentCount.value).toBe(0)
+    })
+
+    it('should keep contributions another tab queued meanwhile', async () => {
+      fetchMock.mockRejectedValue(httpError(400))
+      const item = await outbox.enqueue('create-venue', 'Bar Sol', '/api/venues/manual-create', {})
+      const saved = JSON.parse(localStorage.getItem('sunbar_outbox')!)
+      localStorage.setItem('sunbar_outbox', JSON.stringify([...saved, { ...savedItem, id: 'other-tab', status: 'pending' }]))
+
+      outbox.discard(item.id)
+
+      expect(readSavedIds()).toEqual(['other-tab'])
+      expect(outbox.items.value.map((queued) => queued.id)).toEqual(['other-tab'])
+    })
+  })
+
+  describe('restore', () => {
+    it('should restore unsent contributions saved by an earlier session', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+      await outbox.enqueue('create-venue', 'Bar Sol', '/api/venues/manual-create', { venue: { name: 'Bar Sol' } })
+
+      setActivePinia(createPinia())
+      const nextSession = useOutbox()
+      nextSession.restore()
+
+      expect(nextSession.items.value).toHaveLength(1)
+      expect(nextSession.items.value[0]).toMatchObject({ label: 'Bar Sol', status: 'pending', body: { venue: { name: 'Bar Sol' } } })
+    })
+
+    it('should drop old sent contributions', () => {
+      localStorage.setItem('sunbar_outbox', JSON.stringify([
+        { ...savedItem, id: 'recent', status: 'sent', sentAt: Date.now() - 60_000 },
+        { ...savedItem, id: 'old', status: 'sent', sentAt: Date.now() - 2 * 24 * 60 * 60 * 1000 }
+      ]))
+
+      outbox.restore()
+
+      expect(outbox.items.value.map((item) => item.id)).toEqual(['recent'])
+    })
+
+    it('should pick up the changes another tab saved', () => {
+      localStorage.setItem('sunbar_outbox', JSON.stringify([{ ...savedItem, id: 'other-tab', status: 'pending' }]))
+
+      outbox.handleStorageEvent(new StorageEvent('storage', { key: 'sunbar_outbox' }))
+
+      expect(outbox.items.value.map((item) => item.id)).toEqual(['other-tab'])
+    })
+
+    it('should ignore a corrupted saved outbox', () => {
+      localStorage.setItem('sunbar_outbox', '{not json')
+
+      outbox.restore()
+
+      expect(outbox.items.value).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { useOverpassBuildings } from '@/composables/useOverpassBuildings'
+
+const { buildQuery, toBuildingFootprints } = useOverpassBuildings()
+
+const ring = [
+  { lat: 41.39, lon: 2.17 },
+  { lat: 41.39, lon: 2.171 },
+  { lat: 41.391, lon: 2.171 },
+  { lat: 41.39, lon: 2.17 }
+]
+
+describe('useOverpassBuildings Composable', () => {
+  describe('buildQuery', () => {
+    it('should query building ways in south, west, north, east order', () => {
+      const query = buildQuery({ south: 41.38, west: 2.16, north: 41.4, east: 2.18 })
+
+      expect(query).toContain('way["building"](41.38,2.16,41.4,2.18)')
+      expect(query).toContain('out tags geom')
+    })
+  })
+
+  describe('toBuildingFootprints', () => {
+    it('should convert way geometry into footprints', () => {
+      const [building] = toBuildingFootprints({
+        elements: [{ type: 'way', id: 42, tags: { building: 'yes', height: '21.5 m' }, geometry: ring }]
+      })
+
+      expect(building).toEqual({
+        id: 'way/42',
+        footprint: ring.map((point) => ({ latitude: point.lat, longitude: point.lon })),
+        height: 21.5
+      })
+    })
+
+    it('should derive the height from the number of levels', () => {
+      const [building] = toBuildingFootprints({
+        elements: [{ type: 'way', id: 1, tags: { 'building:levels': '5' }, geometry: ring }]
+      })
+
+      expect(building!.height).toBe(15)
+    })
+
+    it('should assume a default height for untagged buildings', () => {
+      const [building] = toBuildingFootprints({
+        elements: [{ type: 'way', id: 1, tags: { height: 'unknown' }, geometry: ring }]
+      })
+
+      expect(building!.height).toBe(10)
+    })
+
+    it('should skip non-way elements and ways without a ring', () => {
+      const buildings = toBuildingFootprints({
+        elements: [
+          { type: 'node', id: 1 },
+          { type: 'way', id: 2, geometry: ring.slice(0, 2) },
+          { type: 'way', id: 3 }
+        ]
+      })
+
+      expect(buildings).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest'
+import { useShadowCasting } from '@/composables/useShadowCasting'
+import { SunlightStatus } from '@/shared/enums'
+import type { BuildingFootprint, Coordinates, SunPosition } from '@/shared/types'
+
+const {
+  computeSunlightStatus,
+  getSunlitFraction,
+  getTerraceSamplePoints,
+  isPointInShadow,
+  statusFromSunlitFraction
+} = useShadowCasting()
+
+const METERS_PER_DEGREE = 111320
+const venuePoint: Coordinates = { latitude: 41.39, longitude: 2.17 }
+
+// Build a square footprint of the given size whose centre is offset (in meters) from the venue point.
+function squareBuilding(
+  id: string,
+  eastOffset: number,
+  northOffset: number,
+  size: number,
+  height: number
+): BuildingFootprint {
+  const cosLat = Math.cos((venuePoint.latitude * Math.PI) / 180)
+  const toCoords = (east: number, north: number): Coordinates => ({
+    latitude: venuePoint.latitude + north / METERS_PER_DEGREE,
+    longitude: venuePoint.longitude + east / (METERS_PER_DEGREE * cosLat)
+  })
+  const half = size / 2
+  return {
+    id,
+    height,
+    footprint: [
+      toCoords(eastOffset - half, northOffset - half),
+      toCoords(eastOffset + half, northOffset - half),
+      toCoords(eastOffset + half, northOffset + half),
+      toCoords(eastOffset - half, northOffset + half)
+    ]
+  }
+}
+
+// A 20 m square terrace centred on the venue point.
+const terrace: Coordinates[] = squareBuilding('terrace', 0, 0, 20, 0).footprint
+
+// Sun due south (SunCalc azimuth 0) at the given altitude in degrees.
+function southernSun(altitudeDegrees: number): SunPosition {
+  return {
+    azimuth: 0,
+    altitude: (altitudeDegrees * Math.PI) / 180,
+    timestamp: new Date('2024-06-21T12:00:00Z')
+  }
+}
+
+describe('useShadowCasting Composable', () => {
+  describe('isPointInShadow', () => {
+    it('should be in shadow behind a tall building between the point and the sun', () => {
+      const building = squareBuilding('south', 0, -20, 20, 30)
+      expect(isPointInShadow(venuePoint, [building], southernSun(45))).toBe(true)
+    })
+
+    it('should be sunny when the building is too low to reach the point', () => {
+      const building = squareBuilding('south', 0, -20, 20, 5)
+      expect(isPointInShadow(venuePoint, [building], southernSun(45))).toBe(false)
+    })
+
+    it('should be sunny when the building is on the side away from the sun', () => {
+      const building = squareBuilding('north', 0, 20, 20, 50)
+      expect(isPointInShadow(venuePoint, [building], southernSun(30))).toBe(false)
+    })
+
+    it('should be in shadow inside a building footprint', () => {
+      const building = squareBuilding('around', 0, 0, 20, 10)
+      expect(isPointInShadow(venuePoint, [building], southernSun(60))).toBe(true)
+    })
+
+    it('should ignore a building whose shadow cannot reach the point', () => {
+      // A 30 m building at 45° casts a 30 m shadow, well short of 200 m
+      const building = squareBuilding('far', 0, -200, 20, 30)
+      expect(isPointInShadow(venuePoint, [building], southernSun(45))).toBe(false)
+    })
+
+    it('should be in shadow when the sun is below the horizon', () => {
+      expect(isPointInShadow(venuePoint, [], southernSun(-5))).toBe(true)
+    })
+  })
+
+  describe('getSunlitFraction', () => {
+    it('should return 1 when there are no buildings', () => {
+      expect(getSunlitFraction([venuePoint], [], southernSun(45))).toBe(1)
+    })
+
+    it('should return 0 for an empty sample set', () => {
+      expect(getSunlitFraction([], [], southernSun(45))).toBe(0)
+    })
+  })
+
+  describe('getTerraceSamplePoints', () => {
+    it('should cover the terrace with at most 64 points inside it', () => {
+      const samples = getTerraceSamplePoints(terrace)
+      const latitudes = terrace.map((c) => c.latitude)
+      const longitudes = terrace.map((c) => c.longitude)
+
+      expect(samples.length).toBeGreaterThan(1)
+      expect(samples.length).toBeLessThanOrEqual(64)
+      samples.forEach((sample) => {
+        expect(sample.latitude).toBeGreaterThan(Math.min(...latitudes))
+        expect(sample.latitude).toBeLessThan(Math.max(...latitudes))
+        expect(sample.longitude).toBeGreaterThan(Math.min(...longitudes))
+        expect(sample.longitude).toBeLessThan(Math.max(...longitudes))
+      })
+    })
+
+    it('should fall back to the centroid for a degenerate polygon', () => {
+      const sliver = [venuePoint, venuePoint, venuePoint]
+      expect(getTerraceSamplePoints(sliver)).toEqual([venuePoint])
+    })
+  })
+
+  describe('statusFromSunlitFraction', () => {
+    it('should map a mixed fraction to partially sunny with the fraction as confidence', () => {
+      const status = statusFromSunlitFraction(0.4)
+      expect(status.status).toBe(SunlightStatus.PARTIALLY_SUNNY)
+      expect(status.confidence).toBe(0.4)
+    })
+
+    it('should map a low fraction to shaded', () => {
+      const status = statusFromSunlitFraction(0)
+      expect(status.status).toBe(SunlightStatus.SHADED)
+      expect(status.confidence).toBe(1)
+    })
+  })
+
+  describe('computeSunlightStatus', () => {
+    it('should return sunny with full confidence in open space', () => {
+      const status = computeSunlightStatus(venuePoint, [], southernSun(45))
+      expect(status.status).toBe(SunlightStatus.SUNNY)
+      expect(status.confidence).toBe(1)
+      expect(status.reason).toBe('sunlight.description.directSunlight')
+    })
+
+    it('should return shaded deep inside a building shadow', () => {
+      const building = squareBuilding('south', 0, -30, 40, 60)
+      const status = computeSunlightStatus(venuePoint, [building], southernSun(45))
+      expect(status.status).toBe(SunlightStatus.SHADED)
+      expect(status.reason).toBe('sunlight.description.inBuildingShadow')
+    })
+
+    it('should return partially sunny on the edge of a shadow', () => {
+      // Western edge of the building lines up with the venue point
+      const building = squareBuilding('edge', 10, -30, 20, 60)
+      const status = computeSunlightStatus(venuePoint, [building], southernSun(45))
+      expect(status.status).toBe(SunlightStatus.PARTIALLY_SUNNY)
+      expect(status.confidence).toBeGreaterThan(0.1)
+      expect(status.confidence).toBeLessThan(0.9)
+    })
+
+    it('should use the sunlit fraction of the terrace as the confidence', () => {
+      // Shadow covers the eastern quarter of the terrace but misses the venue point's sample ring
+      const building = squareBuilding('south-east', 15, -30, 20, 60)
+
+      const pointStatus = computeSunlightStatus(venuePoint, [building], southernSun(45))
+      const terraceStatus = computeSunlightStatus(venuePoint, [building], southernSun(45), 0, terrace)
+
+      expect(pointStatus.status).toBe(SunlightStatus.SUNNY)
+      expect(terraceStatus.status).toBe(SunlightStatus.PARTIALLY_SUNNY)
+      expect(terraceStatus.confidence).toBeCloseTo(0.75, 2)
+    })
+
+    it('should return night when the sun is below the horizon', () => {
+      const status = computeSunlightStatus(venuePoint, [], southernSun(-10))
+      expect(status.status).toBe(SunlightStatus.NIGHT)
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useSolarRadiation } from '@/composables/useSolarRadiation'
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+let radiation: ReturnType<typeof useSolarRadiation>
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+  radiation = useSolarRadiation()
+})
+
+describe('useSolarRadiation Composable', () => {
+  describe('estimateFromAltitude', () => {
+    it('should return zero below the horizon', () => {
+      const estimate = radiation.estimateFromAltitude(toRadians(-5))
+
+      expect(estimate.irradiance).toBe(0)
+      expect(estimate.uvIndex).toBe(0)
+      expect(estimate.uvLevel).toBe('low')
+    })
+
+    it('should grow with the sun altitude', () => {
+      const low = radiation.estimateFromAltitude(toRadians(15))
+      const high = radiation.estimateFromAltitude(toRadians(60))
+
+      expect(high.irradiance).toBeGreaterThan(low.irradiance)
+      expect(high.uvIndex).toBeGreaterThan(low.uvIndex)
+    })
+
+    it('should give realistic clear-sky values for a high sun', () => {
+      const estimate = radiation.estimateFromAltitude(toRadians(60))
+
+      expect(estimate.irradiance).toBeGreaterThan(800)
+      expect(estimate.irradiance).toBeLessThan(1000)
+      expect(estimate.uvLevel).toBe('veryHigh')
+    })
+  })
+
+  describe('estimateAt', () => {
+    it('should be stronger at summer noon than on a winter morning', () => {
+      const barcelona = { latitude: 41.39, longitude: 2.17 }
+      const summerNoon = radiation.estimateAt(barcelona, new Date('2024-06-21T11:50:00Z'))
+      const winterMorning = radiation.estimateAt(barcelona, new Date('2024-12-21T09:00:00Z'))
+
+      expect(summerNoon.uvIndex).toBeGreaterThan(winterMorning.uvIndex)
+      expect(['high', 'veryHigh', 'extreme']).toContain(summerNoon.uvLevel)
+      expect(winterMorning.uvLevel).toBe('low')
+    })
+  })
+})
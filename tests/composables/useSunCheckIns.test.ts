@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useSunCheckIns } from '@/composables/useSunCheckIns'
+import { useSunlightStatus } from '@/composables/useSunlightStatus'
+import { SunlightStatus } from '@/shared/enums'
+import type { SunCheckIn, Venue } from '@/shared/types'
+import { useVenuesStore } from '@/stores/venues'
+
+const fetchMock = vi.fn()
+
+vi.stubGlobal('useRuntimeConfig', () => ({ public: { apiBaseUrl: 'https://api.example.com' } }))
+vi.stubGlobal('$fetch', fetchMock)
+
+const NOW = new Date('2026-06-21T12:00:00Z').getTime()
+const MINUTE_MS = 60 * 1000
+
+const { createSunny, createShaded, createNight } = useSunlightStatus()
+
+const venue: Venue = {
+  id: 'node/42',
+  name: 'Bar Sol',
+  type: 'bar',
+  coordinates: { latitude: 41.3851, longitude: 2.1734 },
+  sunlightStatus: createSunny(0.8)
+}
+
+function checkInAt(minutesAgo: number, reportedStatus: SunCheckIn['reportedStatus'], distanceMeters: number | null = 20): SunCheckIn {
+  return { id: `check-in-${minutesAgo}-${reportedStatus}`, venueId: venue.id, reportedStatus, checkedInAt: NOW - minutesAgo * MINUTE_MS, distanceMeters }
+}
+
+function mockPosition(latitude: number, longitude: number): void {
+  Object.defineProperty(globalThis.navigator, 'geolocation', {
+    value: {
+      getCurrentPosition: (success: PositionCallback) => success({ coords: { latitude, longitude } } as GeolocationPosition)
+    },
+    configurable: true
+  })
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(NOW)
+  localStorage.clear()
+  fetchMock.mockReset()
+  setActivePinia(createPinia())
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('useSunCheckIns Composable', () => {
+  describe('adjustForCheckIns', () => {
+    it('should leave the status as it is without check-ins', () => {
+      const status = createSunny(0.8)
+      expect(useSunCheckIns().adjustForCheckIns(status, [])).toBe(status)
+    })
+
+    it('should raise the confidence when check-ins agree', () => {
+      const adjusted = useSunCheckIns().adjustForCheckIns(createSunny(0.6), [checkInAt(0, SunlightStatus.SUNNY)])
+
+      expect(adjusted.status).toBe(SunlightStatus.SUNNY)
+      expect(adjusted.confidence).toBeCloseTo(0.6 * (2 / 3) + 1 / 3)
+    })
+
+    it('should let many nearby disputes decide the confidence', () => {
+      const disputes = [0, 1, 2, 3].map((minutesAgo) => checkInAt(minutesAgo, SunlightStatus.SUNNY))
+
+      const adjusted = useSunCheckIns().adjustForCheckIns(createShaded(1), disputes)
+
+      expect(adjusted.status).toBe(SunlightStatus.SHADED)
+      expect(adjusted.confidence).toBe(0)
+    })
+
+    it('should ignore check-ins made far from the venue or over an hour ago', () => {
+      const status = createSunny(0.8)
+      const adjusted = useSunCheckIns().adjustForCheckIns(status, [
+        checkInAt(5, SunlightStatus.SHADED, 1500),
+        checkInAt(61, SunlightStatus.SHADED)
+      ])
+
+      expect(adjusted).toBe(status)
+    })
+
+    it('should count check-ins without a location less', () => {
+      const { adjustForCheckIns } = useSunCheckIns()
+      const located = adjustForCheckIns(createSunny(1), [checkInAt(0, SunlightStatus.SHADED)])
+      const unlocated = adjustForCheckIns(createSunny(1), [checkInAt(0, SunlightStatus.SHADED, null)])
+
+      expect(unlocated.confidence).toBeGreaterThan(located.confidence)
+    })
+
+    it('should not adjust a night status', () => {
+      const night = createNight()
+      expect(useSunCheckIns().adjustForCheckIns(night, [checkInAt(0, SunlightStatus.SUNNY)])).toBe(night)
+    })
+  })
+
+  describe('isCheckInTime', () => {
+    it('should only allow check-ins for about now', () => {
+      const { isCheckInTime } = useSunCheckIns()
+
+      expect(isCheckInTime(new Date(NOW + 10 * MINUTE_MS))).toBe(true)
+      expect(isCheckInTime(new Date(NOW - 2 * 60 * MINUTE_MS))).toBe(false)
+    })
+  })
+
+  describe('checkIn', () => {
+    it('should record a dispute with the distance to the venue and send it', async () => {
+      fetchMock.mockResolvedValue({})
+      mockPosition(41.3860, 2.1734)
+      const { checkIn, getRecentCheckIns, canCheckIn } = useSunCheckIns()
+
+      const result = await checkIn(venue, false)
+
+      expect(result).toMatchObject({ venueId: 'node/42', reportedStatus: SunlightStatus.SHADED, checkedInAt: NOW })
+      expect(result!.distanceMeters).toBeCloseTo(100, -1)
+      expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/api/venues/node%2F42/check-ins', {
+        method: 'POST',
+        body: { checkIn: expect.objectContaining({ id: result!.id, reportedStatus: 'shaded', checkedInAt: '2026-06-21T12:00:00.000Z' }) }
+      })
+      expect(getRecentCheckIns(venue)).toEqual([result])
+      expect(canCheckIn(venue.id)).toBe(false)
+    })
+
+    it('should check in without a distance when the location is not available', async () => {
+      fetchMock.mockResolvedValue({})
+      Object.defineProperty(globalThis.navigator, 'geolocation', { value: undefined, configurable: true })
+
+      const result = await useSunCheckIns().checkIn(venue, true)
+
+      expect(result).toMatchObject({ reportedStatus: SunlightStatus.SUNNY, distanceMeters: null })
+    })
+
+    it('should report against the status before check-ins adjusted it', async () => {
+      fetchMock.mockResolvedValue({})
+      mockPosition(41.3851, 2.1734)
+
+      const result = await useSunCheckIns().checkIn({ ...venue, modelSunlightStatus: createShaded(1) }, true)
+
+      expect(result!.reportedStatus).toBe(SunlightStatus.SHADED)
+    })
+
+    it('should adjust the status of the venue in the store with the new check-in', async () => {
+      fetchMock.mockResolvedValue({})
+      mockPosition(41.3851, 2.1734)
+      const store = useVenuesStore()
+      store.venues = [{ ...venue, sunlightStatus: createSunny(0.8), modelSunlightStatus: createSunny(0.8) }]
+
+      await useSunCheckIns().checkIn(store.venues[0]!, false)
+
+      expect(store.venues[0]!.sunlightStatus!.status).toBe(SunlightStatus.SUNNY)
+      expect(store.venues[0]!.sunlightStatus!.confidence).toBeLessThan(0.8)
+      expect(store.venues[0]!.modelSunlightStatus!.confidence).toBe(0.8)
+    })
+
+    it('should drop a check-in rejected by the server', async () => {
+      fetchMock.mockRejectedValue(Object.assign(new Error('HTTP 400'), { statusCode: 400 }))
+      mockPosition(41.3851, 2.1734)
+      const { checkIn, getRecentCheckIns } = useSunCheckIns()
+
+      expect(await checkIn(venue, true)).toBeNull()
+      expect(getRecentCheckIns(venue)).toEqual([])
+    })
+  })
+
+  describe('getRecentCheckIns', () => {
+    it('should merge the API check-ins with the saved ones, newest first', () => {
+      const own = checkInAt(5, SunlightStatus.SUNNY)
+      localStorage.setItem('sunbar_sun_check_ins', JSON.stringify([own, checkInAt(90, SunlightStatus.SUNNY)]))
+      const fromApi = [checkInAt(2, SunlightStatus.SHADED), own, checkInAt(70, SunlightStatus.SHADED)]
+
+      const recent = useSunCheckIns().getRecentCheckIns({ ...venue, sunCheckIns: fromApi })
+
+      expect(recent.map((checkIn) => checkIn.id)).toEqual([fromApi[0]!.id, own.id])
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useSunHeatmap } from '@/composables/useSunHeatmap'
+import type { BoundingBox, BuildingFootprint, Coordinates } from '@/shared/types'
+
+const METERS_PER_DEGREE = 111320
+const barcelona: Coordinates = { latitude: 41.39, longitude: 2.17 }
+const cosLat = Math.cos((barcelona.latitude * Math.PI) / 180)
+const summerNoon = new Date('2024-06-21T11:00:00Z')
+const summerNight = new Date('2024-06-21T23:00:00Z')
+
+function toCoords(east: number, north: number): Coordinates {
+  return {
+    latitude: barcelona.latitude + north / METERS_PER_DEGREE,
+    longitude: barcelona.longitude + east / (METERS_PER_DEGREE * cosLat)
+  }
+}
+
+// A 200 m square view centred on Barcelona.
+const bounds: BoundingBox = {
+  south: toCoords(0, -100).latitude,
+  west: toCoords(-100, 0).longitude,
+  north: toCoords(0, 100).latitude,
+  east: toCoords(100, 0).longitude
+}
+
+// A low building filling the south-west quarter of the view.
+const southWestBlock: BuildingFootprint = {
+  id: 'south-west',
+  height: 10,
+  footprint: [toCoords(-100, -100), toCoords(0, -100), toCoords(0, 0), toCoords(-100, 0)]
+}
+
+let heatmap: ReturnType<typeof useSunHeatmap>
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+  heatmap = useSunHeatmap()
+})
+
+describe('useSunHeatmap Composable', () => {
+  describe('buildHeatmap', () => {
+    it('should split a square view into a square grid of about 400 cells', () => {
+      const grid = heatmap.buildHeatmap(bounds, summerNoon, 'next-hours')
+      expect(grid.rows).toBe(20)
+      expect(grid.columns).toBe(20)
+      expect(grid.values).toHaveLength(400)
+    })
+
+    it('should be in sun everywhere in open space around noon', () => {
+      const grid = heatmap.buildHeatmap(bounds, summerNoon, 'next-hours')
+      expect(grid.periodHours).toBe(2)
+      expect(grid.values.every((value) => value === 1)).toBe(true)
+    })
+
+    it('should have no sun at night', () => {
+      const grid = heatmap.buildHeatmap(bounds, summerNight, 'next-hours')
+      expect(grid.values.every((value) => value === 0)).toBe(true)
+    })
+
+    it('should cover sunrise to sunset for the day metric', () => {
+      const grid = heatmap.buildHeatmap(bounds, summerNoon, 'day-hours')
+      expect(grid.periodHours).toBeGreaterThan(14)
+      expect(grid.periodHours).toBeLessThan(16)
+      expect(grid.values.every((value) => value > 0.9)).toBe(true)
+    })
+
+    it('should shade the cells covered by a building', () => {
+      const grid = heatmap.buildHeatmap(bounds, summerNoon, 'next-hours', [southWestBlock])
+      const southWest = grid.values[(grid.rows - 1) * grid.columns]
+      const northEast = grid.values[grid.columns - 1]
+      expect(southWest).toBe(0)
+      expect(northEast).toBe(1)
+    })
+
+    it('should reuse the grid within the same sampling step', () => {
+      const buildings = [southWestBlock]
+      const grid = heatmap.buildHeatmap(bounds, summerNoon, 'next-hours', buildings)
+      const fewMinutesLater = new Date(summerNoon.getTime() + 5 * 60 * 1000)
+
+      expect(heatmap.buildHeatmap(bounds, fewMinutesLater, 'next-hours', buildings)).toBe(grid)
+    })
+
+    it('should rebuild the grid when the buildings change', () => {
+      const grid = heatmap.buildHeatmap(bounds, summerNoon, 'next-hours', [southWestBlock])
+      expect(heatmap.buildHeatmap(bounds, summerNoon, 'next-hours', [])).not.toBe(grid)
+    })
+  })
+})
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useSunInfo } from '@/composables/useSunInfo'
+import { useSunTimeline } from '@/composables/useSunTimeline'
+import { SunlightStatus } from '@/shared/enums'
+import type { BuildingFootprint, Coordinates, Venue } from '@/shared/types'
+
+const METERS_PER_DEGREE = 111320
+const barcelona: Coordinates = { latitude: 41.39, longitude: 2.17 }
+const summerSolstice = new Date('2024-06-21T12:00:00Z')
+
+// A long, tall block directly south of the venue that shades it around solar noon.
+function southernBlock(): BuildingFootprint {
+  const cosLat = Math.cos((barcelona.latitude * Math.PI) / 180)
+  const toCoords = (east: number, north: number): Coordinates => ({
+    latitude: barcelona.latitude + north / METERS_PER_DEGREE,
+    longitude: barcelona.longitude + east / (METERS_PER_DEGREE * cosLat)
+  })
+  return {
+    id: 'block',
+    height: 60,
+    footprint: [toCoords(-15, -25), toCoords(15, -25), toCoords(15, -10), toCoords(-15, -10)]
+  }
+}
+
+// A low building about a kilometre north, so the venue can be computed but stays sunny.
+const distantBuilding: BuildingFootprint = {
+  ...southernBlock(),
+  id: 'distant',
+  height: 3,
+  footprint: southernBlock().footprint.map((c) => ({ ...c, latitude: c.latitude + 0.01 }))
+}
+
+let timeline: ReturnType<typeof useSunTimeline>
+let sunInfo: ReturnType<typeof useSunInfo>
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+  timeline = useSunTimeline()
+  sunInfo = useSunInfo()
+})
+
+describe('useSunTimeline Composable', () => {
+  describe('getDayTimeline', () => {
+    it('should cover the whole day without gaps', () => {
+      const intervals = timeline.getDayTimeline(barcelona, summerSolstice)
+
+      expect(intervals.length).toBeGreaterThan(0)
+      for (let i = 1; i < intervals.length; i++) {
+        expect(intervals[i]!.start.getTime()).toBe(intervals[i - 1]!.end.getTime())
+      }
+      const first = intervals[0]!
+      const last = intervals.at(-1)!
+      expect(last.end.getTime() - first.start.getTime()).toBe(24 * 60 * 60 * 1000)
+    })
+
+    it('should be unknown from sunrise to sunset without buildings', () => {
+      const intervals = timeline.getDayTimeline(barcelona, summerSolstice)
+      const { sunrise, sunset } = sunInfo.getSunTimes(barcelona, summerSolstice)
+
+      expect(intervals.map((interval) => interval.status)).toEqual([
+        SunlightStatus.NIGHT,
+        SunlightStatus.UNKNOWN,
+        SunlightStatus.NIGHT
+      ])
+      expect(timeline.getSunnyWindows(intervals)).toEqual([])
+      expect(intervals[1]!.start.getTime()).toBe(sunrise.getTime())
+      expect(intervals[1]!.end.getTime()).toBe(sunset.getTime())
+    })
+
+    it('should report a shaded interval around noon behind a southern building', () => {
+      const intervals = timeline.getDayTimeline(barcelona, summerSolstice, [southernBlock()])
+      const noon = sunInfo.getSunTimes(barcelona, summerSolstice).solarNoon
+
+      expect(timeline.getIntervalAt(intervals, noon)?.status).toBe(SunlightStatus.SHADED)
+      expect(timeline.getSunnyWindows(intervals).length).toBeGreaterThan(0)
+    })
+  })
+
+  describe('getSunnyWindows', () => {
+    it('should keep only sunny and partially sunny intervals', () => {
+      const start = new Date('2024-06-21T10:00:00Z')
+      const middle = new Date('2024-06-21T12:00:00Z')
+      const end = new Date('2024-06-21T14:00:00Z')
+
+      const windows = timeline.getSunnyWindows([
+        { status: SunlightStatus.SUNNY, start, end: middle },
+        { status: SunlightStatus.SHADED, start: middle, end }
+      ])
+
+      expect(windows).toHaveLength(1)
+      expect(windows[0]!.status).toBe(SunlightStatus.SUNNY)
+    })
+  })
+
+  describe('getOpenSunnyIntervals', () => {
+    const window = {
+      start: new Date('2024-06-21T09:00:00Z'),
+      end: new Date('2024-06-21T15:00:00Z')
+    }
+    const venue: Venue = { id: '1', name: 'Terrace Bar', type: 'bar', coordinates: barcelona }
+
+    it('should cover the whole window when the venue is sunny and has no hours', () => {
+      const intervals = timeline.getOpenSunnyIntervals(venue, window, [distantBuilding])
+
+      expect(intervals).toHaveLength(1)
+      expect(intervals[0]!.start).toEqual(window.start)
+      expect(intervals[0]!.end).toEqual(window.end)
+    })
+
+    it('should leave out times when the venue is closed', () => {
+      expect(
+        timeline.getOpenSunnyIntervals({ ...venue, openingHours: 'Mo-Su off' }, window, [distantBuilding])
+      ).toEqual([])
+    })
+
+    it('should find nothing without building footprints', () => {
+      expect(timeline.getOpenSunnyIntervals(venue, window)).toEqual([])
+    })
+
+    it('should leave out times when the venue is shaded', () => {
+      const intervals = timeline.getOpenSunnyIntervals(venue, window, [southernBlock()])
+      const noon = sunInfo.getSunTimes(barcelona, summerSolstice).solarNoon
+
+      expect(intervals.length).toBeGreaterThan(0)
+      expect(timeline.getIntervalAt(intervals, noon)).toBeNull()
+    })
+  })
+
+  describe('getIntervalAt', () => {
+    it('should return null outside every interval', () => {
+      const start = new Date('2024-06-21T10:00:00Z')
+      const end = new Date('2024-06-21T12:00:00Z')
+
+      expect(
+        timeline.getIntervalAt([{ status: SunlightStatus.SUNNY, start, end }], new Date('2024-06-21T13:00:00Z'))
+      ).toBeNull()
+    })
+  })
+})
@@ -3,13 +3,16 @@ import { useSunlightStatus } from '@/composables/useSunlightStatus'
 import { SunlightStatus } from '@/shared/enums'
 
 const {
+  applyCloudCover,
   create,
   createNight,
+  createOvercast,
   createPartiallySunny,
   createShaded,
   createSunny,
   createUnknown,
   isNight,
+  isOvercast,
   isShaded,
   isSunny
 } = useSunlightStatus()
@@ -118,4 +121,30 @@ describe('useSunlightStatus Composable', () => {
       expect(isNight(status)).toBe(false)
     })
   })
+  describe('createOvercast', () => {
+    it('should create overcast status', () => {
+      const status = createOvercast(0.9)
+      expect(status.status).toBe(SunlightStatus.OVERCAST)
+      expect(isOvercast(status)).toBe(true)
+      expect(isSunny(status)).toBe(false)
+    })
+  })
+
+  describe('applyCloudCover', () => {
+    it('should lower the confidence of sunny statuses', () => {
+      const status = applyCloudCover(createSunny(1), 0.4)
+      expect(status.status).toBe(SunlightStatus.SUNNY)
+      expect(status.confidence).toBeCloseTo(0.6)
+    })
+
+    it('should turn sunny statuses overcast under heavy cloud', () => {
+      expect(applyCloudCover(createPartiallySunny(0.7), 0.9).status).toBe(SunlightStatus.OVERCAST)
+    })
+
+    it('should leave shade and night untouched', () => {
+      const shaded = createShaded(0.8)
+      expect(applyCloudCover(shaded, 1)).toBe(shaded)
+      expect(applyCloudCover(createNight(), 1).status).toBe(SunlightStatus.NIGHT)
+    })
+  })
 })
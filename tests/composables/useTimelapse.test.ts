@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { effectScope } from 'vue'
+import { useTimelapse } from '@/composables/useTimelapse'
+
+const sunrise = new Date('2024-06-21T04:00:00Z')
+const sunset = new Date('2024-06-21T19:00:00Z')
+
+describe('useTimelapse Composable', () => {
+  let onFrame: ReturnType<typeof vi.fn<(datetime: Date) => void>>
+  let current: Date
+
+  function createTimelapse() {
+    const scope = effectScope()
+    const timelapse = scope.run(() =>
+      useTimelapse({
+        getRange: () => ({ start: sunrise, end: sunset }),
+        getCurrent: () => current,
+        onFrame
+      })
+    )!
+    return { scope, timelapse }
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    onFrame = vi.fn()
+    current = new Date('2024-06-21T12:00:00Z')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('play', () => {
+    it('should advance from the current time at the chosen speed', () => {
+      const { timelapse } = createTimelapse()
+      timelapse.setSpeed(60)
+      timelapse.play()
+
+      vi.advanceTimersByTime(1000)
+
+      expect(timelapse.isPlaying.value).toBe(true)
+      expect(onFrame).toHaveBeenCalledTimes(5)
+      expect(onFrame.mock.lastCall?.[0]).toEqual(new Date('2024-06-21T13:00:00Z'))
+    })
+
+    it('should start from sunrise when the current time is outside daylight', () => {
+      current = new Date('2024-06-21T22:00:00Z')
+      const { timelapse } = createTimelapse()
+      timelapse.play()
+
+      expect(onFrame).toHaveBeenCalledWith(sunrise)
+    })
+
+    it('should stop at sunset', () => {
+      current = new Date('2024-06-21T18:50:00Z')
+      const { timelapse } = createTimelapse()
+      timelapse.play()
+
+      vi.advanceTimersByTime(5000)
+
+      expect(timelapse.isPlaying.value).toBe(false)
+      expect(onFrame.mock.lastCall?.[0]).toEqual(sunset)
+    })
+  })
+
+  describe('toggle', () => {
+    it('should pause a running playback', () => {
+      const { timelapse } = createTimelapse()
+      timelapse.toggle()
+      timelapse.toggle()
+
+      vi.advanceTimersByTime(1000)
+
+      expect(timelapse.isPlaying.value).toBe(false)
+      expect(onFrame).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('scope disposal', () => {
+    it('should stop the frame timer when the owning scope is disposed', () => {
+      const { scope, timelapse } = createTimelapse()
+      timelapse.play()
+      scope.stop()
+
+      vi.advanceTimersByTime(1000)
+
+      expect(onFrame).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useVenueReports } from '@/composables/useVenueReports'
+import { SunlightStatus } from '@/shared/enums'
+import { venueReportSchema } from '@/shared/schemas/venue.schema'
+import type { Venue } from '@/shared/types'
+
+const fetchMock = vi.fn()
+
+vi.stubGlobal('useRuntimeConfig', () => ({ public: { apiBaseUrl: 'https://api.example.com' } }))
+vi.stubGlobal('$fetch', fetchMock)
+
+const venue: Venue = {
+  id: 'node/42',
+  name: 'Bar Sol',
+  type: 'bar',
+  coordinates: { latitude: 41.3851, longitude: 2.1734 }
+}
+
+function httpError(statusCode: number): Error {
+  return Object.assign(new Error(`HTTP ${statusCode}`), { statusCode })
+}
+
+beforeEach(() => {
+  localStorage.clear()
+  fetchMock.mockReset()
+  setActivePinia(createPinia())
+})
+
+describe('venueReportSchema', () => {
+  it('should accept a corrected location', () => {
+    const result = venueReportSchema.safeParse({ issue: 'wrong-location', latitude: 41.38, longitude: 2.17 })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject a location out of range with the venue form message', () => {
+    const result = venueReportSchema.safeParse({ issue: 'wrong-location', latitude: 95, longitude: 2.17 })
+    expect(result.error?.issues[0]?.message).toBe('venueForm.validation.latitudeRange')
+  })
+
+  it('should require the observed status for a wrong sunlight report', () => {
+    const result = venueReportSchema.safeParse({ issue: 'wrong-sunlight', observedAt: '2026-06-21T12:00:00.000Z' })
+    expect(result.error?.issues[0]?.message).toBe('venueReport.validation.observedStatusRequired')
+  })
+
+  it('should reject an unknown issue', () => {
+    expect(venueReportSchema.safeParse({ issue: 'too-loud' }).success).toBe(false)
+  })
+})
+
+describe('useVenueReports Composable', () => {
+  it('should send the report to the venue reports route', async () => {
+    fetchMock.mockResolvedValue({})
+    const { submit } = useVenueReports()
+
+    const item = await submit(venue, { issue: 'closed-permanently' })
+
+    expect(item.status).toBe('sent')
+    expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/api/venues/node%2F42/reports', {
+      method: 'POST',
+      body: { report: { issue: 'closed-permanently' } }
+    })
+  })
+
+  it('should keep the report in the history with its delivery status', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+    const { submit, getReports, getStatus } = useVenueReports()
+
+    await submit(venue, {
+      issue: 'wrong-sunlight',
+      observedStatus: SunlightStatus.SHADED,
+      observedAt: '2026-06-21T12:00:00.000Z'
+    })
+
+    const [report] = getReports(venue.id)
+    expect(report).toMatchObject({ venueId: 'node/42', venueName: 'Bar Sol', issue: 'wrong-sunlight' })
+    expect(getStatus(report!)).toBe('pending')
+  })
+
+  it('should leave reports rejected by the server out of the history and the outbox', async () => {
+    fetchMock.mockRejectedValue(httpError(422))
+    const { submit, getReports, getStatus } = useVenueReports()
+
+    const item = await submit(venue, { issue: 'no-terrace' })
+
+    expect(item.status).toBe('failed')
+    expect(getReports(venue.id)).toEqual([])
+    expect(getStatus({ ...item, venueId: venue.id, venueName: venue.name, issue: 'no-terrace' })).toBeNull()
+  })
+
+  it('should restore the history saved by an earlier session, newest first', async () => {
+    fetchMock.mockResolvedValue({})
+    await useVenueReports().submit(venue, { issue: 'no-terrace' })
+    await useVenueReports().submit({ ...venue, id: 'node/7' }, { issue: 'closed-permanently' })
+    await useVenueReports().submit(venue, { issue: 'closed-permanently' })
+
+    setActivePinia(createPinia())
+    const reports = useVenueReports().getReports(venue.id)
+
+    expect(reports.map((report) => report.issue)).toEqual(['closed-permanently', 'no-terrace'])
+  })
+
+  it('should ignore a corrupted saved history', () => {
+    localStorage.setItem('sunbar_venue_reports', '[{"id": 1}]')
+
+    expect(useVenueReports().getReports(venue.id)).toEqual([])
+  })
+})
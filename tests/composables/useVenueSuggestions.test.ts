@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { useVenueSuggestions } from '@/composables/useVenueSuggestions'
+
+const fetchMock = vi.fn()
+
+vi.stubGlobal('useRuntimeConfig', () => ({ public: { apiBaseUrl: 'https://api.example.com' } }))
+vi.stubGlobal('$fetch', fetchMock)
+
+const pin = { latitude: 41.3851, longitude: 2.1734 }
+
+beforeEach(() => {
+  fetchMock.mockReset()
+})
+
+describe('useVenueSuggestions Composable', () => {
+  describe('toVenueAddress', () => {
+    it('should map a Nominatim address onto the form fields', () => {
+      const { toVenueAddress } = useVenueSuggestions()
+
+      expect(toVenueAddress({
+        road: 'Carrer de Ferran',
+        house_number: '12',
+        town: 'Barcelona',
+        postcode: '08002',
+        country: 'Spain',
+        suburb: 'Barri Gòtic'
+      })).toEqual({ street: 'Carrer de Ferran 12', city: 'Barcelona', postalCode: '08002', country: 'Spain' })
+    })
+
+    it('should fall back to pedestrian streets and leave unknown fields empty', () => {
+      const { toVenueAddress } = useVenueSuggestions()
+
+      expect(toVenueAddress({ pedestrian: 'La Rambla', country: 'Spain' }))
+        .toEqual({ street: 'La Rambla', city: undefined, postalCode: undefined, country: 'Spain' })
+    })
+
+    it('should return null when no field is known', () => {
+      expect(useVenueSuggestions().toVenueAddress({ suburb: 'Barri Gòtic' })).toBeNull()
+    })
+  })
+
+  describe('toPlaceSuggestions', () => {
+    it('should keep named venues of a known type, closest first', () => {
+      const { toPlaceSuggestions } = useVenueSuggestions()
+
+      const places = toPlaceSuggestions({
+        elements: [
+          { type: 'way', id: 1, center: { lat: 41.3855, lon: 2.1734 }, tags: { amenity: 'restaurant', name: 'Can Culleretes' } },
+          { type: 'node', id: 2, lat: 41.3852, lon: 2.1734, tags: { amenity: 'pub', name: 'The Quiet Man' } },
+          { type: 'node', id: 3, lat: 41.3851, lon: 2.1735, tags: { amenity: 'pharmacy', name: 'Farmàcia' } },
+          { type: 'node', id: 4, lat: 41.3851, lon: 2.1734, tags: { amenity: 'bar' } }
+        ]
+      }, pin)
+
+      expect(places.map((place) => [place.id, place.name, place.venueType])).toEqual([
+        ['node/2', 'The Quiet Man', 'pub'],
+        ['way/1', 'Can Culleretes', 'restaurant']
+      ])
+      expect(places[0]!.distanceMeters).toBeCloseTo(11, 0)
+    })
+  })
+
+  describe('lookupAddress', () => {
+    it('should reverse geocode the pin in the given language', async () => {
+      fetchMock.mockResolvedValue({
+        address: 'La Rambla, Barcelona',
+        found: true,
+        details: { road: 'La Rambla', city: 'Barcelona' }
+      })
+
+      const address = await useVenueSuggestions().lookupAddress(pin, 'ca')
+
+      expect(address).toMatchObject({ street: 'La Rambla', city: 'Barcelona' })
+      expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/api/reverse-geocode', expect.objectContaining({
+        query: expect.objectContaining({ lat: 41.3851, lon: 2.1734, addressdetails: 1, 'accept-language': 'ca' })
+      }))
+    })
+
+    it('should return null when nothing is found at the pin', async () => {
+      fetchMock.mockResolvedValue({ address: null, found: false })
+
+      expect(await useVenueSuggestions().lookupAddress(pin, 'en')).toBeNull()
+    })
+  })
+
+  describe('findNearbyPlaces', () => {
+    it('should query Overpass for named venues around the pin', async () => {
+      fetchMock.mockResolvedValue({ elements: [] })
+
+      await useVenueSuggestions().findNearbyPlaces(pin)
+
+      const body = fetchMock.mock.calls[0]![1].body as URLSearchParams
+      expect(body.get('data')).toContain('nwr["amenity"~"^(bar|biergarten|pub|cafe|restaurant|nightclub)$"]["name"](around:60,41.3851,2.1734)')
+    })
+  })
+})
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useVenues } from '@/composables/useVenues'
+import { useOfflineRegionsStore } from '@/stores/offlineRegions'
+import { useVenuesStore } from '@/stores/venues'
+import type { ApiResponse, BoundingBox, VenueResponse } from '@/shared/types'
+
+type PendingFetch = {
+  url: string;
+  signal?: AbortSignal;
+  resolve: (response: ApiResponse) => void;
+  reject: (error: Error) => void;
+};
+
+const pendingFetches: PendingFetch[] = []
+
+vi.stubGlobal('useRuntimeConfig', () => ({ public: { apiBaseUrl: '' } }))
+vi.stubGlobal('$fetch', vi.fn((url: string, options?: { signal?: AbortSignal }) =>
+  new Promise<ApiResponse>((resolve, reject) => {
+    options?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+    pendingFetches.push({ url, signal: options?.signal, resolve, reject })
+  })))
+
+// Both areas fit in a single zoom 13 tile each
+const areaA: BoundingBox = { south: 41.385, west: 2.165, north: 41.387, east: 2.167 }
+const areaB: BoundingBox = { south: 41.405, west: 2.125, north: 41.407, east: 2.127 }
+
+function createResponse(id: string, bbox: BoundingBox): ApiResponse {
+  const venue: VenueResponse = {
+    id,
+    name: id,
+    type: 'bar',
+    latitude: (bbox.north + bbox.south) / 2,
+    longitude: (bbox.east + bbox.west) / 2
+  }
+  return {
+    venues: [venue],
+    sunPosition: { azimuth: 180, altitude: 45, isDaytime: true },
+    meta: { timestamp: new Date().toISOString() }
+  } as ApiResponse
+}
+
+// Let the awaited weather, cache and fetch steps run.
+async function flushPromises(): Promise<void> {
+  for (let i = 0; i < 10; i++) await new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+let venues: ReturnType<typeof useVenues>
+let store: ReturnType<typeof useVenuesStore>
+// Each test asks for its own time slot, so the shared venue cache never answers it
+let datetime = new Date('2026-06-21T08:00:00Z')
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+  pendingFetches.length = 0
+  datetime = new Date(datetime.getTime() + 60 * 60 * 1000)
+  venues = useVenues()
+  store = useVenuesStore()
+})
+
+describe('useVenues Composable', () => {
+  describe('fetchVenuesByBoundingBox request races', () => {
+    it('should abort an older request when a newer one starts', async () => {
+      const older = venues.fetchVenuesByBoundingBox(areaA, datetime)
+      await flushPromises()
+      const newer = venues.fetchVenuesByBoundingBox(areaB, datetime)
+      await flushPromises()
+
+      expect(pendingFetches[0]!.signal!.aborted).toBe(true)
+      pendingFetches[1]!.resolve(createResponse('venue-b', areaB))
+
+      await expect(older).resolves.toBeNull()
+      await expect(newer).resolves.toBeNull()
+      expect(store.venues.map((venue) => venue.id)).toEqual(['venue-b'])
+      expect(store.loading).toBe(false)
+      expect(store.error).toBeNull()
+    })
+
+    it('should share one request between identical concurrent calls', async () => {
+      const first = venues.fetchVenuesByBoundingBox(areaA, datetime)
+      const second = venues.fetchVenuesByBoundingBox(areaA, datetime)
+      await flushPromises()
+
+      expect(pendingFetches).toHaveLength(1)
+      pendingFetches[0]!.resolve(createResponse('venue-a', areaA))
+
+      await Promise.all([first, second])
+      expect(store.venues.map((venue) => venue.id)).toEqual(['venue-a'])
+    })
+
+    it('should never let a late response overwrite newer venues', async () => {
+      const older = venues.fetchVenuesByBoundingBox(areaA, datetime)
+      await flushPromises()
+      const olderFetch = pendingFetches[0]!
+      const newer = venues.fetchVenuesByBoundingBox(areaB, datetime)
+      await flushPromises()
+
+      pendingFetches[1]!.resolve(createResponse('venue-b', areaB))
+      await newer
+      // The older response arrives last, as if the server ignored the abort
+      olderFetch.resolve(createResponse('venue-a', areaA))
+      await older
+
+      expect(store.venues.map((venue) => venue.id)).toEqual(['venue-b'])
+      expect(store.lastBbox).toEqual(areaB)
+    })
+
+    it('should answer a repeated request from the tile cache', async () => {
+      const first = venues.fetchVenuesByBoundingBox(areaA, datetime)
+      await flushPromises()
+      pendingFetches[0]!.resolve(createResponse('venue-a', areaA))
+      await first
+
+      await venues.fetchVenuesByBoundingBox(areaA, datetime)
+
+      expect(pendingFetches).toHaveLength(1)
+      expect(store.venues.map((venue) => venue.id)).toEqual(['venue-a'])
+    })
+  })
+
+  describe('local conditions', () => {
+    it('should adjust the status for recent check-ins only about now', async () => {
+      const response = createResponse('venue-a', areaA)
+      response.venues[0] = {
+        ...response.venues[0]!,
+        sunlightStatus: 'sunny',
+        sunCheckIns: [
+          { id: 'check-in-1', reportedStatus: 'shaded', checkedInAt: new Date().toISOString(), distanceMeters: 10 }
+        ]
+      }
+
+      const now = venues.fetchVenuesByBoundingBox(areaA, new Date())
+      await flushPromises()
+      pendingFetches[0]!.resolve(structuredClone(response))
+      await now
+      expect(store.venues[0]!.sunlightStatus!.confidence).toBeLessThan(1)
+
+      const earlier = venues.fetchVenuesByBoundingBox(areaA, datetime)
+      await flushPromises()
+      pendingFetches[1]!.resolve(structuredClone(response))
+      await earlier
+      expect(store.venues[0]!.sunlightStatus!.confidence).toBe(1)
+    })
+  })
+
+  describe('offline regions', () => {
+    it('should drop the footprints of an offline region once venues load online again', async () => {
+      const offlineStore = useOfflineRegionsStore()
+      offlineStore.regions = [{
+        id: 'region-a',
+        name: 'Region A',
+        bounds: { south: 41.38, west: 2.16, north: 41.39, east: 2.17 },
+        minZoom: 10,
+        maxZoom: 14,
+        tileCount: 1,
+        venueCount: 1,
+        buildingCount: 1,
+        sizeBytes: 1000,
+        downloadedAt: '2026-06-21T12:00:00.000Z'
+      }]
+      offlineStore.loadedData.set('region-a', {
+        venues: [createResponse('venue-a', areaA).venues[0]!],
+        buildings: [{ id: 'building-a', footprint: [{ latitude: 41.386, longitude: 2.166 }], height: 20 }]
+      })
+
+      const offline = venues.fetchVenuesByBoundingBox(areaA, datetime)
+      await flushPromises()
+      pendingFetches[0]!.reject(new TypeError('Failed to fetch'))
+      await offline
+      expect(store.buildings.map((building) => building.id)).toEqual(['building-a'])
+
+      const online = venues.fetchVenuesByBoundingBox(areaB, datetime)
+      await flushPromises()
+      pendingFetches[1]!.resolve(createResponse('venue-b', areaB))
+      await online
+
+      expect(store.venues.map((venue) => venue.id)).toEqual(['venue-b'])
+      expect(store.buildings).toEqual([])
+      expect(venues.findOpenAndSunnyVenues(areaB, { start: datetime, end: new Date(datetime.getTime() + 3600_000) })).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useSunlightStatus } from '@/composables/useSunlightStatus'
+import { useWeather } from '@/composables/useWeather'
+import type { IWeatherProvider } from '@/composables/weather/IWeatherProvider'
+import { useMockWeatherProvider } from '@/composables/weather/mock/useMockWeatherProvider'
+import { SunlightStatus } from '@/shared/enums'
+
+const barcelona = { latitude: 41.39, longitude: 2.17 }
+const summerDay = new Date('2024-06-21T12:00:00')
+
+// Provider returning the same cloud cover for every hour of the day.
+function constantProvider(cloudCover: number): IWeatherProvider {
+  return {
+    async getHourlyCloudCover(_coordinates, date) {
+      return Array.from({ length: 24 }, (_, hour) => {
+        const time = new Date(date)
+        time.setHours(hour, 0, 0, 0)
+        return { time, cloudCover }
+      })
+    }
+  }
+}
+
+let weather: ReturnType<typeof useWeather>
+const { createSunny } = useSunlightStatus()
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+  weather = useWeather()
+})
+
+describe('useWeather Composable', () => {
+  describe('loadForecast', () => {
+    it('should leave statuses unchanged without a provider', async () => {
+      await weather.loadForecast(null, barcelona, summerDay)
+
+      expect(weather.getCloudCoverAt(summerDay)).toBeNull()
+      expect(weather.adjustForWeather(createSunny(), summerDay).status).toBe(SunlightStatus.SUNNY)
+    })
+
+    it('should clear the forecast when the provider fails', async () => {
+      await weather.loadForecast(constantProvider(0.5), barcelona, summerDay)
+      await weather.loadForecast(
+        { getHourlyCloudCover: () => Promise.reject(new Error('offline')) },
+        { latitude: 48.85, longitude: 2.35 },
+        summerDay
+      )
+
+      expect(weather.getCloudCoverAt(summerDay)).toBeNull()
+    })
+  })
+
+  describe('adjustForWeather', () => {
+    it('should mark sunny statuses overcast under full cloud cover', async () => {
+      await weather.loadForecast(constantProvider(1), barcelona, summerDay)
+
+      expect(weather.adjustForWeather(createSunny(), summerDay).status).toBe(SunlightStatus.OVERCAST)
+    })
+
+    it('should lower confidence under partial cloud cover', async () => {
+      await weather.loadForecast(constantProvider(0.3), barcelona, summerDay)
+
+      const status = weather.adjustForWeather(createSunny(), summerDay)
+      expect(status.status).toBe(SunlightStatus.SUNNY)
+      expect(status.confidence).toBeCloseTo(0.7)
+    })
+  })
+
+  describe('useMockWeatherProvider', () => {
+    it('should return 24 deterministic hourly values between 0 and 1', async () => {
+      const provider = useMockWeatherProvider()
+      const first = await provider.getHourlyCloudCover(barcelona, summerDay)
+      const second = await provider.getHourlyCloudCover(barcelona, summerDay)
+
+      expect(first).toHaveLength(24)
+      expect(first).toEqual(second)
+      for (const hour of first) {
+        expect(hour.cloudCover).toBeGreaterThanOrEqual(0)
+        expect(hour.cloudCover).toBeLessThanOrEqual(1)
+      }
+    })
+  })
+})
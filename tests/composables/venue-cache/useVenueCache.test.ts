@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import type { IVenueCacheStorage } from '@/composables/venue-cache/IVenueCacheStorage'
+import { useMemoryVenueCacheStorage } from '@/composables/venue-cache/memory/useMemoryVenueCacheStorage'
+import { VENUE_CACHE_TTL_MS, useVenueCache } from '@/composables/venue-cache/useVenueCache'
+import { useVenuesStore } from '@/stores/venues'
+import type { BoundingBox, Venue } from '@/shared/types'
+
+const sunPosition = { azimuth: 180, altitude: 45, isDaytime: true }
+const slot = 1000
+const west = { south: 41.38, west: 2.15, north: 41.39, east: 2.16 }
+const east = { south: 41.38, west: 2.16, north: 41.39, east: 2.17 }
+const both = { south: 41.38, west: 2.15, north: 41.39, east: 2.17 }
+
+function createVenue(id: string, latitude: number, longitude: number): Venue {
+  return { id, name: id, type: 'bar', coordinates: { latitude, longitude } }
+}
+
+const westVenue = createVenue('west', 41.385, 2.155)
+const eastVenue = createVenue('east', 41.385, 2.165)
+
+let storage: IVenueCacheStorage
+let cache: ReturnType<typeof useVenueCache>
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(new Date('2026-06-21T12:00:00Z'))
+  setActivePinia(createPinia())
+  storage = useMemoryVenueCacheStorage()
+  cache = useVenueCache(storage)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('useVenueCache Composable', () => {
+  describe('lookup', () => {
+    it('should miss when nothing overlaps the bounding box', async () => {
+      await cache.save(west, slot, [westVenue], sunPosition)
+
+      expect(await cache.lookup({ south: 41.4, west: 2.15, north: 41.41, east: 2.16 }, slot)).toBeNull()
+    })
+
+    it('should answer a bounding box inside a cached one completely', async () => {
+      await cache.save(both, slot, [westVenue, eastVenue], sunPosition)
+
+      const hit = await cache.lookup(west, slot)
+
+      expect(hit).toEqual({ venues: [westVenue], sunPosition, isComplete: true })
+    })
+
+    it('should combine several cached entries covering the bounding box', async () => {
+      await cache.save(west, slot, [westVenue], sunPosition)
+      await cache.save(east, slot, [eastVenue], sunPosition)
+
+      const hit = await cache.lookup(both, slot)
+
+      expect(hit!.isComplete).toBe(true)
+      expect(hit!.venues.map((venue) => venue.id).toSorted()).toEqual(['east', 'west'])
+    })
+
+    it('should answer a partly cached bounding box partially', async () => {
+      await cache.save(west, slot, [westVenue], sunPosition)
+
+      const hit = await cache.lookup(both, slot)
+
+      expect(hit).toEqual({ venues: [westVenue], sunPosition, isComplete: false })
+    })
+
+    it('should not mix time slots', async () => {
+      await cache.save(both, slot, [westVenue], sunPosition)
+
+      expect(await cache.lookup(west, slot + 1)).toBeNull()
+    })
+
+    it('should ignore expired entries', async () => {
+      await cache.save(both, slot, [westVenue], sunPosition)
+      vi.advanceTimersByTime(VENUE_CACHE_TTL_MS)
+
+      expect(await cache.lookup(west, slot)).toBeNull()
+    })
+  })
+
+  describe('findVenues', () => {
+    it('should find venues from entries of any time slot, expired ones included', async () => {
+      await cache.save(west, slot, [westVenue], sunPosition)
+      await cache.save(east, slot + 1, [eastVenue], sunPosition)
+      vi.advanceTimersByTime(VENUE_CACHE_TTL_MS + 1)
+
+      const venues = await cache.findVenues(both)
+
+      expect(venues.map((venue) => venue.id).toSorted()).toEqual(['east', 'west'])
+    })
+
+    it('should keep expired entries when saving others', async () => {
+      await cache.save(west, slot, [westVenue], sunPosition)
+      vi.advanceTimersByTime(VENUE_CACHE_TTL_MS + 1)
+      await cache.save(east, slot + 1, [eastVenue], sunPosition)
+
+      expect(await cache.lookup(west, slot)).toBeNull()
+      expect((await cache.findVenues(west)).map((venue) => venue.id)).toEqual(['west'])
+    })
+  })
+
+  describe('save', () => {
+    it('should persist entries for the next session', async () => {
+      await cache.save(both, slot, [westVenue], sunPosition)
+
+      setActivePinia(createPinia())
+      const nextSession = useVenueCache(storage)
+
+      expect((await nextSession.lookup(west, slot))!.venues).toEqual([westVenue])
+    })
+
+    it('should let concurrent lookups wait for the same read of the index', async () => {
+      await cache.save(both, slot, [westVenue], sunPosition)
+
+      setActivePinia(createPinia())
+      const loadEntries = vi.spyOn(storage, 'loadEntries')
+      const nextSession = useVenueCache(storage)
+      const [first, second] = await Promise.all([nextSession.lookup(west, slot), nextSession.lookup(west, slot)])
+
+      expect(loadEntries).toHaveBeenCalledTimes(1)
+      expect(first!.venues).toEqual([westVenue])
+      expect(second!.venues).toEqual([westVenue])
+    })
+
+    it('should drop entries covered by a newer one', async () => {
+      await cache.save(west, slot, [westVenue], sunPosition)
+      await cache.save(both, slot, [westVenue, eastVenue], sunPosition)
+
+      expect(Object.keys(useVenuesStore().cacheEntries)).toHaveLength(1)
+      expect(await storage.loadEntries()).toHaveLength(1)
+    })
+
+    it('should evict the least recently used entries beyond the size limit', async () => {
+      const boxes: BoundingBox[] = [0, 1, 2].map((i) => ({ south: 41 + i, west: 2, north: 41.01 + i, east: 2.01 }))
+      const venues = boxes.map((box, i) => createVenue(`venue-${i}`, box.south + 0.005, 2.005))
+      const entrySize = JSON.stringify({ key: `${slot}_${boxes[0]!.south},2,41.01,2.01`, venues: [venues[0]], sunPosition }).length
+      const smallCache = useVenueCache(storage, entrySize * 2 + 10)
+
+      await smallCache.save(boxes[0]!, slot, [venues[0]!], sunPosition)
+      vi.advanceTimersByTime(1000)
+      await smallCache.save(boxes[1]!, slot, [venues[1]!], sunPosition)
+      vi.advanceTimersByTime(1000)
+      // Reading the first entry makes the second one the least recently used
+      await smallCache.lookup(boxes[0]!, slot)
+      vi.advanceTimersByTime(1000)
+      await smallCache.save(boxes[2]!, slot, [venues[2]!], sunPosition)
+
+      expect(await smallCache.lookup(boxes[0]!, slot)).not.toBeNull()
+      expect(await smallCache.lookup(boxes[1]!, slot)).toBeNull()
+      expect(await smallCache.lookup(boxes[2]!, slot)).not.toBeNull()
+    })
+  })
+})
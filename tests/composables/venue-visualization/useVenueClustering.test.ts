@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { CLUSTER_MAX_ZOOM, useVenueClustering } from '@/composables/map-adapter/useVenueClustering'
+import { SunlightStatus } from '@/shared/enums'
+import type { Venue } from '@/shared/types'
+
+const METERS_PER_DEGREE = 111320
+
+// Venue offset from central Barcelona by the given number of meters east.
+function createVenue(id: string, eastMeters: number, sunny: boolean): Venue {
+  const cosLat = Math.cos((41.39 * Math.PI) / 180)
+  return {
+    id,
+    name: `Venue ${id}`,
+    type: 'bar',
+    coordinates: { latitude: 41.39, longitude: 2.17 + eastMeters / (METERS_PER_DEGREE * cosLat) },
+    sunlightStatus: {
+      status: sunny ? SunlightStatus.SUNNY : SunlightStatus.SHADED,
+      confidence: 1
+    }
+  }
+}
+
+const isSunny = (venue: Venue) => venue.sunlightStatus?.status === SunlightStatus.SUNNY
+const { clusterVenues } = useVenueClustering(isSunny)
+
+describe('useVenueClustering Composable', () => {
+  describe('clusterVenues', () => {
+    const neighbours = [createVenue('a', 0, true), createVenue('b', 5, true), createVenue('c', 10, false)]
+
+    it('should group venues that overlap on screen and count the sunny ones', () => {
+      const { clusters, singles } = clusterVenues(neighbours, 12)
+      expect(singles).toHaveLength(0)
+      expect(clusters).toHaveLength(1)
+      expect(clusters[0]!.venues).toHaveLength(3)
+      expect(clusters[0]!.sunnyCount).toBe(2)
+    })
+
+    it('should place the cluster at the centroid of its venues', () => {
+      const { clusters } = clusterVenues(neighbours, 12)
+      expect(clusters[0]!.coordinates.longitude).toBeCloseTo(neighbours[1]!.coordinates.longitude, 6)
+    })
+
+    it('should zoom past the current level to expand a cluster', () => {
+      const { clusters } = clusterVenues(neighbours, 12)
+      expect(clusters[0]!.expansionZoom).toBeGreaterThan(12)
+      expect(clusters[0]!.expansionZoom).toBeLessThanOrEqual(CLUSTER_MAX_ZOOM + 1)
+    })
+
+    it('should keep venues far apart as singles', () => {
+      const venues = [createVenue('a', 0, true), createVenue('b', 2000, false)]
+      const { clusters, singles } = clusterVenues(venues, 15)
+      expect(clusters).toHaveLength(0)
+      expect(singles).toHaveLength(2)
+    })
+
+    it('should not cluster beyond the maximum zoom', () => {
+      const { clusters, singles } = clusterVenues(neighbours, CLUSTER_MAX_ZOOM + 1)
+      expect(clusters).toHaveLength(0)
+      expect(singles).toHaveLength(3)
+    })
+  })
+})
@@ -44,8 +44,8 @@ describe('useVenueMarkers Composable', () => {
   let mockGraphic: GraphicConstructor
   let mockPoint: PointConstructor
   let mockGraphicsLayer: MockGraphicsLayer
-  let mockCreateSunnySymbol: ReturnType<typeof vi.fn<() => MockSymbol>>
-  let mockCreateShadedSymbol: ReturnType<typeof vi.fn<() => MockSymbol>>
+  let mockCreateVenueSymbol: ReturnType<typeof vi.fn<(venue: Venue) => MockSymbol>>
+  let mockGetSymbolKey: ReturnType<typeof vi.fn<(venue: Venue) => string>>
   let mockIsSunny: ReturnType<typeof vi.fn<(venue: Venue) => boolean>>
   let createdGraphics: MockGraphic[]
 
@@ -79,8 +79,10 @@ describe('useVenueMarkers Composable', () => {
       addMany: vi.fn()
     }
 
-    mockCreateSunnySymbol = vi.fn((): MockSymbol => ({ type: 'sunny' }))
-    mockCreateShadedSymbol = vi.fn((): MockSymbol => ({ type: 'shaded' }))
+    mockCreateVenueSymbol = vi.fn((venue: Venue): MockSymbol => ({ type: venue.type }))
+    mockGetSymbolKey = vi.fn(
+      (venue: Venue): string => `${venue.type}-${venue.sunlightStatus?.status ?? SunlightStatus.UNKNOWN}`
+    )
     mockIsSunny = vi.fn(
       (venue: Venue): boolean =>
         venue.sunlightStatus?.status === SunlightStatus.SUNNY
@@ -92,8 +94,8 @@ describe('useVenueMarkers Composable', () => {
       const { updateMarkers } = useVenueMarkers(
         mockGraphic as unknown as typeof import('@arcgis/core/Graphic').default,
         mockPoint as unknown as typeof import('@arcgis/core/geometry/Point').default,
-        mockCreateSunnySymbol as unknown as () => __esri.SimpleMarkerSymbol,
-        mockCreateShadedSymbol as unknown as () => __esri.SimpleMarkerSymbol,
+        mockCreateVenueSymbol as unknown as (venue: Venue) => __esri.SimpleMarkerSymbol,
+        mockGetSymbolKey,
         mockIsSunny
       )
 
@@ -121,8 +123,7 @@ describe('useVenueMarkers Composable', () => {
 
       expect(mockGraphic).toHaveBeenCalledTimes(2)
       expect(mockPoint).toHaveBeenCalledTimes(2)
-      expect(mockCreateSunnySymbol).toHaveBeenCalledTimes(1)
-      expect(mockCreateShadedSymbol).toHaveBeenCalledTimes(1)
+      expect(mockCreateVenueSymbol).toHaveBeenCalledTimes(2)
       expect(mockGraphicsLayer.addMany).toHaveBeenCalledTimes(1)
       expect(mockGraphicsLayer.addMany).toHaveBeenCalledWith(
         expect.arrayContaining([
@@ -140,8 +141,8 @@ describe('useVenueMarkers Composable', () => {
       const { updateMarkers } = useVenueMarkers(
         mockGraphic as unknown as typeof import('@arcgis/core/Graphic').default,
         mockPoint as unknown as typeof import('@arcgis/core/geometry/Point').default,
-        mockCreateSunnySymbol as unknown as () => __esri.SimpleMarkerSymbol,
-        mockCreateShadedSymbol as unknown as () => __esri.SimpleMarkerSymbol,
+        mockCreateVenueSymbol as unknown as (venue: Venue) => __esri.SimpleMarkerSymbol,
+        mockGetSymbolKey,
         mockIsSunny
       )
 
@@ -154,8 +155,8 @@ describe('useVenueMarkers Composable', () => {
       const { updateMarkers } = useVenueMarkers(
         mockGraphic as unknown as typeof import('@arcgis/core/Graphic').default,
         mockPoint as unknown as typeof import('@arcgis/core/geometry/Point').default,
-        mockCreateSunnySymbol as unknown as () => __esri.SimpleMarkerSymbol,
-        mockCreateShadedSymbol as unknown as () => __esri.SimpleMarkerSymbol,
+        mockCreateVenueSymbol as unknown as (venue: Venue) => __esri.SimpleMarkerSymbol,
+        mockGetSymbolKey,
         mockIsSunny
       )
 
@@ -177,8 +178,8 @@ describe('useVenueMarkers Composable', () => {
       const { updateMarkers } = useVenueMarkers(
         mockGraphic as unknown as typeof import('@arcgis/core/Graphic').default,
         mockPoint as unknown as typeof import('@arcgis/core/geometry/Point').default,
-        mockCreateSunnySymbol as unknown as () => __esri.SimpleMarkerSymbol,
-        mockCreateShadedSymbol as unknown as () => __esri.SimpleMarkerSymbol,
+        mockCreateVenueSymbol as unknown as (venue: Venue) => __esri.SimpleMarkerSymbol,
+        mockGetSymbolKey,
         mockIsSunny
       )
 
@@ -203,6 +204,7 @@ describe('useVenueMarkers Composable', () => {
             name: 'Test Restaurant',
             type: 'restaurant',
             isSunny: true,
+            symbolKey: `restaurant-${SunlightStatus.SUNNY}`,
             address: '123 Main St',
             outdoor_seating: true
           })
@@ -214,8 +216,8 @@ describe('useVenueMarkers Composable', () => {
       const { updateMarkers } = useVenueMarkers(
         mockGraphic as unknown as typeof import('@arcgis/core/Graphic').default,
         mockPoint as unknown as typeof import('@arcgis/core/geometry/Point').default,
-        mockCreateSunnySymbol as unknown as () => __esri.SimpleMarkerSymbol,
-        mockCreateShadedSymbol as unknown as () => __esri.SimpleMarkerSymbol,
+        mockCreateVenueSymbol as unknown as (venue: Venue) => __esri.SimpleMarkerSymbol,
+        mockGetSymbolKey,
         mockIsSunny
       )
 
@@ -235,5 +237,32 @@ describe('useVenueMarkers Composable', () => {
         latitude: 41.3851
       })
     })
+
+    it('should only redraw markers whose symbol key changed', () => {
+      const { updateMarkers } = useVenueMarkers(
+        mockGraphic as unknown as typeof import('@arcgis/core/Graphic').default,
+        mockPoint as unknown as typeof import('@arcgis/core/geometry/Point').default,
+        mockCreateVenueSymbol as unknown as (venue: Venue) => __esri.SimpleMarkerSymbol,
+        mockGetSymbolKey,
+        mockIsSunny
+      )
+
+      const venue: Venue = {
+        id: '1',
+        name: 'Test Cafe',
+        type: 'cafe',
+        coordinates: { latitude: 41.3851, longitude: 2.1734 },
+        sunlightStatus: { status: SunlightStatus.SUNNY, confidence: 1 }
+      }
+      const layer = mockGraphicsLayer as unknown as __esri.GraphicsLayer
+
+      updateMarkers(layer, [venue])
+      updateMarkers(layer, [{ ...venue }])
+      expect(mockCreateVenueSymbol).toHaveBeenCalledTimes(1)
+
+      updateMarkers(layer, [{ ...venue, sunlightStatus: { status: SunlightStatus.NIGHT, confidence: 1 } }])
+      expect(mockCreateVenueSymbol).toHaveBeenCalledTimes(2)
+      expect(mockGraphicsLayer.remove).toHaveBeenCalledTimes(1)
+    })
   })
 })
@@ -1,97 +1,99 @@
 import { describe, expect, it, vi } from 'vitest'
 import { useVenueSymbols } from '@/composables/map-adapter/arcgis/useVenueSymbols'
+import { useVenueSymbology } from '@/composables/map-adapter/useVenueSymbology'
+import { SunlightStatus } from '@/shared/enums'
+import type { Venue } from '@/shared/types'
 
 type SimpleMarkerSymbolConfig = {
+  style: string;
+  path: string;
   size: number;
   color: [number, number, number, number];
   outline: { color: [number, number, number, number]; width: number };
 };
 
-type MockSimpleMarkerSymbol = {
-  size: number;
-  color: [number, number, number, number];
-  outline: { color: [number, number, number, number]; width: number };
-};
+type MockSimpleMarkerSymbol = SimpleMarkerSymbolConfig;
 
 describe('useVenueSymbols Composable', () => {
   // Mock SimpleMarkerSymbol constructor
   const mockSimpleMarkerSymbol = vi.fn(
-    (config: SimpleMarkerSymbolConfig): MockSimpleMarkerSymbol => ({
-      size: config.size,
-      color: config.color,
-      outline: config.outline
-    })
+    (config: SimpleMarkerSymbolConfig): MockSimpleMarkerSymbol => ({ ...config })
   )
 
-  const { createSunnySymbol, createShadedSymbol } = useVenueSymbols(
+  const { createSymbol, createVenueSymbol, getSymbolKey } = useVenueSymbols(
     mockSimpleMarkerSymbol as unknown as typeof import('@arcgis/core/symbols/SimpleMarkerSymbol').default
   )
+  const symbology = useVenueSymbology()
 
-  describe('createSunnySymbol', () => {
-    it('should create sunny marker with correct properties', () => {
-      const symbol = createSunnySymbol()
+  const createVenue = (overrides: Partial<Venue> = {}): Venue => ({
+    id: '1',
+    name: 'Test Venue',
+    type: 'bar',
+    coordinates: { latitude: 41.3851, longitude: 2.1734 },
+    ...overrides
+  })
 
-      expect(mockSimpleMarkerSymbol).toHaveBeenCalledWith({
-        size: 16,
-        color: [255, 193, 7, 1],
-        outline: { color: [255, 255, 255, 1], width: 2.5 }
-      })
+  describe('createSymbol', () => {
+    it('should draw the sunny status as a large amber marker', () => {
+      const symbol = createSymbol('bar', SunlightStatus.SUNNY) as unknown as MockSimpleMarkerSymbol
 
-      expect(symbol.size).toBe(16)
+      expect(symbol.style).toBe('path')
       expect(symbol.color).toEqual([255, 193, 7, 1])
-      expect(symbol.outline.width).toBe(2.5)
+      expect(symbol.outline.color).toEqual([255, 255, 255, 1])
     })
-  })
 
-  describe('createShadedSymbol', () => {
-    it('should create shaded marker with correct properties', () => {
-      const symbol = createShadedSymbol()
+    it('should draw the shaded status as a smaller grey marker', () => {
+      const sunny = createSymbol('bar', SunlightStatus.SUNNY) as unknown as MockSimpleMarkerSymbol
+      const shaded = createSymbol('bar', SunlightStatus.SHADED) as unknown as MockSimpleMarkerSymbol
 
-      expect(mockSimpleMarkerSymbol).toHaveBeenCalledWith({
-        size: 12,
-        color: [107, 114, 128, 0.85],
-        outline: { color: [255, 255, 255, 1], width: 2 }
-      })
+      expect(shaded.color).toEqual([107, 114, 128, 0.85])
+      expect(sunny.size).toBeGreaterThan(shaded.size)
+    })
 
-      expect(symbol.size).toBe(12)
-      expect(symbol.color).toEqual([107, 114, 128, 0.85])
-      expect(symbol.outline.width).toBe(2)
+    it('should give every sunlight status its own colour', () => {
+      const colors = Object.values(SunlightStatus).map((status) =>
+        (createSymbol('bar', status) as unknown as MockSimpleMarkerSymbol).color.join(','))
+
+      expect(new Set(colors).size).toBe(Object.values(SunlightStatus).length)
+    })
+
+    it('should give every venue type its own shape', () => {
+      const types = ['bar', 'cafe', 'restaurant', 'pub', 'biergarten'] as const
+      const paths = types.map((type) =>
+        (createSymbol(type, SunlightStatus.SUNNY) as unknown as MockSimpleMarkerSymbol).path)
+
+      expect(new Set(paths).size).toBe(types.length)
+      paths.forEach((path, index) => expect(path).toBe(symbology.getTypePath(types[index]!)))
     })
   })
 
-  describe('symbol differences', () => {
-    it('should create different sized markers for sunny vs shaded', () => {
-      const sunny = createSunnySymbol()
-      const shaded = createShadedSymbol()
+  describe('createVenueSymbol', () => {
+    it('should use the venue type and sunlight status', () => {
+      const venue = createVenue({
+        type: 'pub',
+        sunlightStatus: { status: SunlightStatus.PARTIALLY_SUNNY, confidence: 0.5 }
+      })
+      const symbol = createVenueSymbol(venue) as unknown as MockSimpleMarkerSymbol
 
-      expect(sunny.size).toBeGreaterThan(shaded.size)
+      expect(symbol.path).toBe(symbology.getTypePath('pub'))
+      expect(symbol.color).toEqual(symbology.getStatusStyle(SunlightStatus.PARTIALLY_SUNNY).color)
     })
 
-    it('should use amber color for sunny and gray for shaded', () => {
-      const sunny = createSunnySymbol()
-      const shaded = createShadedSymbol()
-
-      // Sunny should be amber (high red, high green, low blue)
-      const sunnyColor = sunny.color as unknown as [
-        number,
-        number,
-        number,
-        number,
-      ]
-      expect(sunnyColor[0]).toBe(255) // red
-      expect(sunnyColor[1]).toBe(193) // green
-      expect(sunnyColor[2]).toBe(7) // blue
-
-      // Shaded should be gray (balanced RGB values)
-      const shadedColor = shaded.color as unknown as [
-        number,
-        number,
-        number,
-        number,
-      ]
-      expect(shadedColor[0]).toBe(107)
-      expect(shadedColor[1]).toBe(114)
-      expect(shadedColor[2]).toBe(128)
+    it('should fall back to the unknown style without a sunlight status', () => {
+      const symbol = createVenueSymbol(createVenue()) as unknown as MockSimpleMarkerSymbol
+
+      expect(symbol.color).toEqual(symbology.getStatusStyle(SunlightStatus.UNKNOWN).color)
+    })
+  })
+
+  describe('getSymbolKey', () => {
+    it('should change when the status changes and stay stable otherwise', () => {
+      const sunny = createVenue({ sunlightStatus: { status: SunlightStatus.SUNNY, confidence: 1 } })
+      const lessSure = createVenue({ sunlightStatus: { status: SunlightStatus.SUNNY, confidence: 0.6 } })
+      const night = createVenue({ sunlightStatus: { status: SunlightStatus.NIGHT, confidence: 1 } })
+
+      expect(getSymbolKey(sunny)).toBe(getSymbolKey(lessSure))
+      expect(getSymbolKey(sunny)).not.toBe(getSymbolKey(night))
     })
   })
 })